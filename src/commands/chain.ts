@@ -0,0 +1,344 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import { isBitcoindRunning } from '../services/bitcoind';
+import { getOrdReceiveAddress, getWalletInscriptions, isOrdRunning, waitForOrdSync } from '../services/ord';
+import { startAutoMine, stopAutoMine } from '../services/autoMine';
+import {
+  generateBlock,
+  generateToAddress,
+  getBestBlockHash,
+  getBlockHash,
+  getMempoolInfo,
+  invalidateBlock,
+  rpcCall,
+} from '../utils/rpc';
+import { getBlockInscriptions, getInscriptionInfo, getOrdBlockHash } from '../utils/ordApi';
+import { getConfig } from '../utils/config';
+import { getCurrentWallet } from '../utils/walletState';
+import { deleteStoredMnemonics } from '../utils/mnemonic';
+import {
+  describeInscriptionDiff,
+  diffInscriptions,
+  getInscriptionChangeLabel,
+  getReorgRange,
+  InscriptionState,
+} from '../utils/reorg';
+import { showErrorWithSuggestion, showWarningWithAction } from '../utils/errorHelper';
+import { refreshAllTrees } from '../ui/treeView';
+import { ResultField, showResultPanel } from '../ui/resultPanel';
+import { log } from '../ui/outputChannel';
+import { ensureWalletFunded } from './wallet';
+import { getRegtestDirectories } from './snapshots';
+import { withServicesStopped } from './services';
+
+/**
+ * Deletes the regtest chain with every bitcoind and ord wallet on it, starts a new chain from
+ * genesis and funds the current wallet. Unlike "Reset Wallet", old blocks and coins are gone too.
+ */
+export async function resetChain(context: vscode.ExtensionContext): Promise<void> {
+  const config = getConfig();
+  if (config.network !== 'regtest') {
+    vscode.window.showErrorMessage(`Resetting the chain is only possible on regtest (current network: ${config.network}).`);
+    return;
+  }
+
+  const wallet = getCurrentWallet();
+  const confirm = await vscode.window.showWarningMessage(
+    'Reset the regtest chain to genesis?',
+    {
+      modal: true,
+      detail: [
+        'The regtest blocks and all Bitcoin Core regtest wallets, including "mining", are deleted, along with the ord index and every ord wallet on regtest.',
+        `The chain then restarts from genesis and wallet "${wallet}" is created and funded again.`,
+        'Save a chain snapshot first to be able to come back to the current state.',
+      ].join('\n\n'),
+    },
+    'Reset Chain'
+  );
+  if (confirm !== 'Reset Chain') {
+    return;
+  }
+
+  const result = await vscode.window.withProgress(
+    { location: vscode.ProgressLocation.Notification, title: 'Resetting regtest chain...', cancellable: false },
+    async (progress): Promise<{ funded?: boolean; error?: Error | string }> => {
+      try {
+        await withServicesStopped(
+          context,
+          progress,
+          async () => {
+            progress.report({ message: 'Deleting regtest data...' });
+            const dirs = getRegtestDirectories();
+            for (const dir of [dirs.bitcoin, dirs.ord]) {
+              fs.rmSync(dir, { recursive: true, force: true });
+              log(`Deleted ${dir}`);
+            }
+            // The wallets they belong to are gone; a recreated wallet gets a new seed
+            await deleteStoredMnemonics('regtest');
+          },
+          true
+        );
+
+        progress.report({ message: `Funding wallet "${wallet}"...` });
+        const funded = await ensureWalletFunded(context);
+        const blocks = await rpcCall<number>('getblockcount');
+        if (!(await waitForOrdSync(config.ordServerPort, blocks))) {
+          log('Warning: ord did not catch up with the funding blocks');
+        }
+
+        return { funded };
+      } catch (error) {
+        return { error: error instanceof Error ? error : String(error) };
+      }
+    }
+  );
+
+  refreshAllTrees();
+  if (result.error) {
+    await showErrorWithSuggestion('Failed to reset the regtest chain', result.error);
+    return;
+  }
+
+  log('Regtest chain reset to genesis');
+  if (result.funded) {
+    vscode.window.showInformationMessage(`The regtest chain was reset and wallet "${wallet}" has been funded.`);
+  } else {
+    vscode.window.showWarningMessage(
+      `The regtest chain was reset, but wallet "${wallet}" could not be funded. See the output log for details.`
+    );
+  }
+}
+
+interface ReorgResult {
+  first: number;
+  last: number;
+  height: number;
+  tip: string;
+  /** Whether ord's latest block is bitcoind's new tip */
+  ordFollowed: boolean;
+  ordSynced: boolean;
+  fields: ResultField[];
+}
+
+async function getInscriptionState(id: string): Promise<InscriptionState | undefined> {
+  try {
+    const info = await getInscriptionInfo(id);
+    return { height: info.height, satpoint: info.satpoint, address: info.address };
+  } catch (e) {
+    // ord answers 404 for inscriptions it no longer indexes
+    if (e instanceof Error && e.message.includes('HTTP 404')) {
+      return undefined;
+    }
+    throw e;
+  }
+}
+
+/**
+ * Inscriptions a reorg can affect: those revealed in the blocks about to be disconnected,
+ * and those the current wallet holds
+ */
+async function getTrackedInscriptions(context: vscode.ExtensionContext, first: number, last: number): Promise<string[]> {
+  const ids = new Set<string>();
+  for (let height = first; height <= last; height++) {
+    for (const id of await getBlockInscriptions(height)) {
+      ids.add(id);
+    }
+  }
+  try {
+    for (const inscription of await getWalletInscriptions(context)) {
+      ids.add(inscription.id);
+    }
+  } catch (e) {
+    log(`Could not list wallet inscriptions: ${e}`);
+  }
+  return [...ids];
+}
+
+async function mineCompetingChain(context: vscode.ExtensionContext, blocks: number, includeTransactions: boolean): Promise<void> {
+  const address = await getOrdReceiveAddress(context);
+  if (includeTransactions) {
+    await generateToAddress(blocks, address);
+    return;
+  }
+  for (let i = 0; i < blocks; i++) {
+    await generateBlock(address, []);
+  }
+}
+
+function askBlockCount(prompt: string, value: string, min: number, max: number): Thenable<string | undefined> {
+  return vscode.window.showInputBox({
+    prompt,
+    value,
+    validateInput: (input) => {
+      const count = parseInt(input, 10);
+      if (isNaN(count) || count < min || count > max) {
+        return `Please enter a number between ${min} and ${max}`;
+      }
+      return null;
+    },
+  });
+}
+
+/**
+ * Disconnects the last blocks with `invalidateblock` and optionally mines a competing chain,
+ * then reports how ord's view of the affected inscriptions changed (regtest only)
+ */
+export async function simulateReorg(context: vscode.ExtensionContext): Promise<void> {
+  const config = getConfig();
+  if (config.network !== 'regtest') {
+    vscode.window.showWarningMessage(`Reorgs can only be simulated in regtest mode (current: ${config.network}).`);
+    return;
+  }
+  if (!isBitcoindRunning() || !isOrdRunning()) {
+    await showWarningWithAction('bitcoind and ord must be running to simulate a reorg.', 'Start Services', 'ord.start');
+    return;
+  }
+
+  let tipHeight: number;
+  try {
+    tipHeight = await rpcCall<number>('getblockcount');
+  } catch (e) {
+    await showErrorWithSuggestion('Failed to read the chain height', e instanceof Error ? e : String(e));
+    return;
+  }
+  if (tipHeight === 0) {
+    vscode.window.showInformationMessage('The chain only has the genesis block, so there are no blocks to disconnect. Mine some blocks first.');
+    return;
+  }
+
+  const depthInput = await askBlockCount(`How many blocks to disconnect? (chain height: ${tipHeight})`, '1', 1, tipHeight);
+  if (!depthInput) {
+    return;
+  }
+  const depth = parseInt(depthInput, 10);
+  const range = getReorgRange(tipHeight, depth);
+  if (!range) {
+    return;
+  }
+
+  // ord only notices a reorg once the competing chain is longer than the one it indexed
+  const minedInput = await askBlockCount(
+    'How many blocks to mine on the competing chain? ord follows it once it is longer than the old one; 0 leaves the chain shorter.',
+    String(depth + 1),
+    0,
+    1000
+  );
+  if (minedInput === undefined) {
+    return;
+  }
+  const mined = parseInt(minedInput, 10);
+
+  let includeTransactions = true;
+  if (mined > 0) {
+    const choice = await vscode.window.showQuickPick(
+      [
+        { label: 'Re-mine Transactions', description: 'The new blocks include the disconnected transactions', include: true },
+        { label: 'Leave Transactions Pending', description: 'The new blocks are empty; transactions stay in the mempool', include: false },
+      ],
+      { title: 'Competing Chain', placeHolder: 'What happens to the transactions of the disconnected blocks?' }
+    );
+    if (!choice) {
+      return;
+    }
+    includeTransactions = choice.include;
+  }
+
+  const result = await vscode.window.withProgress(
+    { location: vscode.ProgressLocation.Notification, title: `Simulating a ${depth}-block reorg...`, cancellable: false },
+    async (progress): Promise<{ reorg?: ReorgResult; error?: Error | string }> => {
+      // Auto-mine would otherwise race the competing chain
+      stopAutoMine();
+      try {
+        progress.report({ message: 'Reading inscriptions...' });
+        const ids = await getTrackedInscriptions(context, range.first, range.last);
+        const before = new Map<string, InscriptionState>();
+        for (const id of ids) {
+          const state = await getInscriptionState(id);
+          if (state) {
+            before.set(id, state);
+          }
+        }
+
+        progress.report({ message: `Invalidating blocks ${range.first}-${range.last}...` });
+        await invalidateBlock(await getBlockHash(range.first));
+        log(`Invalidated blocks ${range.first}-${range.last}`);
+
+        if (mined > 0) {
+          progress.report({ message: `Mining ${mined} competing block(s)...` });
+          await mineCompetingChain(context, mined, includeTransactions);
+          log(`Mined ${mined} competing block(s) ${includeTransactions ? 'with' : 'without'} the disconnected transactions`);
+        }
+
+        const height = await rpcCall<number>('getblockcount');
+        const tip = await getBestBlockHash();
+        let ordSynced = true;
+        if (height > range.last) {
+          progress.report({ message: 'Waiting for ord to follow the new chain...' });
+          ordSynced = await waitForOrdSync(config.ordServerPort, height);
+        }
+        const ordFollowed = ordSynced && (await getOrdBlockHash()) === tip;
+
+        progress.report({ message: 'Comparing inscriptions...' });
+        const after = new Map<string, InscriptionState | undefined>();
+        for (const id of before.keys()) {
+          after.set(id, await getInscriptionState(id));
+        }
+        const diffs = diffInscriptions(before, after);
+        const pending = (await getMempoolInfo()).size;
+
+        const fields: ResultField[] = [
+          { label: 'Disconnected', value: `Blocks ${range.first}-${range.last} (${depth})` },
+          {
+            label: 'Competing chain',
+            value:
+              mined > 0
+                ? `${mined} block(s) ${includeTransactions ? 'with' : 'without'} the disconnected transactions`
+                : 'None mined',
+          },
+          { label: 'Chain tip', value: `Height ${height}\n${tip}` },
+          { label: 'Mempool', value: `${pending} transaction(s) pending` },
+          ...diffs.map((diff) => ({ label: getInscriptionChangeLabel(diff.change), value: describeInscriptionDiff(diff) })),
+        ];
+        if (diffs.length === 0) {
+          fields.push({ label: 'Inscriptions', value: 'None in the disconnected blocks or the current wallet' });
+        }
+
+        return { reorg: { ...range, height, tip, ordFollowed, ordSynced, fields } };
+      } catch (e) {
+        return { error: e instanceof Error ? e : String(e) };
+      } finally {
+        startAutoMine(context);
+      }
+    }
+  );
+
+  refreshAllTrees();
+  if (result.error || !result.reorg) {
+    await showErrorWithSuggestion('Failed to simulate reorg', result.error || 'No result');
+    return;
+  }
+
+  const reorg = result.reorg;
+  let status: { ok: boolean; text: string };
+  if (reorg.ordFollowed) {
+    status = { ok: true, text: `ord followed the new chain to height ${reorg.height}` };
+  } else if (!reorg.ordSynced) {
+    status = {
+      ok: false,
+      text: `ord did not reach height ${reorg.height}. Reorgs deeper than ord's savepoints can't be rolled back; use "Ord: Rebuild Index".`,
+    };
+  } else {
+    status = {
+      ok: false,
+      text: 'ord is still on the old chain. It notices the reorg once the new chain is longer than the old one; mine more blocks.',
+    };
+  }
+  log(`Reorg simulated: ${status.text}`);
+
+  showResultPanel({
+    title: 'Reorg Simulation',
+    heading: `Reorg of ${depth} block(s) at height ${reorg.first}`,
+    status,
+    fields: reorg.fields,
+  });
+}
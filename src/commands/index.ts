@@ -1,4 +1,11 @@
-export { startServices, stopServices, openOrdServer } from './services';
-export { createWallet, showBalance, mineBlocks, resetWallet, createNamedWallet, switchWallet, getActiveWalletName } from './wallet';
-export { inscribeCurrentFile, inscribeFileFromExplorer } from './inscribe';
+export { startServices, stopServices, openOrdServer, openPreview, rebuildIndex, promptIndexRebuild } from './services';
+export { createWallet, showBalance, mineBlocks, setAutoMine, resetWallet, createNamedWallet, switchWallet, deleteWallets, renameWallet, getActiveWalletName, validateCurrentWallet, restoreWallet, backupWallet } from './wallet';
+export { inscribeCurrentFile, inscribeFileFromExplorer, inscribeBatchManifest, inscribeAsChild, inscribeWithMetadata, inscribeOnSat } from './inscribe';
+export { sendInscription, sendBitcoin, sendRune } from './send';
+export { etchRune, mintRune } from './runes';
+export { signMessage, verifyMessage } from './message';
+export { createOffer, acceptOffer, inspectPsbt, signPsbt, finalizePsbt } from './psbt';
+export { resetChain, simulateReorg } from './chain';
+export { saveSnapshot, restoreSnapshot, deleteSnapshot } from './snapshots';
+export { copyOutpoint, openOutput, setOutputFrozen, openTransaction } from './outputs';
 export { downloadBinaries, checkAndPromptUpdates } from './download';
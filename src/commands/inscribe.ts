@@ -1,18 +1,47 @@
 import * as vscode from 'vscode';
 import * as path from 'path';
-import { inscribeFile, isOrdRunning, waitForOrdSync } from '../services/ord';
+import * as fs from 'fs';
+import {
+  inscribeFile,
+  inscribeBatch,
+  inscribeEtchingBatch,
+  getOrdReceiveAddress,
+  BatchInscriptionResult,
+  isOrdRunning,
+  waitForOrdSync,
+  getWalletInscriptions,
+  estimateInscriptionCost,
+  InscribeOptions,
+  InscriptionCostEstimate,
+  getWalletRareSats,
+  getWalletSatRanges,
+  OutputSatRanges,
+} from '../services/ord';
 import { isBitcoindRunning, startBitcoind } from '../services/bitcoind';
 import { startOrdServer } from '../services/ord';
-import { ensureWalletFunded } from './wallet';
+import { ensureWalletFunded, mineConfirmationBlock } from './wallet';
 import { ensureBinariesInstalled } from '../services/download';
-import { generateToAddress, rpcCall } from '../utils/rpc';
-import { getOrdReceiveAddress } from '../services/ord';
+import { rpcCall } from '../utils/rpc';
+import { getOrdStatus } from '../utils/ordApi';
+import { COMMIT_CONFIRMATIONS } from '../utils/runes';
+import { getSatpointForSat, getSatRarity, isValidSatpoint, RARITIES, SatRange } from '../utils/sats';
 import { getConfig } from '../utils/config';
 import { updateStatusBar } from '../ui/statusBar';
 import { log } from '../ui/outputChannel';
-import { addInscription } from '../utils/inscriptionHistory';
+import { addInscription, getInscriptionHistory } from '../utils/inscriptionHistory';
 import { showErrorWithSuggestion } from '../utils/errorHelper';
 import { refreshInscriptionsTree, refreshWalletTree } from '../ui/treeView';
+import { getCurrentWallet } from '../utils/walletState';
+import { resolveFeeRate } from '../ui/feePicker';
+import { findMetadataSidecar, isCborMetadata, readJsonMetadata } from '../utils/inscriptionMetadata';
+import { listParentCandidates } from '../utils/parentInscriptions';
+import {
+  BatchManifest,
+  readBatchManifest,
+  validateBatchManifest,
+  describeBatchManifest,
+  isBatchManifestFile,
+} from '../utils/batchManifest';
 
 async function ensureServicesRunning(context: vscode.ExtensionContext): Promise<boolean> {
   // Check binaries
@@ -71,26 +100,472 @@ export async function inscribeFileFromExplorer(
   await doInscribe(context, uri.fsPath);
 }
 
+/**
+ * Inscribes a file with a metadata file and/or metaprotocol chosen interactively.
+ * A sidecar next to the file (foo.png.meta.json) is offered as the default.
+ */
+export async function inscribeWithMetadata(
+  context: vscode.ExtensionContext,
+  uri?: vscode.Uri
+): Promise<void> {
+  let filePath = uri?.fsPath;
+  if (!filePath) {
+    const editor = vscode.window.activeTextEditor;
+    if (!editor) {
+      vscode.window.showErrorMessage('No file is currently open.');
+      return;
+    }
+    await editor.document.save();
+    filePath = editor.document.uri.fsPath;
+  }
+
+  const sidecar = findMetadataSidecar(filePath);
+  const picked = await vscode.window.showOpenDialog({
+    canSelectMany: false,
+    defaultUri: vscode.Uri.file(sidecar ?? path.dirname(filePath)),
+    openLabel: 'Attach Metadata',
+    title: `Metadata for ${path.basename(filePath)}`,
+    filters: { 'Metadata': ['json', 'cbor'] },
+  });
+
+  const metaprotocol = await vscode.window.showInputBox({
+    prompt: 'Metaprotocol (optional)',
+    placeHolder: 'e.g. brc-20, leave empty for none',
+  });
+
+  // Escape on the input box cancels the whole flow
+  if (metaprotocol === undefined) {
+    return;
+  }
+
+  const metadataPath = picked?.[0]?.fsPath;
+  if (!metadataPath && !metaprotocol) {
+    vscode.window.showInformationMessage('No metadata or metaprotocol selected.');
+    return;
+  }
+
+  await doInscribe(context, filePath, {
+    metadataPath,
+    metaprotocol: metaprotocol.trim() || undefined,
+  });
+}
+
+interface ParentQuickPickItem extends vscode.QuickPickItem {
+  inscriptionId: string;
+  held: boolean;
+}
+
+/**
+ * Lets the user pick a parent from the wallet's inscriptions and the local history.
+ * History entries the current wallet no longer holds are listed but rejected.
+ */
+async function pickParentInscription(context: vscode.ExtensionContext): Promise<string | undefined> {
+  const wallet = getCurrentWallet();
+  const held = await vscode.window.withProgress(
+    {
+      location: vscode.ProgressLocation.Notification,
+      title: `Loading inscriptions for wallet "${wallet}"...`,
+      cancellable: false,
+    },
+    () => getWalletInscriptions(context)
+  );
+  const items: ParentQuickPickItem[] = listParentCandidates(
+    held.map((inscription) => inscription.id),
+    getInscriptionHistory()
+  ).map((candidate) => ({
+    label: candidate.held
+      ? `$(file) ${candidate.fileName ?? candidate.inscriptionId.substring(0, 16) + '...'}`
+      : `$(history) ${candidate.fileName}`,
+    description: candidate.inscriptionId,
+    detail: candidate.held ? `In wallet "${wallet}"` : `Not held by wallet "${wallet}"`,
+    inscriptionId: candidate.inscriptionId,
+    held: candidate.held,
+  }));
+
+  if (items.length === 0) {
+    vscode.window.showInformationMessage(`Wallet "${wallet}" does not hold any inscriptions to use as a parent.`);
+    return undefined;
+  }
+
+  const selected = await vscode.window.showQuickPick(items, {
+    placeHolder: 'Select the parent inscription',
+    title: 'Inscribe as Child of...',
+    matchOnDescription: true,
+  });
+
+  if (!selected) {
+    return undefined;
+  }
+
+  if (!selected.held) {
+    vscode.window.showErrorMessage(
+      `Wallet "${wallet}" does not hold ${selected.inscriptionId}. Switch to the wallet that owns the parent first.`
+    );
+    return undefined;
+  }
+
+  return selected.inscriptionId;
+}
+
+/**
+ * Inscribes a file as a child of a parent inscription held by the current wallet.
+ * Invoked with a Uri from the explorer, or with an inscription tree item to preselect the parent.
+ */
+export async function inscribeAsChild(
+  context: vscode.ExtensionContext,
+  target?: vscode.Uri | { inscriptionId: string }
+): Promise<void> {
+  let filePath: string | undefined;
+  let parent: string | undefined;
+
+  if (target instanceof vscode.Uri) {
+    // Inscribe what the user sees, not a stale copy on disk
+    const open = vscode.workspace.textDocuments.find((document) => document.uri.toString() === target.toString());
+    if (open?.isDirty) {
+      await open.save();
+    }
+    filePath = target.fsPath;
+  } else {
+    const editor = vscode.window.activeTextEditor;
+    if (!editor) {
+      vscode.window.showErrorMessage('No file is currently open.');
+      return;
+    }
+    await editor.document.save();
+    filePath = editor.document.uri.fsPath;
+    parent = target?.inscriptionId;
+  }
+
+  try {
+    if (!(await ensureServicesRunning(context))) {
+      return;
+    }
+
+    if (parent) {
+      // Preselected from the tree - still make sure the current wallet owns it
+      const held = await getWalletInscriptions(context);
+      if (!held.some((i) => i.id === parent)) {
+        vscode.window.showErrorMessage(
+          `Wallet "${getCurrentWallet()}" does not hold ${parent}. Switch to the wallet that owns the parent first.`
+        );
+        return;
+      }
+    } else {
+      parent = await pickParentInscription(context);
+    }
+  } catch (error) {
+    await showErrorWithSuggestion('Failed to load parent inscriptions', error instanceof Error ? error : String(error));
+    return;
+  }
+
+  if (!parent) {
+    return;
+  }
+
+  await doInscribe(context, filePath, { parent });
+}
+
+type SatTarget = Pick<InscribeOptions, 'sat' | 'satpoint'>;
+
+interface SatQuickPickItem extends vscode.QuickPickItem {
+  target?: SatTarget;
+  range?: { output: OutputSatRanges; range: SatRange };
+  manual?: boolean;
+}
+
+function describeRange(range: SatRange): string {
+  const size = range.end - range.start;
+  return size === 1 ? `${range.start}` : `${range.start}–${range.end - 1}`;
+}
+
+/**
+ * Asks for a sat inside a range, defaulting to its first sat, and returns its satpoint
+ */
+async function pickSatInRange(output: OutputSatRanges, range: SatRange): Promise<SatTarget | undefined> {
+  let sat = range.start;
+  if (range.end - range.start > 1) {
+    const input = await vscode.window.showInputBox({
+      title: 'Inscribe on Sat',
+      prompt: `Sat to inscribe on, from ${range.start} to ${range.end - 1}`,
+      value: range.start.toString(),
+      ignoreFocusOut: true,
+      validateInput: (value) => {
+        const num = Number(value.trim());
+        return Number.isInteger(num) && num >= range.start && num < range.end
+          ? null
+          : `Enter a sat from ${range.start} to ${range.end - 1}`;
+      },
+    });
+    if (input === undefined) {
+      return undefined;
+    }
+    sat = Number(input.trim());
+  }
+
+  const satpoint = getSatpointForSat(output.output, output.ranges, sat);
+  return satpoint ? { satpoint } : undefined;
+}
+
+/**
+ * Lists the wallet's rare sats and sat ranges with their rarity, or takes a satpoint by hand
+ */
+async function pickSatTarget(context: vscode.ExtensionContext): Promise<SatTarget | undefined> {
+  const wallet = getCurrentWallet();
+  const [rareSats, outputs] = await vscode.window.withProgress(
+    {
+      location: vscode.ProgressLocation.Notification,
+      title: `Loading sats for wallet "${wallet}"...`,
+      cancellable: false,
+    },
+    () => Promise.all([getWalletRareSats(context), getWalletSatRanges(context)])
+  );
+
+  const items: SatQuickPickItem[] = [
+    { label: '$(edit) Enter a satpoint...', description: 'txid:vout:offset', manual: true },
+  ];
+
+  if (rareSats.length > 0) {
+    items.push({ label: 'Rare sats', kind: vscode.QuickPickItemKind.Separator });
+    const sorted = [...rareSats].sort((a, b) => RARITIES.indexOf(a.rarity) - RARITIES.indexOf(b.rarity));
+    for (const rare of sorted) {
+      items.push({
+        label: `$(star-full) ${rare.sat}`,
+        description: rare.rarity,
+        detail: `${rare.output}:${rare.offset}`,
+        target: { sat: rare.sat },
+      });
+    }
+  }
+
+  items.push({ label: 'Sat ranges', kind: vscode.QuickPickItemKind.Separator });
+  for (const output of outputs) {
+    for (const range of output.ranges) {
+      items.push({
+        label: `$(symbol-number) ${describeRange(range)}`,
+        description: `${(range.end - range.start).toLocaleString()} sats • first sat ${getSatRarity(range.start)}`,
+        detail: output.output,
+        range: { output, range },
+      });
+    }
+  }
+
+  const selected = await vscode.window.showQuickPick(items, {
+    title: 'Inscribe on Sat',
+    placeHolder: `Select a sat or range from wallet "${wallet}"`,
+    matchOnDescription: true,
+    matchOnDetail: true,
+  });
+  if (!selected) {
+    return undefined;
+  }
+
+  if (selected.range) {
+    return pickSatInRange(selected.range.output, selected.range.range);
+  }
+
+  if (selected.manual) {
+    const satpoint = await vscode.window.showInputBox({
+      title: 'Inscribe on Satpoint',
+      prompt: 'Satpoint held by the current wallet',
+      placeHolder: 'txid:vout:offset',
+      ignoreFocusOut: true,
+      validateInput: (value) => (isValidSatpoint(value) ? null : 'Enter a satpoint like <txid>:0:0'),
+    });
+    return satpoint ? { satpoint: satpoint.trim() } : undefined;
+  }
+
+  return selected.target;
+}
+
+/**
+ * Inscribes a file onto a chosen sat or satpoint, for rare-sat projects
+ */
+export async function inscribeOnSat(context: vscode.ExtensionContext, uri?: vscode.Uri): Promise<void> {
+  let filePath = uri?.fsPath;
+  if (!filePath) {
+    const editor = vscode.window.activeTextEditor;
+    if (!editor) {
+      vscode.window.showErrorMessage('No file is currently open.');
+      return;
+    }
+    await editor.document.save();
+    filePath = editor.document.uri.fsPath;
+  }
+
+  let target: SatTarget | undefined;
+  try {
+    if (!(await ensureServicesRunning(context)) || !(await ensureSatIndex())) {
+      return;
+    }
+    target = await pickSatTarget(context);
+  } catch (error) {
+    await showErrorWithSuggestion('Failed to load wallet sats', error instanceof Error ? error : String(error));
+    return;
+  }
+
+  if (!target) {
+    return;
+  }
+
+  await doInscribe(context, filePath, target);
+}
+
+/**
+ * Starts services, funds the wallet (regtest) and waits for ord to catch up with bitcoind.
+ * Returns false if the inscription should not proceed.
+ */
+export async function prepareWalletForInscription(
+  context: vscode.ExtensionContext,
+  progress: vscode.Progress<{ message?: string }>
+): Promise<boolean> {
+  const config = getConfig();
+
+  // Ensure services are running
+  progress.report({ message: 'Starting services...' });
+  if (!(await ensureServicesRunning(context))) {
+    return false;
+  }
+
+  // Ensure wallet is funded (regtest only auto-funds)
+  progress.report({ message: 'Checking wallet (may mine blocks if empty)...' });
+  const funded = await ensureWalletFunded(context);
+  if (!funded && config.network !== 'regtest') {
+    vscode.window.showErrorMessage(
+      'Wallet does not have enough funds. Please fund your wallet first.'
+    );
+    return false;
+  }
+
+  // Wait for ord to sync with bitcoind (funding may have mined blocks)
+  progress.report({ message: 'Syncing ord index...' });
+  const bitcoindBlocks = await rpcCall<number>('getblockcount');
+  const synced = await waitForOrdSync(config.ordServerPort, bitcoindBlocks);
+  if (!synced) {
+    throw new Error('Ord server failed to sync with bitcoind');
+  }
+
+  return true;
+}
+
+function formatSats(sats: number): string {
+  return `${sats.toLocaleString()} sats`;
+}
+
+/**
+ * Shows the dry-run cost breakdown in a modal. Returns true if the user confirms.
+ */
+async function confirmInscriptionCost(fileName: string, estimate: InscriptionCostEstimate): Promise<boolean> {
+  const config = getConfig();
+  const total = estimate.totalFees + (estimate.postage ?? 0);
+  const lines: string[] = [];
+
+  // The PSBT sizes leave out signatures and, for the reveal, the inscribed content
+  if (estimate.commitVsize !== undefined && estimate.commitFee !== undefined) {
+    lines.push(`Commit: ${estimate.commitVsize} vB unsigned • ${formatSats(estimate.commitFee)}`);
+  }
+  if (estimate.revealVsize !== undefined && estimate.revealFee !== undefined) {
+    lines.push(`Reveal: ${estimate.revealVsize} vB unsigned • ${formatSats(estimate.revealFee)}`);
+  }
+  lines.push(
+    `Fees: ${formatSats(estimate.totalFees)} at ${estimate.feeRate} sat/vB`,
+    estimate.postage !== undefined ? `Postage: ${formatSats(estimate.postage)}` : 'Postage: unknown',
+    `Total: ${formatSats(total)} (${(total / 100000000).toFixed(8)} BTC)${estimate.postage === undefined ? ' plus postage' : ''}`
+  );
+
+  const message = config.network === 'mainnet'
+    ? `You are about to inscribe ${fileName} on MAINNET. This will cost ${formatSats(total)} of real Bitcoin!`
+    : `Inscribe ${fileName} on ${config.network} for ${formatSats(total)}?`;
+
+  const result = await vscode.window.showWarningMessage(
+    message,
+    { modal: true, detail: lines.join('\n') },
+    'Confirm'
+  );
+  return result === 'Confirm';
+}
+
 interface InscribeResult {
   inscriptionId: string;
   localUrl: string;
   error?: Error | string;
 }
 
-async function doInscribe(context: vscode.ExtensionContext, filePath: string): Promise<void> {
+async function doInscribe(
+  context: vscode.ExtensionContext,
+  filePath: string,
+  options: InscribeOptions = {}
+): Promise<void> {
   const config = getConfig();
   const fileName = path.basename(filePath);
 
-  // Warn on mainnet
-  if (config.network === 'mainnet') {
-    const result = await vscode.window.showWarningMessage(
-      'You are about to inscribe on MAINNET. This will cost real Bitcoin!',
-      'Continue',
-      'Cancel'
+  // Pick up a sidecar metadata file (e.g. foo.png.meta.json) unless one was chosen explicitly
+  if (!options.metadataPath) {
+    const sidecar = findMetadataSidecar(filePath);
+    if (sidecar) {
+      log(`Attaching metadata from ${path.basename(sidecar)}`);
+      options = { ...options, metadataPath: sidecar };
+    }
+  }
+
+  // Validate JSON metadata before spending any sats
+  let metadata: unknown;
+  if (options.metadataPath && !isCborMetadata(options.metadataPath)) {
+    try {
+      metadata = readJsonMetadata(options.metadataPath);
+    } catch (error) {
+      await showErrorWithSuggestion('Inscription failed', error instanceof Error ? error : String(error));
+      return;
+    }
+  }
+
+  // The file may have been deleted or never saved since it was picked
+  let contentBytes: number;
+  try {
+    contentBytes = fs.statSync(filePath).size;
+  } catch (error) {
+    await showErrorWithSuggestion('Inscription failed', error instanceof Error ? error : String(error));
+    return;
+  }
+
+  // Choose the fee rate before spending anything (regtest uses the remembered rate)
+  const feeRate = await resolveFeeRate({
+    title: `Fee Rate for ${fileName}`,
+    contentBytes,
+  });
+  if (feeRate === undefined) {
+    return;
+  }
+
+  // Show the real cost from a dry run before spending anything (regtest coins are free)
+  let walletPrepared = false;
+  if (config.network !== 'regtest') {
+    const estimateResult = await vscode.window.withProgress(
+      {
+        location: vscode.ProgressLocation.Notification,
+        title: `Estimating cost for ${fileName}...`,
+        cancellable: false,
+      },
+      async (progress): Promise<{ estimate?: InscriptionCostEstimate; error?: Error | string } | null> => {
+        try {
+          if (!(await prepareWalletForInscription(context, progress))) {
+            return null;
+          }
+          progress.report({ message: 'Running dry run...' });
+          return { estimate: await estimateInscriptionCost(context, filePath, feeRate, undefined, options) };
+        } catch (error) {
+          return { error: error instanceof Error ? error : String(error) };
+        }
+      }
     );
-    if (result !== 'Continue') {
+
+    if (estimateResult?.error) {
+      await showErrorWithSuggestion('Cost estimate failed', estimateResult.error);
+      return;
+    }
+    if (!estimateResult?.estimate || !(await confirmInscriptionCost(fileName, estimateResult.estimate))) {
       return;
     }
+    walletPrepared = true;
   }
 
   // Run inscription with progress, return result for post-progress handling
@@ -102,48 +577,27 @@ async function doInscribe(context: vscode.ExtensionContext, filePath: string): P
     },
     async (progress): Promise<InscribeResult | null> => {
       try {
-        // Ensure services are running
-        progress.report({ message: 'Starting services...' });
-        if (!(await ensureServicesRunning(context))) {
+        // The dry run already started the services, checked the funds and synced ord
+        if (!walletPrepared && !(await prepareWalletForInscription(context, progress))) {
           return null;
         }
 
-        // Ensure wallet is funded (regtest only auto-funds)
-        progress.report({ message: 'Checking wallet (may mine blocks if empty)...' });
-        const funded = await ensureWalletFunded(context);
-        if (!funded && config.network !== 'regtest') {
-          vscode.window.showErrorMessage(
-            'Wallet does not have enough funds. Please fund your wallet first.'
-          );
-          return null;
-        }
-
-        // Wait for ord to sync with bitcoind (funding may have mined blocks)
-        progress.report({ message: 'Syncing ord index...' });
-        const bitcoindBlocks = await rpcCall<number>('getblockcount');
-        const synced = await waitForOrdSync(config.ordServerPort, bitcoindBlocks);
-        if (!synced) {
-          throw new Error('Ord server failed to sync with bitcoind');
-        }
-
         // Inscribe the file
         progress.report({ message: 'Creating inscription...' });
-        const result = await inscribeFile(context, filePath, 1);
+        const result = await inscribeFile(context, filePath, feeRate, undefined, options);
         log(`Inscription created: ${result.inscriptionId}`);
 
         // Save to inscription history
-        addInscription(result.inscriptionId, fileName);
+        addInscription(result.inscriptionId, fileName, {
+          parent: options.parent,
+          metadata,
+          metaprotocol: options.metaprotocol,
+        });
 
         // Mine a block to confirm (regtest only)
         if (config.network === 'regtest') {
           progress.report({ message: 'Mining confirmation block...' });
-          try {
-            const address = await getOrdReceiveAddress(context);
-            await generateToAddress(1, address);
-            log('Mined confirmation block');
-          } catch (e) {
-            log(`Warning: Could not mine confirmation block: ${e}`);
-          }
+          await mineConfirmationBlock(context);
         }
 
         const ordPort = config.ordServerPort;
@@ -184,3 +638,232 @@ async function doInscribe(context: vscode.ExtensionContext, filePath: string): P
     }
   }
 }
+
+/**
+ * Lets the user choose a batch manifest from the workspace, falling back to a file dialog
+ */
+async function pickBatchManifest(): Promise<string | undefined> {
+  const activeFile = vscode.window.activeTextEditor?.document.uri.fsPath;
+  const candidates = (await vscode.workspace.findFiles('**/*batch*.{yaml,yml,json}', '**/node_modules/**', 50))
+    .map((uri) => uri.fsPath);
+
+  if (activeFile && isBatchManifestFile(activeFile) && !candidates.includes(activeFile)) {
+    candidates.unshift(activeFile);
+  }
+
+  if (candidates.length === 0) {
+    const picked = await vscode.window.showOpenDialog({
+      canSelectMany: false,
+      openLabel: 'Use Manifest',
+      filters: { 'Batch manifest': ['yaml', 'yml', 'json'] },
+    });
+    return picked?.[0]?.fsPath;
+  }
+
+  const selected = await vscode.window.showQuickPick(
+    candidates.map((filePath) => ({
+      label: path.basename(filePath),
+      description: vscode.workspace.asRelativePath(filePath),
+      filePath,
+    })),
+    { placeHolder: 'Select a batch manifest to inscribe', title: 'Batch Inscribe' }
+  );
+  return selected?.filePath;
+}
+
+interface BatchInscribeResult {
+  inscriptionIds: string[];
+  rune?: string;
+  error?: Error | string;
+}
+
+/**
+ * Explains a missing index feature and offers to enable its setting, or to rebuild the index
+ * when the setting is already on but the index predates it. Always returns false.
+ */
+async function requireIndexFeature(
+  setting: 'indexRunes' | 'indexSats',
+  flag: string,
+  feature: string
+): Promise<boolean> {
+  const enabled = getConfig()[setting];
+
+  const action = await vscode.window.showErrorMessage(
+    `The ord server is not indexing ${feature}.`,
+    {
+      modal: true,
+      detail: enabled
+        ? `${flag} is enabled, but the current index was built without it. Rebuild the index to start indexing ${feature}.`
+        : `This needs an index built with ${flag}. Enable the "ord.${setting}" setting and rebuild the index.`,
+    },
+    enabled ? 'Rebuild Index' : 'Enable and Rebuild'
+  );
+
+  if (action === 'Rebuild Index') {
+    await vscode.commands.executeCommand('ord.rebuildIndex');
+  } else if (action === 'Enable and Rebuild') {
+    // Changing the setting prompts for the rebuild
+    await vscode.workspace.getConfiguration('ord').update(setting, true, vscode.ConfigurationTarget.Global);
+  }
+  return false;
+}
+
+/**
+ * Checks that the ord server indexes runes, which etching and minting require
+ */
+export async function ensureRuneIndex(): Promise<boolean> {
+  const status = await getOrdStatus();
+  return status.rune_index || requireIndexFeature('indexRunes', '--index-runes', 'runes');
+}
+
+/**
+ * Checks that the ord server indexes sats, which listing and choosing sats require
+ */
+export async function ensureSatIndex(): Promise<boolean> {
+  const status = await getOrdStatus();
+  return status.sat_index || requireIndexFeature('indexSats', '--index-sats', 'sats');
+}
+
+export async function inscribeBatchManifest(
+  context: vscode.ExtensionContext,
+  uri?: vscode.Uri
+): Promise<void> {
+  const manifestPath = uri?.fsPath ?? (await pickBatchManifest());
+  if (!manifestPath) {
+    return;
+  }
+
+  const config = getConfig();
+  const manifestName = path.basename(manifestPath);
+
+  let manifest: BatchManifest;
+  try {
+    manifest = readBatchManifest(manifestPath);
+  } catch (error) {
+    await showErrorWithSuggestion('Batch inscription failed', error instanceof Error ? error : String(error));
+    return;
+  }
+
+  // Validate before spending anything
+  const problems = validateBatchManifest(manifest, path.dirname(manifestPath));
+  if (problems.length > 0) {
+    vscode.window.showErrorMessage(
+      `${manifestName} has ${problems.length} problem(s).`,
+      { modal: true, detail: problems.join('\n') }
+    );
+    return;
+  }
+
+  if (manifest.etching) {
+    try {
+      if (!(await ensureServicesRunning(context)) || !(await ensureRuneIndex())) {
+        return;
+      }
+    } catch (error) {
+      await showErrorWithSuggestion('Batch inscription failed', error instanceof Error ? error : String(error));
+      return;
+    }
+  }
+
+  // Preview what will be created
+  const count = manifest.inscriptions.length;
+  const mainnetWarning = config.network === 'mainnet' ? ' This will cost real Bitcoin!' : '';
+  const confirm = await vscode.window.showInformationMessage(
+    `Inscribe ${count} file(s) from ${manifestName} on ${config.network}?${mainnetWarning}`,
+    { modal: true, detail: describeBatchManifest(manifest).join('\n') },
+    'Inscribe'
+  );
+  if (confirm !== 'Inscribe') {
+    return;
+  }
+
+  const baseDir = path.dirname(manifestPath);
+  let contentBytes: number;
+  try {
+    contentBytes = manifest.inscriptions.reduce((sum, entry) => sum + fs.statSync(path.resolve(baseDir, entry.file)).size, 0);
+  } catch (error) {
+    await showErrorWithSuggestion('Batch inscription failed', error instanceof Error ? error : String(error));
+    return;
+  }
+
+  const feeRate = await resolveFeeRate({
+    title: `Fee Rate for ${manifestName}`,
+    contentBytes,
+  });
+  if (feeRate === undefined) {
+    return;
+  }
+
+  const batchResult = await vscode.window.withProgress(
+    {
+      location: vscode.ProgressLocation.Notification,
+      title: `Inscribing batch ${manifestName}...`,
+      cancellable: false,
+    },
+    async (progress): Promise<BatchInscribeResult | null> => {
+      try {
+        if (!(await prepareWalletForInscription(context, progress))) {
+          return null;
+        }
+
+        let result: BatchInscriptionResult;
+        if (manifest.etching) {
+          // ord only reveals once the commitment has matured; mine the blocks for it on regtest
+          progress.report({ message: `Etching ${manifest.etching.rune}, waiting for the commitment to mature...` });
+          const mineTo = config.network === 'regtest' ? await getOrdReceiveAddress(context) : undefined;
+          result = await inscribeEtchingBatch(context, manifestPath, feeRate, mineTo, (blocks) =>
+            progress.report({
+              message: `Mined ${blocks} block(s), the commitment needs ${COMMIT_CONFIRMATIONS} confirmations...`,
+            })
+          );
+        } else {
+          progress.report({ message: `Creating ${count} inscription(s)...` });
+          result = await inscribeBatch(context, manifestPath, feeRate);
+        }
+        log(`Batch inscribed ${result.inscriptions.length} inscription(s), reveal ${result.revealTxid}`);
+
+        // Save to history in reverse so the first manifest entry ends up on top
+        for (let i = result.inscriptions.length - 1; i >= 0; i--) {
+          const entry = manifest.inscriptions[i];
+          addInscription(result.inscriptions[i].id, entry ? path.basename(entry.file) : manifestName, {
+            parent: manifest.parent,
+          });
+        }
+
+        if (config.network === 'regtest') {
+          progress.report({ message: 'Mining confirmation block...' });
+          await mineConfirmationBlock(context);
+        }
+
+        return { inscriptionIds: result.inscriptions.map((i) => i.id), rune: result.rune };
+      } catch (error) {
+        return { inscriptionIds: [], error: error instanceof Error ? error : String(error) };
+      }
+    }
+  );
+
+  if (batchResult?.error) {
+    await showErrorWithSuggestion('Batch inscription failed', batchResult.error);
+    return;
+  }
+
+  if (batchResult && batchResult.inscriptionIds.length > 0) {
+    refreshInscriptionsTree();
+    refreshWalletTree();
+
+    const runeMessage = batchResult.rune ? ` Etched rune ${batchResult.rune}.` : '';
+    const action = await vscode.window.showInformationMessage(
+      `Batch inscribed: ${batchResult.inscriptionIds.length} inscription(s) created!${runeMessage}`,
+      'Open First in Browser',
+      'Copy IDs'
+    );
+
+    if (action === 'Open First in Browser') {
+      const url = `http://127.0.0.1:${config.ordServerPort}/inscription/${batchResult.inscriptionIds[0]}`;
+      vscode.env.openExternal(vscode.Uri.parse(url));
+    } else if (action === 'Copy IDs') {
+      await vscode.env.clipboard.writeText(batchResult.inscriptionIds.join('\n'));
+      vscode.window.showInformationMessage('Inscription IDs copied to clipboard!');
+    }
+  }
+}
@@ -0,0 +1,217 @@
+import * as vscode from 'vscode';
+import {
+  isOrdRunning,
+  getWalletAddresses,
+  getWalletInscriptions,
+  getOrdReceiveAddress,
+  ordWalletSign,
+  ordVerify,
+  SignedMessage,
+} from '../services/ord';
+import { getConfig } from '../utils/config';
+import { isValidAddress } from '../utils/address';
+import { getSignerKind, isBase64Signature, isVerificationFailure } from '../utils/message';
+import { getInscriptionHistory } from '../utils/inscriptionHistory';
+import { getCurrentWallet } from '../utils/walletState';
+import { showErrorWithSuggestion, showWarningWithAction } from '../utils/errorHelper';
+import { showResultPanel } from '../ui/resultPanel';
+import { log } from '../ui/outputChannel';
+
+interface SignerQuickPickItem extends vscode.QuickPickItem {
+  signer?: string;
+  action?: 'receive' | 'enter';
+}
+
+/**
+ * Uses the selection in the active editor as the message, or asks for one
+ */
+async function getMessage(title: string): Promise<string | undefined> {
+  const editor = vscode.window.activeTextEditor;
+  if (editor && !editor.selection.isEmpty) {
+    return editor.document.getText(editor.selection);
+  }
+
+  return vscode.window.showInputBox({
+    title,
+    prompt: 'Message text (or select text in an editor before running the command)',
+    ignoreFocusOut: true,
+    validateInput: (value) => (value ? null : 'Message cannot be empty'),
+  });
+}
+
+/**
+ * Asks which key signs: one of the wallet's addresses, a fresh receive address,
+ * the address holding one of its inscriptions, or anything entered by hand
+ */
+async function pickSigner(context: vscode.ExtensionContext, wallet: string): Promise<string | undefined> {
+  const [addresses, inscriptions] = await vscode.window.withProgress(
+    {
+      location: vscode.ProgressLocation.Notification,
+      title: `Loading addresses of wallet "${wallet}"...`,
+      cancellable: false,
+    },
+    () => Promise.all([getWalletAddresses(context), getWalletInscriptions(context)])
+  );
+
+  const fileNames = new Map(getInscriptionHistory().map((record) => [record.id, record.fileName]));
+  const items: SignerQuickPickItem[] = [
+    { label: '$(add) New receive address', description: 'Sign with a fresh wallet address', action: 'receive' },
+    { label: '$(edit) Enter address, output or inscription ID...', action: 'enter' },
+  ];
+
+  if (addresses.length > 0) {
+    items.push({ label: 'Addresses', kind: vscode.QuickPickItemKind.Separator });
+    items.push(...addresses.map((address) => ({ label: `$(key) ${address}`, signer: address })));
+  }
+  if (inscriptions.length > 0) {
+    items.push({ label: 'Inscription owners', kind: vscode.QuickPickItemKind.Separator });
+    items.push(
+      ...inscriptions.map((inscription) => ({
+        label: `$(file) ${fileNames.get(inscription.id) ?? inscription.id.substring(0, 16) + '...'}`,
+        description: inscription.id,
+        signer: inscription.id,
+      }))
+    );
+  }
+
+  const selected = await vscode.window.showQuickPick(items, {
+    title: 'Sign Message',
+    placeHolder: `Select the signer from wallet "${wallet}"`,
+    matchOnDescription: true,
+  });
+
+  if (!selected) {
+    return undefined;
+  }
+  if (selected.action === 'receive') {
+    return getOrdReceiveAddress(context);
+  }
+  if (selected.action === 'enter') {
+    const input = await vscode.window.showInputBox({
+      title: 'Sign Message',
+      prompt: 'Address, output (txid:vout) or inscription ID held by the wallet',
+      ignoreFocusOut: true,
+      validateInput: (value) => (value.trim() ? null : 'Signer cannot be empty'),
+    });
+    return input?.trim();
+  }
+  return selected.signer;
+}
+
+/**
+ * Signs a message with a key of the current wallet using `ord wallet sign` (BIP-322).
+ * Invoked from the command palette, or with an inscription tree item to sign as its owner.
+ */
+export async function signMessage(
+  context: vscode.ExtensionContext,
+  target?: string | { inscriptionId?: string }
+): Promise<void> {
+  const wallet = getCurrentWallet();
+
+  if (!isOrdRunning()) {
+    await showWarningWithAction('Ord server is not running.', 'Start Services', 'ord.start');
+    return;
+  }
+
+  let signer = typeof target === 'string' ? target : target?.inscriptionId;
+  try {
+    signer = signer ?? (await pickSigner(context, wallet));
+  } catch (error) {
+    await showErrorWithSuggestion('Failed to load wallet addresses', error instanceof Error ? error : String(error));
+    return;
+  }
+  if (!signer) {
+    return;
+  }
+
+  const message = await getMessage('Sign Message');
+  if (!message) {
+    return;
+  }
+
+  let signed: SignedMessage;
+  try {
+    signed = await ordWalletSign(context, signer, message);
+    log(`Signed a ${message.length}-character message with ${signed.address}`);
+  } catch (error) {
+    await showErrorWithSuggestion('Failed to sign message', error instanceof Error ? error : String(error));
+    return;
+  }
+
+  const fields = [
+    { label: 'Message', value: message, copyable: true },
+    { label: 'Address', value: signed.address, copyable: true },
+    { label: 'Signature', value: signed.witness, copyable: true },
+  ];
+  if (getSignerKind(signer) !== 'address') {
+    fields.splice(1, 0, { label: getSignerKind(signer) === 'inscription' ? 'Inscription' : 'Output', value: signer, copyable: true });
+  }
+
+  showResultPanel({
+    title: 'Signed Message',
+    heading: `Signed with wallet "${wallet}"`,
+    status: { ok: true, text: 'BIP-322 signature (base64)' },
+    fields,
+  });
+}
+
+/**
+ * Checks a BIP-322 signature over a message against an address with `ord verify`
+ */
+export async function verifyMessage(context: vscode.ExtensionContext): Promise<void> {
+  const config = getConfig();
+
+  const addressInput = await vscode.window.showInputBox({
+    title: 'Verify Message',
+    prompt: `Address that signed the message (${config.network})`,
+    ignoreFocusOut: true,
+    validateInput: (value) => (isValidAddress(value, config.network) ? null : `Please enter a valid ${config.network} address`),
+  });
+  if (!addressInput) {
+    return;
+  }
+
+  const message = await getMessage('Verify Message');
+  if (!message) {
+    return;
+  }
+
+  const signatureInput = await vscode.window.showInputBox({
+    title: 'Verify Message',
+    prompt: 'Base64-encoded BIP-322 signature',
+    ignoreFocusOut: true,
+    validateInput: (value) => (isBase64Signature(value) ? null : 'Signature must be base64'),
+  });
+  if (!signatureInput) {
+    return;
+  }
+
+  const address = addressInput.trim();
+  const signature = signatureInput.trim();
+
+  let failure: string | undefined;
+  try {
+    await ordVerify(context, address, message, signature);
+  } catch (error) {
+    failure = error instanceof Error ? error.message : String(error);
+    if (!isVerificationFailure(failure)) {
+      await showErrorWithSuggestion('Failed to verify message', error instanceof Error ? error : failure);
+      return;
+    }
+    log(`Signature check failed for ${address}: ${failure}`);
+  }
+
+  showResultPanel({
+    title: 'Verified Message',
+    heading: 'Message Verification',
+    status: failure
+      ? { ok: false, text: 'Signature is NOT valid for this address and message' }
+      : { ok: true, text: 'Signature is valid' },
+    fields: [
+      { label: 'Message', value: message, copyable: true },
+      { label: 'Address', value: address, copyable: true },
+      { label: 'Signature', value: signature, copyable: true },
+      ...(failure ? [{ label: 'ord', value: failure }] : []),
+    ],
+  });
+}
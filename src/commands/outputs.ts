@@ -0,0 +1,91 @@
+import * as vscode from 'vscode';
+import { isOrdRunning } from '../services/ord';
+import { lockUnspent } from '../utils/rpc';
+import { getOrdServerUrl } from '../utils/ordApi';
+import { splitOutpoint } from '../utils/outputs';
+import { getCurrentWallet } from '../utils/walletState';
+import { showErrorWithSuggestion, showWarningWithAction } from '../utils/errorHelper';
+import { refreshWalletTree } from '../ui/treeView';
+
+/**
+ * Output commands run on items from the Wallet tree's Outputs node
+ */
+type OutputTarget = { outpoint?: string } | undefined;
+
+function getOutpoint(target: OutputTarget): string | undefined {
+  if (!target?.outpoint) {
+    vscode.window.showInformationMessage('Select an output under Outputs in the Wallet view.');
+    return undefined;
+  }
+  return target.outpoint;
+}
+
+export async function copyOutpoint(target?: OutputTarget): Promise<void> {
+  const outpoint = getOutpoint(target);
+  if (!outpoint) {
+    return;
+  }
+
+  await vscode.env.clipboard.writeText(outpoint);
+  vscode.window.showInformationMessage('Outpoint copied to clipboard!');
+}
+
+export async function openOutput(target?: OutputTarget): Promise<void> {
+  const outpoint = getOutpoint(target);
+  if (!outpoint) {
+    return;
+  }
+
+  if (!isOrdRunning()) {
+    await showWarningWithAction('Ord server is not running.', 'Start Services', 'ord.start');
+    return;
+  }
+
+  vscode.env.openExternal(vscode.Uri.parse(`${getOrdServerUrl()}/output/${outpoint}`));
+}
+
+/**
+ * Locks or unlocks an output in the wallet's bitcoind wallet. ord and bitcoind both skip
+ * locked outputs during coin selection, so a frozen output is never spent by inscribe or send.
+ */
+export async function setOutputFrozen(target: OutputTarget, frozen: boolean): Promise<void> {
+  const outpoint = getOutpoint(target);
+  if (!outpoint) {
+    return;
+  }
+
+  const wallet = getCurrentWallet();
+  try {
+    await lockUnspent(wallet, !frozen, [splitOutpoint(outpoint)]);
+  } catch (error) {
+    await showErrorWithSuggestion(
+      frozen ? 'Failed to freeze output' : 'Failed to unfreeze output',
+      error instanceof Error ? error : String(error)
+    );
+    return;
+  }
+
+  refreshWalletTree();
+  vscode.window.showInformationMessage(
+    frozen
+      ? `Froze ${outpoint}. Inscribe and send will not spend it.`
+      : `Unfroze ${outpoint}. It can be spent again.`
+  );
+}
+
+/**
+ * Opens a wallet transaction on the ord server, from the Wallet tree's Transactions node
+ */
+export async function openTransaction(target?: { txid?: string }): Promise<void> {
+  if (!target?.txid) {
+    vscode.window.showInformationMessage('Select a transaction under Transactions in the Wallet view.');
+    return;
+  }
+
+  if (!isOrdRunning()) {
+    await showWarningWithAction('Ord server is not running.', 'Start Services', 'ord.start');
+    return;
+  }
+
+  vscode.env.openExternal(vscode.Uri.parse(`${getOrdServerUrl()}/tx/${target.txid}`));
+}
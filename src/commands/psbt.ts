@@ -0,0 +1,479 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { isOrdRunning, getWalletInscriptions, ordWalletCreateOffer, ordWalletAcceptOffer } from '../services/ord';
+import { decodePsbt, walletProcessPsbt, finalizePsbt as rpcFinalizePsbt, sendRawTransaction } from '../utils/rpc';
+import { getInscriptionInfo, getOutputInfo, OutputInfo } from '../utils/ordApi';
+import {
+  isInputSigned,
+  looksLikePsbt,
+  PsbtInput,
+  PsbtInscription,
+  PsbtOutput,
+  PsbtSummary,
+  splitSatpoint,
+  traceInscriptions,
+} from '../utils/psbt';
+import { formatBtc, parseAmount, SATS_PER_BTC } from '../utils/amount';
+import { getConfig } from '../utils/config';
+import { getCurrentWallet } from '../utils/walletState';
+import { showErrorWithSuggestion, showWarningWithAction } from '../utils/errorHelper';
+import { showPsbtPanel } from '../ui/psbtPanel';
+import { refreshAllTrees } from '../ui/treeView';
+import { log } from '../ui/outputChannel';
+import { resolveFeeRate } from '../ui/feePicker';
+import { confirmOnRegtest } from './wallet';
+import { showSentMessage } from './send';
+
+/**
+ * PSBTs are read from a .psbt file (binary or base64), or pasted. The editor selection or the
+ * clipboard prefills the input when it holds a PSBT.
+ */
+async function readPsbt(title: string, uri?: vscode.Uri): Promise<string | undefined> {
+  if (uri) {
+    let content: Buffer;
+    try {
+      content = fs.readFileSync(uri.fsPath);
+    } catch (error) {
+      await showErrorWithSuggestion('Failed to read PSBT file', error instanceof Error ? error : String(error));
+      return undefined;
+    }
+    const text = content.toString('utf-8').trim();
+    return looksLikePsbt(text) ? text : content.toString('base64');
+  }
+
+  const editor = vscode.window.activeTextEditor;
+  const selection = editor && !editor.selection.isEmpty ? editor.document.getText(editor.selection) : '';
+  const clipboard = await vscode.env.clipboard.readText();
+  const value = [selection, clipboard].find(looksLikePsbt)?.trim();
+
+  const input = await vscode.window.showInputBox({
+    title,
+    prompt: 'Base64-encoded PSBT',
+    value,
+    ignoreFocusOut: true,
+    validateInput: (text) => (looksLikePsbt(text) ? null : 'A base64 PSBT starts with "cHNidP8"'),
+  });
+  return input?.trim();
+}
+
+/**
+ * Completes what the PSBT says about an input with the ord index's view of the output.
+ * Inscriptions whose position can't be looked up are returned as untraced.
+ */
+async function loadInput(outpoint: string, known: Partial<PsbtInput>): Promise<{ input: PsbtInput; untraced: string[] }> {
+  let info: OutputInfo | undefined;
+  try {
+    info = await getOutputInfo(outpoint);
+  } catch (e) {
+    log(`Could not look up ${outpoint} on the ord server: ${e}`);
+  }
+
+  const inscriptions: PsbtInscription[] = [];
+  const untraced: string[] = [];
+  for (const id of info?.inscriptions ?? []) {
+    try {
+      inscriptions.push({ id, offset: splitSatpoint((await getInscriptionInfo(id)).satpoint).offset });
+    } catch (e) {
+      log(`Could not look up inscription ${id} on the ord server: ${e}`);
+      untraced.push(id);
+    }
+  }
+
+  return {
+    input: {
+      outpoint,
+      address: known.address ?? info?.address ?? undefined,
+      sats: known.sats ?? info?.value,
+      signed: known.signed ?? false,
+      inscriptions,
+    },
+    untraced,
+  };
+}
+
+/**
+ * Decodes a PSBT with bitcoind and looks up the inscriptions on its inputs in the ord index
+ */
+async function loadPsbtSummary(psbt: string): Promise<PsbtSummary> {
+  const decoded = await decodePsbt(psbt);
+
+  const loaded = await Promise.all(
+    decoded.tx.vin.map((vin, i) => {
+      const psbtInput = decoded.inputs[i] ?? {};
+      const known: Partial<PsbtInput> = { signed: isInputSigned(psbtInput) };
+      if (psbtInput.witness_utxo) {
+        known.sats = Math.round(psbtInput.witness_utxo.amount * SATS_PER_BTC);
+        known.address = psbtInput.witness_utxo.scriptPubKey.address;
+      }
+      return loadInput(`${vin.txid}:${vin.vout}`, known);
+    })
+  );
+  const inputs = loaded.map((entry) => entry.input);
+
+  const outputs: PsbtOutput[] = decoded.tx.vout.map((vout) => ({
+    index: vout.n,
+    address: vout.scriptPubKey.address,
+    sats: Math.round(vout.value * SATS_PER_BTC),
+    inscriptions: [],
+  }));
+
+  let feeSats = decoded.fee !== undefined ? Math.round(decoded.fee * SATS_PER_BTC) : undefined;
+  if (feeSats === undefined && inputs.every((input) => input.sats !== undefined)) {
+    const totalIn = inputs.reduce((sum, input) => sum + (input.sats ?? 0), 0);
+    feeSats = totalIn - outputs.reduce((sum, output) => sum + output.sats, 0);
+  }
+
+  const traced = traceInscriptions(inputs, outputs);
+  return {
+    txid: decoded.tx.txid,
+    vsize: decoded.tx.vsize,
+    inputs,
+    outputs,
+    feeSats,
+    toFee: traced.toFee,
+    untraced: [...loaded.flatMap((entry) => entry.untraced), ...traced.untraced],
+  };
+}
+
+/**
+ * Decodes a PSBT and shows it, so its contents are visible before anything is signed
+ */
+async function showPsbt(heading: string, psbt: string): Promise<PsbtSummary | undefined> {
+  try {
+    const summary = await vscode.window.withProgress(
+      { location: vscode.ProgressLocation.Notification, title: 'Decoding PSBT...', cancellable: false },
+      () => loadPsbtSummary(psbt)
+    );
+    showPsbtPanel(heading, summary, psbt);
+    return summary;
+  } catch (error) {
+    await showErrorWithSuggestion('Failed to decode PSBT', error instanceof Error ? error : String(error));
+    return undefined;
+  }
+}
+
+async function requireOrdServer(): Promise<boolean> {
+  if (!isOrdRunning()) {
+    await showWarningWithAction('Ord server is not running.', 'Start Services', 'ord.start');
+    return false;
+  }
+  return true;
+}
+
+async function savePsbt(psbt: string, fileName: string): Promise<void> {
+  const defaultDir = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath ?? os.homedir();
+  const target = await vscode.window.showSaveDialog({
+    defaultUri: vscode.Uri.file(path.join(defaultDir, fileName)),
+    filters: { PSBT: ['psbt'] },
+  });
+  if (target) {
+    fs.writeFileSync(target.fsPath, psbt);
+    log(`Saved PSBT to ${target.fsPath}`);
+  }
+}
+
+/**
+ * Finalizes a fully signed PSBT and broadcasts the transaction after confirmation
+ */
+async function finalizeAndBroadcast(context: vscode.ExtensionContext, psbt: string): Promise<void> {
+  const config = getConfig();
+
+  let hex: string;
+  try {
+    const finalized = await rpcFinalizePsbt(psbt);
+    if (!finalized.complete || !finalized.hex) {
+      vscode.window.showWarningMessage('The PSBT is not fully signed yet. Every input needs a signature before it can be finalized.');
+      return;
+    }
+    hex = finalized.hex;
+  } catch (error) {
+    await showErrorWithSuggestion('Failed to finalize PSBT', error instanceof Error ? error : String(error));
+    return;
+  }
+
+  if (config.network !== 'regtest') {
+    const confirm = await vscode.window.showWarningMessage(
+      `Broadcast the finalized transaction on ${config.network}?`,
+      { modal: true, detail: 'Check the inputs and outputs in the PSBT panel. A broadcast transaction cannot be recalled.' },
+      'Broadcast'
+    );
+    if (confirm !== 'Broadcast') {
+      return;
+    }
+  }
+
+  try {
+    const txid = await sendRawTransaction(hex);
+    log(`Broadcast PSBT transaction ${txid}`);
+    await confirmOnRegtest(context);
+    refreshAllTrees();
+    await showSentMessage('Transaction broadcast.', txid);
+  } catch (error) {
+    await showErrorWithSuggestion('Failed to broadcast transaction', error instanceof Error ? error : String(error));
+  }
+}
+
+export async function inspectPsbt(uri?: vscode.Uri): Promise<void> {
+  if (!(await requireOrdServer())) {
+    return;
+  }
+
+  const psbt = await readPsbt('Inspect PSBT', uri);
+  if (psbt) {
+    await showPsbt('PSBT', psbt);
+  }
+}
+
+/**
+ * Signs the inputs of a PSBT that belong to the current wallet with bitcoind's `walletprocesspsbt`
+ */
+export async function signPsbt(context: vscode.ExtensionContext, uri?: vscode.Uri): Promise<void> {
+  const wallet = getCurrentWallet();
+  if (!(await requireOrdServer())) {
+    return;
+  }
+
+  const psbt = await readPsbt('Sign PSBT', uri);
+  const summary = psbt ? await showPsbt('PSBT to Sign', psbt) : undefined;
+  if (!psbt || !summary) {
+    return;
+  }
+
+  const moving = summary.inputs.flatMap((input) => input.inscriptions.map((inscription) => inscription.id));
+  const confirm = await vscode.window.showWarningMessage(
+    `Sign this PSBT with wallet "${wallet}"?`,
+    {
+      modal: true,
+      detail: [
+        `${summary.inputs.length} inputs, ${summary.outputs.length} outputs`,
+        `Fee: ${summary.feeSats !== undefined ? `${summary.feeSats.toLocaleString()} sats` : 'unknown'}`,
+        moving.length > 0 ? `Inscriptions spent: ${moving.join(', ')}` : 'No inscriptions are spent',
+        summary.toFee.length > 0 ? `WARNING: inscriptions paid as fee: ${summary.toFee.join(', ')}` : '',
+        summary.untraced.length > 0 ? `WARNING: inscriptions that can't be traced: ${summary.untraced.join(', ')}` : '',
+        'Only the inputs of this wallet are signed. Nothing is broadcast.',
+      ]
+        .filter(Boolean)
+        .join('\n'),
+    },
+    'Sign'
+  );
+  if (confirm !== 'Sign') {
+    return;
+  }
+
+  let processed: { psbt: string; complete: boolean };
+  try {
+    processed = await walletProcessPsbt(wallet, psbt);
+  } catch (error) {
+    await showErrorWithSuggestion('Failed to sign PSBT', error instanceof Error ? error : String(error));
+    return;
+  }
+
+  await showPsbt('Signed PSBT', processed.psbt);
+  const action = await vscode.window.showInformationMessage(
+    processed.complete
+      ? 'PSBT signed. All inputs are signed, so it can be finalized and broadcast.'
+      : 'PSBT signed. Other parties still need to sign their inputs.',
+    ...(processed.complete ? ['Finalize and Broadcast'] : []),
+    'Copy PSBT',
+    'Save PSBT...'
+  );
+
+  if (action === 'Finalize and Broadcast') {
+    await finalizeAndBroadcast(context, processed.psbt);
+  } else if (action === 'Copy PSBT') {
+    await vscode.env.clipboard.writeText(processed.psbt);
+  } else if (action === 'Save PSBT...') {
+    await savePsbt(processed.psbt, `signed-${summary.txid.substring(0, 8)}.psbt`);
+  }
+}
+
+/**
+ * Finalizes a fully signed PSBT with `finalizepsbt` and offers to broadcast it
+ */
+export async function finalizePsbt(context: vscode.ExtensionContext, uri?: vscode.Uri): Promise<void> {
+  if (!(await requireOrdServer())) {
+    return;
+  }
+
+  const psbt = await readPsbt('Finalize PSBT', uri);
+  if (psbt && (await showPsbt('PSBT to Finalize', psbt))) {
+    await finalizeAndBroadcast(context, psbt);
+  }
+}
+
+/**
+ * Creates a buy offer for an inscription owned by someone else with `ord wallet offer create`
+ */
+export async function createOffer(context: vscode.ExtensionContext): Promise<void> {
+  const config = getConfig();
+  const wallet = getCurrentWallet();
+  if (!(await requireOrdServer())) {
+    return;
+  }
+
+  const inscriptionInput = await vscode.window.showInputBox({
+    title: 'Create Offer',
+    prompt: 'ID of the inscription to buy',
+    ignoreFocusOut: true,
+    validateInput: (value) => (/^[0-9a-f]{64}i\d+$/i.test(value.trim()) ? null : 'Please enter an inscription ID (<txid>i<index>)'),
+  });
+  if (!inscriptionInput) {
+    return;
+  }
+  const inscriptionId = inscriptionInput.trim();
+
+  let owner: string | null;
+  try {
+    owner = (await getInscriptionInfo(inscriptionId)).address;
+  } catch (error) {
+    await showErrorWithSuggestion('Failed to look up inscription', error instanceof Error ? error : String(error));
+    return;
+  }
+
+  const amountInput = await vscode.window.showInputBox({
+    title: 'Create Offer',
+    prompt: 'Amount to offer the owner',
+    placeHolder: 'e.g. 0.01 btc or 100000 sats (plain numbers are BTC)',
+    ignoreFocusOut: true,
+    validateInput: (value) => (parseAmount(value) === undefined ? 'Please enter a positive amount in BTC or sats' : null),
+  });
+  const amount = amountInput ? parseAmount(amountInput) : undefined;
+  if (amount === undefined) {
+    return;
+  }
+
+  const feeRate = await resolveFeeRate({ title: 'Fee Rate for Offer' });
+  if (feeRate === undefined) {
+    return;
+  }
+
+  const confirm = await vscode.window.showWarningMessage(
+    `Offer ${formatBtc(amount)} for this inscription?`,
+    {
+      modal: true,
+      detail: [
+        `Inscription: ${inscriptionId}`,
+        `Owner: ${owner ?? 'unknown'}`,
+        `Paid from wallet: ${wallet} (${config.network})`,
+        `Fee rate: ${feeRate} sat/vB`,
+        'ord signs the payment inputs of this wallet. The offer is not broadcast until the owner accepts it.',
+      ].join('\n'),
+    },
+    'Create Offer'
+  );
+  if (confirm !== 'Create Offer') {
+    return;
+  }
+
+  let offerPsbt: string;
+  try {
+    offerPsbt = (await ordWalletCreateOffer(context, inscriptionId, amount, feeRate)).psbt;
+  } catch (error) {
+    await showErrorWithSuggestion('Failed to create offer', error instanceof Error ? error : String(error));
+    return;
+  }
+
+  await showPsbt('Offer', offerPsbt);
+  const action = await vscode.window.showInformationMessage(
+    'Offer created. Give the PSBT to the owner, who accepts it with "Ord: Accept Offer...".',
+    'Copy PSBT',
+    'Save PSBT...'
+  );
+  if (action === 'Copy PSBT') {
+    await vscode.env.clipboard.writeText(offerPsbt);
+  } else if (action === 'Save PSBT...') {
+    await savePsbt(offerPsbt, `offer-${inscriptionId.substring(0, 8)}.psbt`);
+  }
+}
+
+/**
+ * Accepts a buy offer for an inscription held by the current wallet with `ord wallet offer accept`
+ */
+export async function acceptOffer(context: vscode.ExtensionContext, uri?: vscode.Uri): Promise<void> {
+  const wallet = getCurrentWallet();
+  if (!(await requireOrdServer())) {
+    return;
+  }
+
+  const psbt = await readPsbt('Accept Offer', uri);
+  const summary = psbt ? await showPsbt('Offer to Accept', psbt) : undefined;
+  if (!psbt || !summary) {
+    return;
+  }
+
+  let inscriptionId: string | undefined;
+  try {
+    const held = new Set((await getWalletInscriptions(context)).map((inscription) => inscription.id));
+    const offered = summary.inputs.flatMap((input) => input.inscriptions.map((inscription) => inscription.id)).filter((id) => held.has(id));
+
+    if (offered.length === 0) {
+      vscode.window.showErrorMessage(`The offer does not spend an inscription held by wallet "${wallet}".`);
+      return;
+    }
+    inscriptionId = offered.length === 1
+      ? offered[0]
+      : await vscode.window.showQuickPick(offered, { title: 'Accept Offer', placeHolder: 'Select the inscription being bought' });
+  } catch (error) {
+    await showErrorWithSuggestion('Failed to load wallet inscriptions', error instanceof Error ? error : String(error));
+    return;
+  }
+  if (!inscriptionId) {
+    return;
+  }
+  const accepted = inscriptionId;
+
+  const amountInput = await vscode.window.showInputBox({
+    title: 'Accept Offer',
+    prompt: 'Amount the buyer offered (ord checks that the PSBT pays it to you)',
+    placeHolder: 'e.g. 0.01 btc or 100000 sats (plain numbers are BTC)',
+    ignoreFocusOut: true,
+    validateInput: (value) => (parseAmount(value) === undefined ? 'Please enter a positive amount in BTC or sats' : null),
+  });
+  const amount = amountInput ? parseAmount(amountInput) : undefined;
+  if (amount === undefined) {
+    return;
+  }
+
+  const destination = summary.outputs.find((output) => output.inscriptions.includes(accepted));
+  const confirm = await vscode.window.showWarningMessage(
+    `Sell this inscription for ${formatBtc(amount)}?`,
+    {
+      modal: true,
+      detail: [
+        `Inscription: ${accepted}`,
+        `From wallet: ${wallet}`,
+        `To: ${destination?.address ?? 'unknown'}`,
+        'ord signs your input and broadcasts the transaction.',
+      ].join('\n'),
+    },
+    'Accept Offer'
+  );
+  if (confirm !== 'Accept Offer') {
+    return;
+  }
+
+  const result = await vscode.window.withProgress(
+    { location: vscode.ProgressLocation.Notification, title: 'Accepting offer...', cancellable: false },
+    async (progress): Promise<{ txid?: string; error?: Error | string }> => {
+      try {
+        const { txid } = await ordWalletAcceptOffer(context, accepted, amount, psbt);
+        progress.report({ message: 'Waiting for confirmation...' });
+        await confirmOnRegtest(context);
+        return { txid };
+      } catch (error) {
+        return { error: error instanceof Error ? error : String(error) };
+      }
+    }
+  );
+
+  if (result.error || !result.txid) {
+    await showErrorWithSuggestion('Failed to accept offer', result.error || 'No result from ord');
+    return;
+  }
+
+  refreshAllTrees();
+  await showSentMessage(`Sold inscription for ${formatBtc(amount)}.`, result.txid);
+}
@@ -0,0 +1,441 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import * as fs from 'fs';
+import { stringify as stringifyYaml } from 'yaml';
+import { getConfig } from '../utils/config';
+import { rpcCall } from '../utils/rpc';
+import { showErrorWithSuggestion, showWarningWithAction } from '../utils/errorHelper';
+import { isOrdRunning, MintResult, ordWalletMint } from '../services/ord';
+import { getRuneInfo, RuneInfo } from '../utils/ordApi';
+import { refreshAllTrees } from '../ui/treeView';
+import { resolveFeeRate } from '../ui/feePicker';
+import { getCurrentWallet } from '../utils/walletState';
+import {
+  HeightWindow,
+  MAX_DIVISIBILITY,
+  RuneEtching,
+  RuneTerms,
+  computeRuneSupply,
+  countRuneLetters,
+  describeMintBlocker,
+  getMinimumRuneLength,
+  normalizeRuneName,
+  parseRuneAmount,
+  validateEtching,
+  validateRuneName,
+} from '../utils/runes';
+import { ensureRuneIndex, inscribeBatchManifest } from './inscribe';
+import { confirmOnRegtest } from './wallet';
+
+const ETCH_STEPS = 8;
+
+interface ChoiceItem<T> extends vscode.QuickPickItem {
+  value: T;
+}
+
+async function askText(
+  step: number,
+  options: vscode.InputBoxOptions
+): Promise<string | undefined> {
+  return vscode.window.showInputBox({
+    title: `Etch Rune (${step}/${ETCH_STEPS})`,
+    ignoreFocusOut: true,
+    ...options,
+  });
+}
+
+async function askChoice<T>(step: number, placeHolder: string, items: ChoiceItem<T>[]): Promise<T | undefined> {
+  const selected = await vscode.window.showQuickPick(items, {
+    title: `Etch Rune (${step}/${ETCH_STEPS})`,
+    placeHolder,
+    ignoreFocusOut: true,
+  });
+  return selected?.value;
+}
+
+/**
+ * Asks for an optional "start-end" block window, either side may be left empty
+ */
+async function askWindow(step: number, prompt: string, placeHolder: string): Promise<HeightWindow | null | undefined> {
+  const input = await askText(step, {
+    prompt,
+    placeHolder,
+    validateInput: (value) => {
+      if (!value.trim()) {
+        return null;
+      }
+      const match = value.trim().match(/^(\d*)\s*-\s*(\d*)$/);
+      if (!match || (!match[1] && !match[2])) {
+        return 'Enter a block range like "100-200", "100-" or "-200", or leave empty';
+      }
+      if (match[1] && match[2] && BigInt(match[2]) <= BigInt(match[1])) {
+        return 'The end must be after the start';
+      }
+      return null;
+    },
+  });
+
+  if (input === undefined) {
+    return undefined;
+  }
+  if (!input.trim()) {
+    return null;
+  }
+
+  const [start, end] = input.split('-').map((part) => part.trim());
+  return { start: start || undefined, end: end || undefined };
+}
+
+function amountValidator(divisibility: number, allowZero: boolean): (value: string) => string | null {
+  return (value) => {
+    const units = parseRuneAmount(value, divisibility);
+    if (units === undefined) {
+      return divisibility === 0
+        ? 'Please enter a whole number'
+        : `Please enter a number with at most ${divisibility} decimal places`;
+    }
+    if (!allowZero && units === 0n) {
+      return 'Please enter an amount greater than zero';
+    }
+    return null;
+  };
+}
+
+/**
+ * Collects the mint terms. Returns null for a premine-only rune, undefined when cancelled.
+ */
+async function askTerms(divisibility: number): Promise<RuneTerms | null | undefined> {
+  const open = await askChoice(5, 'Can other people mint this rune?', [
+    { label: '$(unlock) Open mint', description: 'Anyone can mint a fixed amount, up to a cap', value: true },
+    { label: '$(lock) Premine only', description: 'The whole supply is premined to your wallet', value: false },
+  ]);
+  if (open === undefined) {
+    return undefined;
+  }
+  if (!open) {
+    return null;
+  }
+
+  const amount = await askText(5, {
+    prompt: 'Amount per mint',
+    placeHolder: divisibility > 0 ? `e.g. 100.${'0'.repeat(divisibility)}` : 'e.g. 1000',
+    validateInput: amountValidator(divisibility, false),
+  });
+  if (amount === undefined) {
+    return undefined;
+  }
+
+  const cap = await askText(5, {
+    prompt: 'Mint cap (maximum number of mints)',
+    placeHolder: 'e.g. 1000',
+    validateInput: amountValidator(0, false),
+  });
+  if (cap === undefined) {
+    return undefined;
+  }
+
+  const height = await askWindow(6, 'Absolute block heights when minting is open (optional)', 'start-end, e.g. 200-500');
+  if (height === undefined) {
+    return undefined;
+  }
+
+  const offset = await askWindow(6, 'Blocks after the etching when minting is open (optional)', 'start-end, e.g. 0-1000');
+  if (offset === undefined) {
+    return undefined;
+  }
+
+  return {
+    amount: amount.trim(),
+    cap: cap.trim(),
+    ...(height ? { height } : {}),
+    ...(offset ? { offset } : {}),
+  };
+}
+
+async function pickEtchingInscription(): Promise<string | undefined> {
+  const activeFile = vscode.window.activeTextEditor?.document.uri;
+  if (activeFile?.scheme === 'file') {
+    const useActive = await askChoice(8, 'Every etching is revealed together with an inscription', [
+      { label: `$(file) ${path.basename(activeFile.fsPath)}`, description: 'Active file', value: true },
+      { label: '$(folder-opened) Choose another file...', value: false },
+    ]);
+    if (useActive === undefined) {
+      return undefined;
+    }
+    if (useActive) {
+      return activeFile.fsPath;
+    }
+  }
+
+  const picked = await vscode.window.showOpenDialog({
+    canSelectMany: false,
+    openLabel: 'Inscribe with Etching',
+    title: 'Etch Rune (8/8) - Inscription revealed with the etching',
+  });
+  return picked?.[0]?.fsPath;
+}
+
+/**
+ * Writes the batch file next to the inscription, without overwriting an earlier one
+ */
+function writeEtchingManifest(etching: RuneEtching, inscriptionPath: string): string {
+  const dir = path.dirname(inscriptionPath);
+  const baseName = etching.rune.replace(/•/g, '').toLowerCase();
+  let manifestPath = path.join(dir, `${baseName}.etching.yaml`);
+  for (let i = 2; fs.existsSync(manifestPath); i++) {
+    manifestPath = path.join(dir, `${baseName}.etching-${i}.yaml`);
+  }
+
+  // ord reads cap and block heights as integers, the decimal amounts as strings
+  const toInteger = (value?: string) => (value !== undefined ? BigInt(value) : undefined);
+  const toWindow = (window?: HeightWindow) =>
+    window ? { start: toInteger(window.start), end: toInteger(window.end) } : undefined;
+
+  const manifest = {
+    mode: 'separate-outputs',
+    etching: {
+      ...etching,
+      terms: etching.terms && {
+        amount: etching.terms.amount,
+        cap: toInteger(etching.terms.cap),
+        height: toWindow(etching.terms.height),
+        offset: toWindow(etching.terms.offset),
+      },
+    },
+    inscriptions: [{ file: path.basename(inscriptionPath) }],
+  };
+
+  fs.writeFileSync(manifestPath, stringifyYaml(manifest));
+  return manifestPath;
+}
+
+/**
+ * Guided form for etching a rune. Writes an `ord wallet batch` file with an etching section
+ * and hands it to the batch flow, which mines the commitment blocks on regtest.
+ */
+export async function etchRune(context: vscode.ExtensionContext): Promise<void> {
+  const config = getConfig();
+
+  if (!isOrdRunning()) {
+    await showWarningWithAction('Ord server is not running.', 'Start Services', 'ord.start');
+    return;
+  }
+
+  let height: number;
+  try {
+    if (!(await ensureRuneIndex())) {
+      return;
+    }
+    height = await rpcCall<number>('getblockcount');
+  } catch (error) {
+    await showErrorWithSuggestion('Cannot etch rune', error instanceof Error ? error : String(error));
+    return;
+  }
+
+  const minimumLength = getMinimumRuneLength(config.network, height);
+  const nameInput = await askText(1, {
+    prompt: `Rune name (at least ${minimumLength} letters on ${config.network} right now)`,
+    placeHolder: 'e.g. UNCOMMON•GOODS - spaces become •',
+    validateInput: (value) => {
+      const name = normalizeRuneName(value);
+      const error = validateRuneName(name);
+      if (error) {
+        return error;
+      }
+      if (countRuneLetters(name) < minimumLength) {
+        return `Rune names need at least ${minimumLength} letters at the current height`;
+      }
+      return null;
+    },
+  });
+  if (nameInput === undefined) {
+    return;
+  }
+  const rune = normalizeRuneName(nameInput);
+
+  const divisibilityInput = await askText(2, {
+    prompt: 'Divisibility (number of decimal places)',
+    value: '0',
+    validateInput: (value) => {
+      const num = Number(value);
+      if (!Number.isInteger(num) || num < 0 || num > MAX_DIVISIBILITY) {
+        return `Please enter a whole number from 0 to ${MAX_DIVISIBILITY}`;
+      }
+      return null;
+    },
+  });
+  if (divisibilityInput === undefined) {
+    return;
+  }
+  const divisibility = Number(divisibilityInput);
+
+  const symbol = await askText(3, {
+    prompt: 'Currency symbol (optional, a single character)',
+    placeHolder: 'e.g. $ or 🐕 - leave empty for ¤',
+    validateInput: (value) => ([...value].length > 1 ? 'The symbol must be a single character' : null),
+  });
+  if (symbol === undefined) {
+    return;
+  }
+
+  const premine = await askText(4, {
+    prompt: 'Premine (amount sent to your wallet when etching)',
+    value: '0',
+    validateInput: amountValidator(divisibility, true),
+  });
+  if (premine === undefined) {
+    return;
+  }
+
+  const terms = await askTerms(divisibility);
+  if (terms === undefined) {
+    return;
+  }
+
+  const turbo = await askChoice(7, 'Opt in to future protocol changes (turbo)?', [
+    { label: 'No', description: 'Recommended unless you know you want it', value: false },
+    { label: 'Turbo', description: 'Opt in to future, possibly breaking, protocol changes', value: true },
+  ]);
+  if (turbo === undefined) {
+    return;
+  }
+
+  const supply = computeRuneSupply(premine.trim(), divisibility, terms ?? undefined);
+  const etching: RuneEtching = {
+    rune,
+    divisibility,
+    premine: premine.trim(),
+    supply: supply ?? '0',
+    ...(symbol ? { symbol } : {}),
+    turbo,
+    ...(terms ? { terms } : {}),
+  };
+
+  const problems = validateEtching(etching, config.network, height);
+  if (problems.length > 0) {
+    vscode.window.showErrorMessage(
+      `Cannot etch ${rune}.`,
+      { modal: true, detail: problems.join('\n') }
+    );
+    return;
+  }
+
+  const inscriptionPath = await pickEtchingInscription();
+  if (!inscriptionPath) {
+    return;
+  }
+
+  let manifestPath: string;
+  try {
+    manifestPath = writeEtchingManifest(etching, inscriptionPath);
+  } catch (error) {
+    await showErrorWithSuggestion('Failed to write etching batch file', error instanceof Error ? error : String(error));
+    return;
+  }
+
+  // The batch flow shows the summary, asks for the fee rate and mines the commitment on regtest
+  await inscribeBatchManifest(context, vscode.Uri.file(manifestPath));
+}
+
+/**
+ * Mints one batch of an open rune into the current wallet with `ord wallet mint`.
+ * Invoked from the command palette, or with a rune item from the Wallet tree to preselect it.
+ */
+export async function mintRune(
+  context: vscode.ExtensionContext,
+  target?: string | { rune?: string }
+): Promise<void> {
+  const config = getConfig();
+  const wallet = getCurrentWallet();
+
+  if (!isOrdRunning()) {
+    await showWarningWithAction('Ord server is not running.', 'Start Services', 'ord.start');
+    return;
+  }
+
+  let rune = typeof target === 'string' ? target : target?.rune;
+  if (!rune) {
+    const input = await vscode.window.showInputBox({
+      title: 'Mint Rune',
+      prompt: 'Name of the rune to mint',
+      placeHolder: 'e.g. UNCOMMON•GOODS - spaces become •',
+      ignoreFocusOut: true,
+      validateInput: (value) => validateRuneName(normalizeRuneName(value)),
+    });
+    if (input === undefined) {
+      return;
+    }
+    rune = normalizeRuneName(input);
+  }
+
+  let info: RuneInfo;
+  try {
+    if (!(await ensureRuneIndex())) {
+      return;
+    }
+    info = await getRuneInfo(rune);
+    if (!info.mintable) {
+      const height = await rpcCall<number>('getblockcount');
+      vscode.window.showErrorMessage(`${info.entry.spaced_rune} cannot be minted right now.`, {
+        modal: true,
+        detail: describeMintBlocker(info.entry, height) ?? 'ord reports the rune as not mintable',
+      });
+      return;
+    }
+  } catch (error) {
+    await showErrorWithSuggestion(`Cannot mint ${rune}`, error instanceof Error ? error : String(error));
+    return;
+  }
+
+  const feeRate = await resolveFeeRate({ title: 'Fee Rate for Mint' });
+  if (feeRate === undefined) {
+    return;
+  }
+
+  if (config.network !== 'regtest') {
+    const confirm = await vscode.window.showWarningMessage(
+      `Mint ${info.entry.spaced_rune} on ${config.network}?`,
+      {
+        modal: true,
+        detail: [`Wallet: ${wallet}`, `Fee rate: ${feeRate} sat/vB`].join('\n'),
+      },
+      'Mint'
+    );
+    if (confirm !== 'Mint') {
+      return;
+    }
+  }
+
+  const mintResult = await vscode.window.withProgress(
+    {
+      location: vscode.ProgressLocation.Notification,
+      title: `Minting ${info.entry.spaced_rune}...`,
+      cancellable: false,
+    },
+    async (progress): Promise<{ result?: MintResult; error?: Error | string }> => {
+      try {
+        const result = await ordWalletMint(context, info.entry.spaced_rune, feeRate);
+        progress.report({ message: 'Waiting for confirmation...' });
+        await confirmOnRegtest(context);
+        return { result };
+      } catch (error) {
+        return { error: error instanceof Error ? error : String(error) };
+      }
+    }
+  );
+
+  if (mintResult.error || !mintResult.result) {
+    await showErrorWithSuggestion('Failed to mint rune', mintResult.error || 'No result from ord');
+    return;
+  }
+
+  refreshAllTrees();
+  const { amount, txid } = mintResult.result;
+  const action = await vscode.window.showInformationMessage(
+    `Minted ${amount} ${info.entry.spaced_rune}${info.entry.symbol ? ` ${info.entry.symbol}` : ''}. Transaction: ${txid.substring(0, 16)}...`,
+    'Copy Txid'
+  );
+  if (action === 'Copy Txid') {
+    await vscode.env.clipboard.writeText(txid);
+  }
+}
@@ -0,0 +1,569 @@
+import * as vscode from 'vscode';
+import {
+  isOrdRunning,
+  getOrdBalance,
+  getWalletInscriptions,
+  getOrdReceiveAddress,
+  ordWalletSend,
+  SendResult,
+  WalletInscription,
+} from '../services/ord';
+import { getBalance, listWallets as listBitcoinWallets, sendToAddress } from '../utils/rpc';
+import { getConfig } from '../utils/config';
+import { isValidAddress } from '../utils/address';
+import { formatBtc, parseAmount, SATS_PER_BTC } from '../utils/amount';
+import { parseRuneAmount } from '../utils/runes';
+import { getRuneInfo } from '../utils/ordApi';
+import { isBitcoindRunning } from '../services/bitcoind';
+import { log } from '../ui/outputChannel';
+import { getInscriptionHistory } from '../utils/inscriptionHistory';
+import { showErrorWithSuggestion, showWarningWithAction } from '../utils/errorHelper';
+import { refreshAllTrees } from '../ui/treeView';
+import { getCurrentWallet, listWallets } from '../utils/walletState';
+import { resolveFeeRate } from '../ui/feePicker';
+import { confirmOnRegtest } from './wallet';
+
+// bitcoind wallet that collects coinbase rewards when mining without an ord wallet
+const MINING_WALLET = 'mining';
+
+interface Destination {
+  address: string;
+  /** Shown in messages, e.g. the local wallet name or the shortened address */
+  label: string;
+  walletName?: string;
+}
+
+interface DestinationQuickPickItem extends vscode.QuickPickItem {
+  walletName?: string;
+}
+
+function shortenAddress(address: string): string {
+  return address.length > 20 ? `${address.substring(0, 12)}...${address.substring(address.length - 6)}` : address;
+}
+
+async function promptAddress(): Promise<Destination | undefined> {
+  const config = getConfig();
+  const input = await vscode.window.showInputBox({
+    prompt: `Destination address (${config.network})`,
+    placeHolder: config.network === 'mainnet' ? 'bc1p...' : config.network === 'regtest' ? 'bcrt1p...' : 'tb1p...',
+    ignoreFocusOut: true,
+    validateInput: (value) => {
+      if (!isValidAddress(value, config.network)) {
+        return `Please enter a valid ${config.network} address`;
+      }
+      return null;
+    },
+  });
+
+  if (!input) {
+    return undefined;
+  }
+
+  const address = input.trim();
+  return { address, label: shortenAddress(address) };
+}
+
+/**
+ * Asks where to send to. On regtest the other local wallets are offered, so transfers
+ * between wallets can be tested without copying addresses around.
+ */
+async function pickDestination(
+  context: vscode.ExtensionContext,
+  title: string,
+  sourceWallet?: string
+): Promise<Destination | undefined> {
+  const config = getConfig();
+  const otherWallets = config.network === 'regtest'
+    ? listWallets().filter((name) => name !== sourceWallet)
+    : [];
+
+  if (otherWallets.length === 0) {
+    return promptAddress();
+  }
+
+  const items: DestinationQuickPickItem[] = otherWallets.map((name) => ({
+    label: `$(wallet) ${name}`,
+    description: 'Local wallet',
+    walletName: name,
+  }));
+  items.push({ label: '$(edit) Enter address...', description: 'Send to any address' });
+
+  const selected = await vscode.window.showQuickPick(items, {
+    title,
+    placeHolder: 'Select a destination',
+  });
+
+  if (!selected) {
+    return undefined;
+  }
+
+  if (!selected.walletName) {
+    return promptAddress();
+  }
+
+  const address = await getOrdReceiveAddress(context, selected.walletName);
+  return { address, label: `wallet "${selected.walletName}"`, walletName: selected.walletName };
+}
+
+interface InscriptionQuickPickItem extends vscode.QuickPickItem {
+  inscriptionId: string;
+}
+
+async function pickInscriptionToSend(held: WalletInscription[], wallet: string): Promise<string | undefined> {
+  if (held.length === 0) {
+    vscode.window.showInformationMessage(`Wallet "${wallet}" does not hold any inscriptions.`);
+    return undefined;
+  }
+
+  const fileNames = new Map(getInscriptionHistory().map((record) => [record.id, record.fileName]));
+  const items: InscriptionQuickPickItem[] = held.map((inscription) => ({
+    label: `$(file) ${fileNames.get(inscription.id) ?? inscription.id.substring(0, 16) + '...'}`,
+    description: inscription.id,
+    detail: `Postage: ${inscription.postage.toLocaleString()} sats`,
+    inscriptionId: inscription.id,
+  }));
+
+  const selected = await vscode.window.showQuickPick(items, {
+    title: 'Send Inscription',
+    placeHolder: `Select an inscription from wallet "${wallet}"`,
+    matchOnDescription: true,
+  });
+
+  return selected?.inscriptionId;
+}
+
+export async function showSentMessage(message: string, txid: string): Promise<void> {
+  const action = await vscode.window.showInformationMessage(
+    `${message} Transaction: ${txid.substring(0, 16)}...`,
+    'Copy Txid'
+  );
+  if (action === 'Copy Txid') {
+    await vscode.env.clipboard.writeText(txid);
+  }
+}
+
+/**
+ * Sends an inscription held by the current wallet to another address with `ord wallet send`.
+ * Invoked from the command palette, or with an inscription tree item to preselect it.
+ */
+export async function sendInscription(
+  context: vscode.ExtensionContext,
+  target?: string | { inscriptionId?: string }
+): Promise<void> {
+  const config = getConfig();
+  const wallet = getCurrentWallet();
+
+  if (!isOrdRunning()) {
+    await showWarningWithAction('Ord server is not running.', 'Start Services', 'ord.start');
+    return;
+  }
+
+  let inscriptionId = typeof target === 'string' ? target : target?.inscriptionId;
+  let destination: Destination | undefined;
+
+  try {
+    const held = await vscode.window.withProgress(
+      {
+        location: vscode.ProgressLocation.Notification,
+        title: `Loading inscriptions for wallet "${wallet}"...`,
+        cancellable: false,
+      },
+      () => getWalletInscriptions(context)
+    );
+
+    if (inscriptionId) {
+      if (!held.some((i) => i.id === inscriptionId)) {
+        vscode.window.showErrorMessage(
+          `Wallet "${wallet}" does not hold ${inscriptionId}. Switch to the wallet that owns it first.`
+        );
+        return;
+      }
+    } else {
+      inscriptionId = await pickInscriptionToSend(held, wallet);
+    }
+
+    if (!inscriptionId) {
+      return;
+    }
+
+    destination = await pickDestination(context, 'Send Inscription To...', wallet);
+  } catch (error) {
+    await showErrorWithSuggestion('Failed to prepare transfer', error instanceof Error ? error : String(error));
+    return;
+  }
+
+  if (!destination) {
+    return;
+  }
+
+  const feeRate = await resolveFeeRate({ title: 'Fee Rate for Inscription Transfer' });
+  if (feeRate === undefined) {
+    return;
+  }
+
+  if (config.network !== 'regtest') {
+    const confirm = await vscode.window.showWarningMessage(
+      `Send inscription on ${config.network}?`,
+      {
+        modal: true,
+        detail: [
+          `Inscription: ${inscriptionId}`,
+          `From wallet: ${wallet}`,
+          `To: ${destination.address}`,
+          `Fee rate: ${feeRate} sat/vB`,
+        ].join('\n'),
+      },
+      'Send'
+    );
+    if (confirm !== 'Send') {
+      return;
+    }
+  }
+
+  const sendResult = await vscode.window.withProgress(
+    {
+      location: vscode.ProgressLocation.Notification,
+      title: 'Sending inscription...',
+      cancellable: false,
+    },
+    async (progress): Promise<{ result?: SendResult; error?: Error | string }> => {
+      try {
+        const result = await ordWalletSend(context, destination.address, inscriptionId, feeRate);
+        progress.report({ message: 'Waiting for confirmation...' });
+        await confirmOnRegtest(context);
+        return { result };
+      } catch (error) {
+        return { error: error instanceof Error ? error : String(error) };
+      }
+    }
+  );
+
+  if (sendResult.error || !sendResult.result) {
+    await showErrorWithSuggestion('Failed to send inscription', sendResult.error || 'No result from ord');
+    return;
+  }
+
+  refreshAllTrees();
+  await showSentMessage(`Sent inscription to ${destination.label}.`, sendResult.result.txid);
+}
+
+interface BitcoinSource {
+  /** ord wallet name, or undefined for the bitcoind mining wallet */
+  ordWallet?: string;
+  label: string;
+  /** Spendable balance in sats, if it could be read */
+  available?: number;
+}
+
+interface SourceQuickPickItem extends vscode.QuickPickItem {
+  source: BitcoinSource;
+}
+
+async function pickBitcoinSource(context: vscode.ExtensionContext): Promise<BitcoinSource | undefined> {
+  const wallet = getCurrentWallet();
+  const sources: BitcoinSource[] = [];
+
+  if (isOrdRunning()) {
+    let available: number | undefined;
+    try {
+      available = (await getOrdBalance(context)).cardinal;
+    } catch (e) {
+      log(`Could not read balance of ord wallet "${wallet}": ${e}`);
+    }
+    sources.push({ ordWallet: wallet, label: `ord wallet "${wallet}"`, available });
+  }
+
+  if ((await listBitcoinWallets()).includes(MINING_WALLET)) {
+    let available: number | undefined;
+    try {
+      available = Math.round((await getBalance(MINING_WALLET)) * SATS_PER_BTC);
+    } catch (e) {
+      log(`Could not read balance of bitcoind wallet "${MINING_WALLET}": ${e}`);
+    }
+    sources.push({ label: `bitcoind wallet "${MINING_WALLET}"`, available });
+  }
+
+  if (sources.length === 0) {
+    await showWarningWithAction('No wallet to send from. Start services and create a wallet first.', 'Start Services', 'ord.start');
+    return undefined;
+  }
+
+  if (sources.length === 1) {
+    return sources[0];
+  }
+
+  const items: SourceQuickPickItem[] = sources.map((source) => ({
+    label: `$(wallet) ${source.label}`,
+    description: source.available !== undefined ? `${formatBtc(source.available)} available` : undefined,
+    detail: source.ordWallet ? 'Cardinal outputs only, inscriptions are never spent' : 'Collects coinbase rewards when no ord wallet exists',
+    source,
+  }));
+
+  const selected = await vscode.window.showQuickPick(items, {
+    title: 'Send Bitcoin From...',
+    placeHolder: 'Select the wallet to send from',
+  });
+
+  return selected?.source;
+}
+
+async function promptAmount(source: BitcoinSource): Promise<number | undefined> {
+  const input = await vscode.window.showInputBox({
+    prompt: source.available !== undefined
+      ? `Amount to send (${formatBtc(source.available)} available)`
+      : 'Amount to send',
+    placeHolder: 'e.g. 0.5 btc or 10000 sats (plain numbers are BTC)',
+    ignoreFocusOut: true,
+    validateInput: (value) => {
+      const sats = parseAmount(value);
+      if (sats === undefined) {
+        return 'Please enter a positive amount in BTC or sats';
+      }
+      if (source.available !== undefined && sats > source.available) {
+        return `Amount exceeds the available ${formatBtc(source.available)}`;
+      }
+      return null;
+    },
+  });
+
+  return input ? parseAmount(input) : undefined;
+}
+
+/**
+ * Sends bitcoin from the current ord wallet or the bitcoind mining wallet to any address,
+ * or to another local ord wallet on regtest.
+ */
+export async function sendBitcoin(context: vscode.ExtensionContext): Promise<void> {
+  const config = getConfig();
+
+  if (!isBitcoindRunning()) {
+    await showWarningWithAction('Bitcoin Core is not running. Start services to send bitcoin.', 'Start Services', 'ord.start');
+    return;
+  }
+
+  let source: BitcoinSource | undefined;
+  let destination: Destination | undefined;
+  let sats: number | undefined;
+
+  try {
+    source = await pickBitcoinSource(context);
+    if (!source) {
+      return;
+    }
+
+    sats = await promptAmount(source);
+    if (sats === undefined) {
+      return;
+    }
+
+    destination = await pickDestination(context, 'Send Bitcoin To...', source.ordWallet);
+  } catch (error) {
+    await showErrorWithSuggestion('Failed to prepare payment', error instanceof Error ? error : String(error));
+    return;
+  }
+
+  if (!destination) {
+    return;
+  }
+
+  const feeRate = await resolveFeeRate({ title: 'Fee Rate for Payment' });
+  if (feeRate === undefined) {
+    return;
+  }
+
+  const confirm = await vscode.window.showWarningMessage(
+    `Send ${formatBtc(sats)} on ${config.network}?`,
+    {
+      modal: true,
+      detail: [
+        `From: ${source.label}`,
+        `To: ${destination.walletName ? `${destination.label} (${destination.address})` : destination.address}`,
+        `Amount: ${formatBtc(sats)} (${sats.toLocaleString()} sats)`,
+        `Fee rate: ${feeRate} sat/vB`,
+      ].join('\n'),
+    },
+    'Send'
+  );
+  if (confirm !== 'Send') {
+    return;
+  }
+
+  const sendResult = await vscode.window.withProgress(
+    {
+      location: vscode.ProgressLocation.Notification,
+      title: `Sending ${formatBtc(sats)}...`,
+      cancellable: false,
+    },
+    async (progress): Promise<{ txid?: string; error?: Error | string }> => {
+      try {
+        const txid = source.ordWallet
+          ? (await ordWalletSend(context, destination.address, `${sats} sat`, feeRate, source.ordWallet)).txid
+          : await sendToAddress(MINING_WALLET, destination.address, sats / SATS_PER_BTC, feeRate);
+        log(`Sent ${sats} sats from ${source.label} to ${destination.address}: ${txid}`);
+
+        progress.report({ message: 'Waiting for confirmation...' });
+        await confirmOnRegtest(context);
+        return { txid };
+      } catch (error) {
+        return { error: error instanceof Error ? error : String(error) };
+      }
+    }
+  );
+
+  if (sendResult.error || !sendResult.txid) {
+    await showErrorWithSuggestion('Failed to send bitcoin', sendResult.error || 'No transaction ID returned');
+    return;
+  }
+
+  refreshAllTrees();
+  await showSentMessage(`Sent ${formatBtc(sats)} to ${destination.label}.`, sendResult.txid);
+}
+
+interface RuneQuickPickItem extends vscode.QuickPickItem {
+  rune: string;
+}
+
+/**
+ * Sends an amount of a rune held by the current wallet with `ord wallet send <amount>:<RUNE>`.
+ * Invoked from the command palette, or with a rune item from the Wallet tree to preselect it.
+ */
+export async function sendRune(
+  context: vscode.ExtensionContext,
+  target?: string | { rune?: string }
+): Promise<void> {
+  const config = getConfig();
+  const wallet = getCurrentWallet();
+
+  if (!isOrdRunning()) {
+    await showWarningWithAction('Ord server is not running.', 'Start Services', 'ord.start');
+    return;
+  }
+
+  let rune = typeof target === 'string' ? target : target?.rune;
+  let available: bigint;
+  let divisibility: number;
+  let amount: string | undefined;
+  let destination: Destination | undefined;
+
+  try {
+    const balance = await vscode.window.withProgress(
+      {
+        location: vscode.ProgressLocation.Notification,
+        title: `Loading rune balances for wallet "${wallet}"...`,
+        cancellable: false,
+      },
+      () => getOrdBalance(context)
+    );
+
+    if (!rune) {
+      const items: RuneQuickPickItem[] = Object.entries(balance.runes).map(([name, held]) => ({
+        label: `$(symbol-constant) ${name}`,
+        description: `${held} available`,
+        rune: name,
+      }));
+      if (items.length === 0) {
+        vscode.window.showInformationMessage(`Wallet "${wallet}" does not hold any runes.`);
+        return;
+      }
+
+      const selected = await vscode.window.showQuickPick(items, {
+        title: 'Send Rune',
+        placeHolder: `Select a rune from wallet "${wallet}"`,
+      });
+      rune = selected?.rune;
+      if (!rune) {
+        return;
+      }
+    }
+
+    const held = balance.runes[rune];
+    if (held === undefined) {
+      vscode.window.showErrorMessage(`Wallet "${wallet}" does not hold any ${rune}.`);
+      return;
+    }
+
+    // Balances are shown without trailing zeros, so the divisibility comes from the rune itself
+    divisibility = (await getRuneInfo(rune)).entry.divisibility;
+    available = parseRuneAmount(held, divisibility) ?? 0n;
+    const runeName = rune;
+
+    amount = await vscode.window.showInputBox({
+      title: `Send ${runeName}`,
+      prompt: `Amount to send (${held} available)`,
+      ignoreFocusOut: true,
+      validateInput: (value) => {
+        const units = parseRuneAmount(value, divisibility);
+        if (units === undefined || units === 0n) {
+          return `Please enter a positive amount with at most ${divisibility} decimal places`;
+        }
+        if (units > available) {
+          return `Amount exceeds the available ${held}`;
+        }
+        return null;
+      },
+    });
+    if (amount === undefined) {
+      return;
+    }
+
+    destination = await pickDestination(context, `Send ${runeName} To...`, wallet);
+  } catch (error) {
+    await showErrorWithSuggestion('Failed to prepare rune transfer', error instanceof Error ? error : String(error));
+    return;
+  }
+
+  if (!destination) {
+    return;
+  }
+
+  const feeRate = await resolveFeeRate({ title: 'Fee Rate for Rune Transfer' });
+  if (feeRate === undefined) {
+    return;
+  }
+
+  const outgoing = `${amount.trim()}:${rune}`;
+
+  if (config.network !== 'regtest') {
+    const confirm = await vscode.window.showWarningMessage(
+      `Send ${amount.trim()} ${rune} on ${config.network}?`,
+      {
+        modal: true,
+        detail: [
+          `From wallet: ${wallet}`,
+          `To: ${destination.address}`,
+          `Fee rate: ${feeRate} sat/vB`,
+        ].join('\n'),
+      },
+      'Send'
+    );
+    if (confirm !== 'Send') {
+      return;
+    }
+  }
+
+  const sendResult = await vscode.window.withProgress(
+    {
+      location: vscode.ProgressLocation.Notification,
+      title: `Sending ${rune}...`,
+      cancellable: false,
+    },
+    async (progress): Promise<{ result?: SendResult; error?: Error | string }> => {
+      try {
+        const result = await ordWalletSend(context, destination.address, outgoing, feeRate);
+        progress.report({ message: 'Waiting for confirmation...' });
+        await confirmOnRegtest(context);
+        return { result };
+      } catch (error) {
+        return { error: error instanceof Error ? error : String(error) };
+      }
+    }
+  );
+
+  if (sendResult.error || !sendResult.result) {
+    await showErrorWithSuggestion('Failed to send rune', sendResult.error || 'No result from ord');
+    return;
+  }
+
+  refreshAllTrees();
+  await showSentMessage(`Sent ${amount.trim()} ${rune} to ${destination.label}.`, sendResult.result.txid);
+}
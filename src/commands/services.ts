@@ -1,12 +1,13 @@
 import * as vscode from 'vscode';
-import { startBitcoind, stopBitcoind } from '../services/bitcoind';
-import { startOrdServer, stopOrdServer, isOrdRunning, verifyOrdBitcoindConnection } from '../services/ord';
+import { startBitcoind, stopBitcoind, isBitcoindRunning } from '../services/bitcoind';
+import { startOrdServer, stopOrdServer, isOrdRunning, verifyOrdBitcoindConnection, clearOrdIndex } from '../services/ord';
 import { ensureBinariesInstalled } from '../services/download';
+import { startPreviewServer, stopPreviewServer, getPreviewUrl, isPreviewServerRunning } from '../services/previewServer';
 import { updateStatusBar } from '../ui/statusBar';
 import { log } from '../ui/outputChannel';
-import { getConfig } from '../utils/config';
+import { getConfig, getOrdIndexFlags } from '../utils/config';
 import { showErrorWithSuggestion, showWarningWithAction } from '../utils/errorHelper';
-import { refreshWalletTree } from '../ui/treeView';
+import { refreshAllTrees } from '../ui/treeView';
 
 export async function startServices(context: vscode.ExtensionContext): Promise<void> {
   // Check if binaries are installed
@@ -63,11 +64,19 @@ export async function startServices(context: vscode.ExtensionContext): Promise<v
           log(`Ord health check passed (blockcount: ${health.blockcount})`);
         }
 
+        // The preview server is a convenience - don't fail startup if its port is taken
+        progress.report({ message: 'Starting preview server...' });
+        try {
+          await startPreviewServer();
+        } catch (e) {
+          log(`Could not start preview server: ${e}`);
+        }
+
         vscode.window.showInformationMessage('Ordinals services started successfully!');
         log('All services started');
 
         // Refresh tree views to show updated status
-        refreshWalletTree();
+        refreshAllTrees();
       } catch (error) {
         await showErrorWithSuggestion('Failed to start services', error instanceof Error ? error : String(error));
         throw error;
@@ -85,6 +94,9 @@ export async function stopServices(): Promise<void> {
     },
     async (progress) => {
       try {
+        progress.report({ message: 'Stopping preview server...' });
+        await stopPreviewServer();
+
         progress.report({ message: 'Stopping ord server...' });
         await stopOrdServer();
         updateStatusBar();
@@ -97,7 +109,7 @@ export async function stopServices(): Promise<void> {
         log('All services stopped');
 
         // Refresh tree views to show updated status
-        refreshWalletTree();
+        refreshAllTrees();
       } catch (error) {
         await showErrorWithSuggestion('Failed to stop services', error instanceof Error ? error : String(error));
       }
@@ -105,6 +117,39 @@ export async function stopServices(): Promise<void> {
   );
 }
 
+/**
+ * Stops bitcoind and ord so their data directories can be copied or replaced, runs `work`,
+ * then starts them again if they were running, or always with `startAfterwards`. Runs inside
+ * a caller's progress notification.
+ */
+export async function withServicesStopped<T>(
+  context: vscode.ExtensionContext,
+  progress: vscode.Progress<{ message?: string }>,
+  work: () => T | Promise<T>,
+  startAfterwards = false
+): Promise<T> {
+  const wasRunning = isBitcoindRunning();
+  if (wasRunning) {
+    progress.report({ message: 'Stopping ord server...' });
+    await stopOrdServer();
+    progress.report({ message: 'Stopping bitcoind...' });
+    await stopBitcoind();
+    updateStatusBar();
+  }
+
+  try {
+    return await work();
+  } finally {
+    if (wasRunning || startAfterwards) {
+      progress.report({ message: 'Starting bitcoind...' });
+      await startBitcoind(context);
+      progress.report({ message: 'Starting ord server...' });
+      await startOrdServer(context);
+      updateStatusBar();
+    }
+  }
+}
+
 export async function openOrdServer(): Promise<void> {
   const config = vscode.workspace.getConfiguration('ord');
   const port = config.get<number>('ordServerPort', 8080);
@@ -117,3 +162,101 @@ export async function openOrdServer(): Promise<void> {
 
   vscode.env.openExternal(vscode.Uri.parse(url));
 }
+
+export async function openPreview(): Promise<void> {
+  if (!vscode.window.activeTextEditor) {
+    vscode.window.showErrorMessage('No file is currently open.');
+    return;
+  }
+
+  if (!isPreviewServerRunning()) {
+    try {
+      await startPreviewServer();
+    } catch (error) {
+      await showErrorWithSuggestion('Failed to start preview server', error instanceof Error ? error : String(error));
+      return;
+    }
+  }
+
+  if (!isPreviewServerRunning()) {
+    vscode.window.showWarningMessage('The preview server is disabled. Set "ord.previewServerPort" to enable it.');
+    return;
+  }
+
+  if (!isOrdRunning()) {
+    vscode.window.showInformationMessage('Ord server is not running - only mapped inscriptions will resolve in the preview.');
+  }
+
+  vscode.env.openExternal(vscode.Uri.parse(getPreviewUrl()));
+}
+
+/**
+ * Deletes the ord index for the current network and restarts ord so it rebuilds with the
+ * current index settings. The wallet is kept.
+ */
+export async function rebuildIndex(context: vscode.ExtensionContext): Promise<void> {
+  const config = getConfig();
+  const flags = getOrdIndexFlags(config);
+
+  await vscode.window.withProgress(
+    {
+      location: vscode.ProgressLocation.Notification,
+      title: 'Rebuilding ord index...',
+      cancellable: false,
+    },
+    async (progress) => {
+      try {
+        // The index file is locked while ord runs
+        const wasRunning = isOrdRunning();
+        if (wasRunning) {
+          progress.report({ message: 'Stopping ord server...' });
+          await stopOrdServer();
+          updateStatusBar();
+        }
+
+        progress.report({ message: 'Deleting index...' });
+        clearOrdIndex(config.network);
+        log(`Cleared ord index for ${config.network} (index flags: ${flags.join(' ') || 'none'})`);
+
+        if (wasRunning && isBitcoindRunning()) {
+          progress.report({ message: 'Restarting ord server (indexing from scratch)...' });
+          await startOrdServer(context);
+          updateStatusBar();
+          vscode.window.showInformationMessage('The ord index has been rebuilt with the current index settings.');
+        } else {
+          vscode.window.showInformationMessage('The ord index has been deleted. It is rebuilt the next time ord starts.');
+        }
+
+        refreshAllTrees();
+      } catch (error) {
+        await showErrorWithSuggestion('Failed to rebuild ord index', error instanceof Error ? error : String(error));
+      }
+    }
+  );
+}
+
+/**
+ * Called when an index setting changes. ord keeps using the features an index was created with,
+ * so the new settings only take effect once the index is rebuilt.
+ */
+export async function promptIndexRebuild(context: vscode.ExtensionContext): Promise<void> {
+  const config = getConfig();
+  const flags = getOrdIndexFlags(config);
+
+  const choice = await vscode.window.showWarningMessage(
+    `The ord index for ${config.network} has to be rebuilt for the new index settings to take effect. Rebuild it now?`,
+    {
+      modal: true,
+      detail: [
+        `Index flags: ${flags.join(' ') || 'none'}`,
+        'An existing index keeps the features it was created with, so ord would silently ignore the change.',
+        'Your wallet is kept, but reindexing can take a while on larger chains.',
+      ].join('\n'),
+    },
+    'Rebuild Now'
+  );
+
+  if (choice === 'Rebuild Now') {
+    await rebuildIndex(context);
+  }
+}
@@ -0,0 +1,211 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { isBitcoindRunning } from '../services/bitcoind';
+import { rpcCall } from '../utils/rpc';
+import { getConfig } from '../utils/config';
+import { getDefaultDataDirectory, getNetworkSubdirectory, getOrdDataDirectory } from '../utils/platform';
+import {
+  deleteSnapshotFiles,
+  getSnapshotsDirectory,
+  isValidSnapshotName,
+  listSnapshots,
+  restoreSnapshotFiles,
+  saveSnapshotFiles,
+  SnapshotDirectories,
+  SnapshotMetadata,
+} from '../utils/snapshots';
+import { getCurrentWallet, listWallets, setCurrentWallet } from '../utils/walletState';
+import { showErrorWithSuggestion } from '../utils/errorHelper';
+import { refreshAllTrees } from '../ui/treeView';
+import { log } from '../ui/outputChannel';
+import { withServicesStopped } from './services';
+
+// Snapshot commands run from the palette or on a snapshot in the Snapshots view
+type SnapshotTarget = { snapshotName?: string } | undefined;
+
+/**
+ * bitcoind's regtest directory (chain and wallets) and ord's (index and wallets)
+ */
+export function getRegtestDirectories(): SnapshotDirectories {
+  const config = getConfig();
+  const subdirectory = getNetworkSubdirectory('regtest');
+  return {
+    bitcoin: path.join(config.dataDirectory || getDefaultDataDirectory(), subdirectory),
+    ord: path.join(getOrdDataDirectory(), subdirectory),
+  };
+}
+
+/**
+ * Snapshots copy the whole chain, which is only practical on regtest
+ */
+function requireRegtest(): boolean {
+  const config = getConfig();
+  if (config.network !== 'regtest') {
+    vscode.window.showWarningMessage(`Snapshots are only available on regtest (current network: ${config.network}).`);
+    return false;
+  }
+  return true;
+}
+
+function describeSnapshot(snapshot: SnapshotMetadata): string {
+  const height = snapshot.blockHeight !== undefined ? `height ${snapshot.blockHeight} · ` : '';
+  return `${height}${new Date(snapshot.created).toLocaleString()}`;
+}
+
+async function pickSnapshot(context: vscode.ExtensionContext, target: SnapshotTarget, title: string): Promise<string | undefined> {
+  if (target?.snapshotName) {
+    return target.snapshotName;
+  }
+
+  const snapshots = listSnapshots(getSnapshotsDirectory(context.globalStorageUri.fsPath));
+  if (snapshots.length === 0) {
+    vscode.window.showInformationMessage('No snapshots saved yet. Save one with "Ord: Save Chain Snapshot".');
+    return undefined;
+  }
+
+  const selected = await vscode.window.showQuickPick(
+    snapshots.map((snapshot) => ({
+      label: snapshot.name,
+      description: describeSnapshot(snapshot),
+      detail: `Wallets: ${snapshot.wallets.join(', ') || 'none'}`,
+    })),
+    { title, placeHolder: 'Select a snapshot' }
+  );
+  return selected?.label;
+}
+
+/**
+ * Saves the regtest chain, the ord index and all wallets under a name, so a test scenario
+ * can start again from exactly this state
+ */
+export async function saveSnapshot(context: vscode.ExtensionContext): Promise<void> {
+  if (!requireRegtest()) {
+    return;
+  }
+
+  const snapshotsDir = getSnapshotsDirectory(context.globalStorageUri.fsPath);
+  const existing = listSnapshots(snapshotsDir).map((snapshot) => snapshot.name);
+  const name = await vscode.window.showInputBox({
+    title: 'Save Chain Snapshot',
+    prompt: 'Name for the snapshot',
+    placeHolder: 'e.g. funded-wallets',
+    validateInput: (value) =>
+      isValidSnapshotName(value) ? null : 'Snapshot name can only contain letters, numbers, hyphens, and underscores',
+  });
+  if (!name) {
+    return;
+  }
+
+  if (existing.includes(name)) {
+    const overwrite = await vscode.window.showWarningMessage(`Snapshot "${name}" already exists. Replace it?`, { modal: true }, 'Replace');
+    if (overwrite !== 'Replace') {
+      return;
+    }
+  }
+
+  let blockHeight: number | undefined;
+  if (isBitcoindRunning()) {
+    try {
+      blockHeight = await rpcCall<number>('getblockcount');
+    } catch (e) {
+      log(`Could not read the block height for snapshot "${name}": ${e}`);
+    }
+  }
+
+  const metadata: SnapshotMetadata = {
+    name,
+    created: new Date().toISOString(),
+    blockHeight,
+    currentWallet: getCurrentWallet(),
+    wallets: listWallets(),
+  };
+
+  const error = await vscode.window.withProgress(
+    { location: vscode.ProgressLocation.Notification, title: `Saving snapshot "${name}"...`, cancellable: false },
+    async (progress): Promise<Error | string | undefined> => {
+      try {
+        await withServicesStopped(context, progress, () => {
+          progress.report({ message: 'Copying chain, index and wallets...' });
+          saveSnapshotFiles(snapshotsDir, getRegtestDirectories(), metadata);
+        });
+        log(`Saved snapshot "${name}" to ${path.join(snapshotsDir, name)}`);
+        return undefined;
+      } catch (e) {
+        return e instanceof Error ? e : String(e);
+      }
+    }
+  );
+
+  refreshAllTrees();
+  if (error) {
+    await showErrorWithSuggestion('Failed to save snapshot', error);
+    return;
+  }
+  vscode.window.showInformationMessage(`Snapshot "${name}" saved${blockHeight !== undefined ? ` at height ${blockHeight}` : ''}.`);
+}
+
+/**
+ * Replaces the regtest chain, ord index and wallets with a saved snapshot
+ */
+export async function restoreSnapshot(context: vscode.ExtensionContext, target?: SnapshotTarget): Promise<void> {
+  if (!requireRegtest()) {
+    return;
+  }
+
+  const name = await pickSnapshot(context, target, 'Restore Chain Snapshot');
+  if (!name) {
+    return;
+  }
+
+  const confirm = await vscode.window.showWarningMessage(
+    `Restore snapshot "${name}"?`,
+    {
+      modal: true,
+      detail: 'The current regtest chain, ord index and wallets are replaced by the snapshot. Save a snapshot first to keep them.',
+    },
+    'Restore'
+  );
+  if (confirm !== 'Restore') {
+    return;
+  }
+
+  const result = await vscode.window.withProgress(
+    { location: vscode.ProgressLocation.Notification, title: `Restoring snapshot "${name}"...`, cancellable: false },
+    async (progress): Promise<{ metadata?: SnapshotMetadata; error?: Error | string }> => {
+      try {
+        const metadata = await withServicesStopped(context, progress, () => {
+          progress.report({ message: 'Copying chain, index and wallets...' });
+          return restoreSnapshotFiles(getSnapshotsDirectory(context.globalStorageUri.fsPath), name, getRegtestDirectories());
+        });
+        await setCurrentWallet(metadata.currentWallet);
+        log(`Restored snapshot "${name}"`);
+        return { metadata };
+      } catch (e) {
+        return { error: e instanceof Error ? e : String(e) };
+      }
+    }
+  );
+
+  refreshAllTrees();
+  if (result.error || !result.metadata) {
+    await showErrorWithSuggestion('Failed to restore snapshot', result.error || 'Snapshot could not be read');
+    return;
+  }
+  vscode.window.showInformationMessage(`Restored snapshot "${name}" (${describeSnapshot(result.metadata)}).`);
+}
+
+export async function deleteSnapshot(context: vscode.ExtensionContext, target?: SnapshotTarget): Promise<void> {
+  const name = await pickSnapshot(context, target, 'Delete Chain Snapshot');
+  if (!name) {
+    return;
+  }
+
+  const confirm = await vscode.window.showWarningMessage(`Delete snapshot "${name}"?`, { modal: true }, 'Delete');
+  if (confirm !== 'Delete') {
+    return;
+  }
+
+  deleteSnapshotFiles(getSnapshotsDirectory(context.globalStorageUri.fsPath), name);
+  log(`Deleted snapshot "${name}"`);
+  refreshAllTrees();
+}
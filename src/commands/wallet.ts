@@ -1,22 +1,113 @@
 import * as vscode from 'vscode';
-import { createOrdWallet, getOrdBalance, getOrdReceiveAddress, clearAllOrdData, isOrdRunning, stopOrdServer, startOrdServer } from '../services/ord';
-import { generateToAddress, createWallet as createBitcoinWallet, listWallets as listBitcoinWallets, loadWallet, unloadWallet, getNewAddress } from '../utils/rpc';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  createOrdWallet,
+  getOrdBalance,
+  getOrdReceiveAddress,
+  clearAllOrdData,
+  isOrdRunning,
+  stopOrdServer,
+  startOrdServer,
+  waitForOrdSync,
+  restoreOrdWallet,
+  dumpOrdWallet,
+  WalletRestoreSource,
+} from '../services/ord';
+import { generateToAddress, rpcCall, createWallet as createBitcoinWallet, listWallets as listBitcoinWallets, loadWallet, unloadWallet, getNewAddress } from '../utils/rpc';
 import { isBitcoindRunning } from '../services/bitcoind';
-import { getConfig } from '../utils/config';
+import { AutoMineMode, getConfig } from '../utils/config';
 import { log } from '../ui/outputChannel';
 import { updateStatusBar } from '../ui/statusBar';
 import { showErrorWithSuggestion, showWarningWithAction } from '../utils/errorHelper';
-import { refreshWalletTree } from '../ui/treeView';
-import { getCurrentWallet, setCurrentWallet, listWallets as listOrdWallets } from '../utils/walletState';
+import { refreshAllTrees, refreshWalletTree } from '../ui/treeView';
+import {
+  getCurrentWallet,
+  setCurrentWallet,
+  listWallets as listOrdWallets,
+  deleteWalletFiles,
+  renameWalletFiles,
+  DEFAULT_WALLET_NAME,
+} from '../utils/walletState';
+import {
+  deleteStoredMnemonic,
+  getStoredMnemonic,
+  listStoredMnemonics,
+  normalizeMnemonic,
+  renameStoredMnemonic,
+  storeMnemonic,
+  validateMnemonic,
+} from '../utils/mnemonic';
 
 const COINBASE_MATURITY = 100;
 
+function validateNewWalletName(value: string): string | null {
+  if (!value || value.trim().length === 0) {
+    return 'Wallet name cannot be empty';
+  }
+  if (!/^[a-zA-Z0-9_-]+$/.test(value)) {
+    return 'Wallet name can only contain letters, numbers, hyphens, and underscores';
+  }
+  if (listOrdWallets().includes(value)) {
+    return 'A wallet with this name already exists';
+  }
+  return null;
+}
+
+/**
+ * Keeps a new wallet's mnemonic in SecretStorage when `ord.storeMnemonics` is on, and shows it
+ * outside regtest so it can be written down. ord prints it only once, when the wallet is created.
+ */
+async function handleNewMnemonic(walletName: string, mnemonic: string | undefined): Promise<void> {
+  if (!mnemonic) {
+    return;
+  }
+
+  const config = getConfig();
+  let stored = false;
+  if (config.storeMnemonics) {
+    try {
+      await storeMnemonic(config.network, walletName, mnemonic);
+      stored = true;
+    } catch (e) {
+      log(`Could not store mnemonic for wallet "${walletName}": ${e}`);
+    }
+  }
+
+  if (config.network === 'regtest') {
+    return;
+  }
+
+  const action = await vscode.window.showWarningMessage(
+    `Write down the mnemonic of wallet "${walletName}". It is the only way to restore this wallet.`,
+    {
+      modal: true,
+      detail: [
+        mnemonic,
+        '',
+        stored
+          ? 'A copy is kept in your system keychain (ord.storeMnemonics).'
+          : 'It is not stored anywhere. Anyone with these words can spend the wallet\'s funds.',
+      ].join('\n'),
+    },
+    'Copy Mnemonic'
+  );
+
+  if (action === 'Copy Mnemonic') {
+    await vscode.env.clipboard.writeText(mnemonic);
+  }
+}
+
 export async function createWallet(context: vscode.ExtensionContext): Promise<void> {
   if (!isBitcoindRunning()) {
     await showWarningWithAction('Bitcoin Core is not running. Start services to create a wallet.', 'Start Services', 'ord.start');
     return;
   }
 
+  const walletName = getCurrentWallet();
+  let mnemonic: string | undefined;
+
   await vscode.window.withProgress(
     {
       location: vscode.ProgressLocation.Notification,
@@ -28,7 +119,7 @@ export async function createWallet(context: vscode.ExtensionContext): Promise<vo
         // IMPORTANT: Create ord wallet FIRST - it will create its own Bitcoin wallet
         // with the correct descriptors. Don't pre-create a Bitcoin wallet named "ord"
         // as that will cause descriptor mismatch errors.
-        await createOrdWallet(context);
+        mnemonic = await createOrdWallet(context);
 
         // Create a separate Bitcoin wallet for mining rewards (not named "ord")
         try {
@@ -55,6 +146,8 @@ export async function createWallet(context: vscode.ExtensionContext): Promise<vo
       }
     }
   );
+
+  await handleNewMnemonic(walletName, mnemonic);
 }
 
 export async function showBalance(context: vscode.ExtensionContext): Promise<void> {
@@ -138,6 +231,84 @@ export async function mineBlocks(context: vscode.ExtensionContext): Promise<void
   );
 }
 
+/**
+ * Chooses how blocks are mined automatically on regtest. The choice is saved in the user
+ * settings, and the settings listener restarts auto-mining.
+ */
+export async function setAutoMine(): Promise<void> {
+  const config = getConfig();
+  if (config.network !== 'regtest') {
+    vscode.window.showWarningMessage(`Auto-mining is only available in regtest mode (current: ${config.network}).`);
+    return;
+  }
+
+  const modes: (vscode.QuickPickItem & { mode: AutoMineMode })[] = [
+    { mode: 'off', label: '$(circle-slash) Off', description: 'Mine blocks only on request' },
+    { mode: 'interval', label: '$(watch) Every N Seconds', description: `Currently every ${config.autoMineInterval}s` },
+    { mode: 'mempool', label: '$(pulse) On Mempool Transactions', description: 'Mine when transactions are pending' },
+  ];
+  for (const item of modes) {
+    if (item.mode === config.autoMine) {
+      item.detail = 'Current mode';
+    }
+  }
+
+  const selected = await vscode.window.showQuickPick(modes, { title: 'Auto-Mine', placeHolder: 'How should blocks be mined?' });
+  if (!selected) {
+    return;
+  }
+
+  const settings = vscode.workspace.getConfiguration('ord');
+  if (selected.mode === 'interval') {
+    const input = await vscode.window.showInputBox({
+      prompt: 'Seconds between blocks',
+      value: String(config.autoMineInterval),
+      validateInput: (value) => {
+        const seconds = parseInt(value, 10);
+        if (isNaN(seconds) || seconds < 1 || seconds > 3600) {
+          return 'Please enter a number between 1 and 3600';
+        }
+        return null;
+      },
+    });
+    if (!input) {
+      return;
+    }
+    await settings.update('autoMineInterval', parseInt(input, 10), vscode.ConfigurationTarget.Global);
+  }
+
+  await settings.update('autoMine', selected.mode, vscode.ConfigurationTarget.Global);
+}
+
+/**
+ * Mines a single block to the ord wallet so new transactions confirm (regtest only)
+ */
+export async function mineConfirmationBlock(context: vscode.ExtensionContext): Promise<void> {
+  try {
+    const address = await getOrdReceiveAddress(context);
+    await generateToAddress(1, address);
+    log('Mined confirmation block');
+  } catch (e) {
+    log(`Warning: Could not mine confirmation block: ${e}`);
+  }
+}
+
+/**
+ * Mines a block and waits for ord to index it, so a new transaction shows up in the trees (regtest only)
+ */
+export async function confirmOnRegtest(context: vscode.ExtensionContext): Promise<void> {
+  const config = getConfig();
+  if (config.network !== 'regtest') {
+    return;
+  }
+
+  await mineConfirmationBlock(context);
+  const bitcoindBlocks = await rpcCall<number>('getblockcount');
+  if (!(await waitForOrdSync(config.ordServerPort, bitcoindBlocks))) {
+    log('Warning: ord did not catch up with the confirmation block');
+  }
+}
+
 export async function resetWallet(context: vscode.ExtensionContext): Promise<void> {
   const config = getConfig();
 
@@ -195,7 +366,7 @@ export async function resetWallet(context: vscode.ExtensionContext): Promise<voi
         }
 
         vscode.window.showInformationMessage('Ord has been reset. Create a new wallet to continue.');
-        refreshWalletTree();
+        refreshAllTrees();
       } catch (error) {
         await showErrorWithSuggestion('Failed to reset wallet', error instanceof Error ? error : String(error));
       }
@@ -212,7 +383,7 @@ export async function ensureWalletFunded(context: vscode.ExtensionContext): Prom
     // with correct descriptors. Don't create a Bitcoin wallet named "ord" separately.
     log(`Ensuring ord wallet "${currentWallet}" exists...`);
     try {
-      await createOrdWallet(context);
+      await handleNewMnemonic(currentWallet, await createOrdWallet(context));
       log('Ord wallet created/verified');
     } catch (e) {
       const msg = e instanceof Error ? e.message : String(e);
@@ -279,23 +450,13 @@ export async function createNamedWallet(context: vscode.ExtensionContext): Promi
   const walletName = await vscode.window.showInputBox({
     prompt: 'Enter a name for the new wallet',
     placeHolder: 'my-wallet',
-    validateInput: (value) => {
-      if (!value || value.trim().length === 0) {
-        return 'Wallet name cannot be empty';
-      }
-      if (!/^[a-zA-Z0-9_-]+$/.test(value)) {
-        return 'Wallet name can only contain letters, numbers, hyphens, and underscores';
-      }
-      const existing = listOrdWallets();
-      if (existing.includes(value)) {
-        return 'A wallet with this name already exists';
-      }
-      return null;
-    },
+    validateInput: validateNewWalletName,
   });
 
   if (!walletName) return;
 
+  let mnemonic: string | undefined;
+
   await vscode.window.withProgress(
     {
       location: vscode.ProgressLocation.Notification,
@@ -304,18 +465,20 @@ export async function createNamedWallet(context: vscode.ExtensionContext): Promi
     },
     async () => {
       try {
-        await createOrdWallet(context, walletName);
+        mnemonic = await createOrdWallet(context, walletName);
 
         // Switch to the new wallet
         await setCurrentWallet(walletName);
 
         vscode.window.showInformationMessage(`Wallet "${walletName}" created and activated!`);
-        refreshWalletTree();
+        refreshAllTrees();
       } catch (error) {
         await showErrorWithSuggestion('Failed to create wallet', error instanceof Error ? error : String(error));
       }
     }
   );
+
+  await handleNewMnemonic(walletName, mnemonic);
 }
 
 export async function switchWallet(): Promise<void> {
@@ -344,9 +507,401 @@ export async function switchWallet(): Promise<void> {
 
   await setCurrentWallet(selected.label);
   vscode.window.showInformationMessage(`Switched to wallet "${selected.label}"`);
-  refreshWalletTree();
+  refreshAllTrees();
 }
 
 export function getActiveWalletName(): string {
   return getCurrentWallet();
 }
+
+/**
+ * Checks that the current wallet exists on the newly configured network, and offers to pick or
+ * create one when it doesn't. A missing default wallet is fine: it is created when funding.
+ */
+export async function validateCurrentWallet(context: vscode.ExtensionContext): Promise<void> {
+  const config = getConfig();
+  const currentWallet = getCurrentWallet();
+  const wallets = listOrdWallets();
+
+  updateStatusBar();
+  refreshAllTrees();
+  if (wallets.includes(currentWallet) || (currentWallet === DEFAULT_WALLET_NAME && wallets.length === 0)) {
+    return;
+  }
+
+  const actions = wallets.length > 0 ? ['Switch Wallet', 'Create Wallet'] : ['Create Wallet', `Use "${DEFAULT_WALLET_NAME}"`];
+  const choice = await vscode.window.showWarningMessage(
+    `Wallet "${currentWallet}" does not exist on ${config.network}.`,
+    ...actions
+  );
+
+  if (choice === 'Switch Wallet') {
+    await switchWallet();
+  } else if (choice === 'Create Wallet') {
+    await createNamedWallet(context);
+  } else if (choice === `Use "${DEFAULT_WALLET_NAME}"`) {
+    await setCurrentWallet(DEFAULT_WALLET_NAME);
+    updateStatusBar();
+    refreshAllTrees();
+  }
+}
+
+/**
+ * bitcoind keeps loaded wallet files open, so wallets are unloaded before their files are touched
+ */
+async function unloadBitcoinWallets(names: string[]): Promise<void> {
+  if (!isBitcoindRunning()) {
+    return;
+  }
+
+  const loaded = await listBitcoinWallets();
+  for (const name of names.filter((name) => loaded.includes(name))) {
+    await unloadWallet(name);
+    log(`Unloaded wallet "${name}" from bitcoind`);
+  }
+}
+
+/**
+ * Deletes named wallets, both the ord database and the bitcoind wallet. The default wallet is
+ * left out; "Ord: Reset Wallet" clears it together with the index.
+ */
+export async function deleteWallets(): Promise<void> {
+  const config = getConfig();
+  const currentWallet = getCurrentWallet();
+  const wallets = listOrdWallets().filter((name) => name !== DEFAULT_WALLET_NAME);
+
+  if (wallets.length === 0) {
+    vscode.window.showInformationMessage(`No named wallets to delete. Use "Ord: Reset Wallet" to clear the "${DEFAULT_WALLET_NAME}" wallet.`);
+    return;
+  }
+
+  const selected = await vscode.window.showQuickPick(
+    wallets.map((name) => ({ label: name, description: name === currentWallet ? '(current)' : '' })),
+    {
+      placeHolder: 'Select the wallets to delete',
+      title: 'Delete Wallets',
+      canPickMany: true,
+    }
+  );
+  if (!selected || selected.length === 0) {
+    return;
+  }
+
+  const names = selected.map((item) => item.label);
+  const confirm = await vscode.window.showWarningMessage(
+    names.length === 1 ? `Delete wallet "${names[0]}"?` : `Delete ${names.length} wallets?`,
+    {
+      modal: true,
+      detail: [
+        names.length === 1 ? '' : names.join(', '),
+        `The ord and Bitcoin Core wallet files on ${config.network} are removed. Funds in ${names.length === 1 ? 'it' : 'them'} are lost unless you have a backup or mnemonic.`,
+      ]
+        .filter(Boolean)
+        .join('\n\n'),
+    },
+    'Delete'
+  );
+  if (confirm !== 'Delete') {
+    return;
+  }
+
+  const deleted: string[] = [];
+  try {
+    await unloadBitcoinWallets(names);
+    for (const name of names) {
+      deleteWalletFiles(name);
+      await deleteStoredMnemonic(config.network, name);
+      deleted.push(name);
+      log(`Deleted wallet "${name}"`);
+    }
+  } catch (error) {
+    await showErrorWithSuggestion('Failed to delete wallet', error instanceof Error ? error : String(error));
+  }
+
+  if (deleted.includes(currentWallet)) {
+    await setCurrentWallet(DEFAULT_WALLET_NAME);
+    log(`Switched to wallet "${DEFAULT_WALLET_NAME}"`);
+  }
+
+  refreshAllTrees();
+  if (deleted.length > 0) {
+    vscode.window.showInformationMessage(
+      deleted.length === 1 ? `Deleted wallet "${deleted[0]}".` : `Deleted ${deleted.length} wallets.`
+    );
+  }
+}
+
+export async function renameWallet(): Promise<void> {
+  const config = getConfig();
+  const currentWallet = getCurrentWallet();
+  const wallets = listOrdWallets().filter((name) => name !== DEFAULT_WALLET_NAME);
+
+  if (wallets.length === 0) {
+    vscode.window.showInformationMessage('No named wallets to rename. Create one with "Ord: Create Named Wallet".');
+    return;
+  }
+
+  const selected = await vscode.window.showQuickPick(
+    wallets.map((name) => ({ label: name, description: name === currentWallet ? '(current)' : '' })),
+    {
+      placeHolder: 'Select a wallet to rename',
+      title: 'Rename Wallet',
+    }
+  );
+  if (!selected) {
+    return;
+  }
+
+  const from = selected.label;
+  const to = await vscode.window.showInputBox({
+    title: `Rename Wallet "${from}"`,
+    prompt: 'Enter the new wallet name',
+    value: from,
+    validateInput: (value) => (value === from ? null : validateNewWalletName(value)),
+  });
+  if (!to || to === from) {
+    return;
+  }
+
+  try {
+    await unloadBitcoinWallets([from]);
+    renameWalletFiles(from, to);
+    await renameStoredMnemonic(config.network, from, to);
+    log(`Renamed wallet "${from}" to "${to}"`);
+
+    if (isBitcoindRunning()) {
+      await loadWallet(to);
+    }
+  } catch (error) {
+    await showErrorWithSuggestion('Failed to rename wallet', error instanceof Error ? error : String(error));
+    refreshAllTrees();
+    return;
+  }
+
+  if (from === currentWallet) {
+    await setCurrentWallet(to);
+  }
+
+  vscode.window.showInformationMessage(`Renamed wallet "${from}" to "${to}".`);
+  refreshAllTrees();
+}
+
+interface RestoreSourceItem extends vscode.QuickPickItem {
+  source: 'mnemonic' | 'descriptor' | 'stored';
+  walletName?: string;
+}
+
+/**
+ * Asks where to restore from and collects the secret. Returns the suggested wallet name with it.
+ */
+async function pickRestoreSource(): Promise<{ source: WalletRestoreSource; walletName?: string } | undefined> {
+  const config = getConfig();
+  const existing = listOrdWallets();
+
+  const items: RestoreSourceItem[] = [
+    { label: '$(key) Enter mnemonic...', description: '12 or 24 words, optional passphrase', source: 'mnemonic' },
+    { label: '$(file) Descriptor backup file...', description: 'Made with Ord: Back Up Wallet', source: 'descriptor' },
+  ];
+
+  const stored = listStoredMnemonics(config.network).filter((name) => !existing.includes(name));
+  if (stored.length > 0) {
+    items.push({ label: 'Stored mnemonics', kind: vscode.QuickPickItemKind.Separator, source: 'stored' });
+    for (const name of stored) {
+      items.push({ label: `$(lock) ${name}`, description: 'Mnemonic kept in the system keychain', source: 'stored', walletName: name });
+    }
+  }
+
+  const selected = await vscode.window.showQuickPick(items, {
+    title: 'Restore Wallet',
+    placeHolder: `Restore a wallet on ${config.network} from...`,
+  });
+  if (!selected) {
+    return undefined;
+  }
+
+  if (selected.source === 'stored' && selected.walletName) {
+    const mnemonic = await getStoredMnemonic(config.network, selected.walletName);
+    if (!mnemonic) {
+      vscode.window.showErrorMessage(`The stored mnemonic for "${selected.walletName}" could not be read.`);
+      return undefined;
+    }
+    return { source: { from: 'mnemonic', mnemonic }, walletName: selected.walletName };
+  }
+
+  if (selected.source === 'descriptor') {
+    const picked = await vscode.window.showOpenDialog({
+      canSelectMany: false,
+      openLabel: 'Restore',
+      title: 'Descriptor Backup',
+      filters: { 'Descriptor backup': ['json'] },
+    });
+    if (!picked?.[0]) {
+      return undefined;
+    }
+    let descriptors: string;
+    try {
+      descriptors = fs.readFileSync(picked[0].fsPath, 'utf8');
+    } catch (error) {
+      await showErrorWithSuggestion('Failed to read descriptor backup', error instanceof Error ? error : String(error));
+      return undefined;
+    }
+    try {
+      JSON.parse(descriptors);
+    } catch {
+      vscode.window.showErrorMessage(`${path.basename(picked[0].fsPath)} is not a descriptor backup (invalid JSON).`);
+      return undefined;
+    }
+    return { source: { from: 'descriptor', descriptors } };
+  }
+
+  const mnemonic = await vscode.window.showInputBox({
+    title: 'Restore Wallet',
+    prompt: 'Mnemonic (seed words separated by spaces)',
+    password: true,
+    ignoreFocusOut: true,
+    validateInput: validateMnemonic,
+  });
+  if (mnemonic === undefined) {
+    return undefined;
+  }
+
+  const passphrase = await vscode.window.showInputBox({
+    title: 'Restore Wallet',
+    prompt: 'BIP39 passphrase (leave empty if the wallet has none)',
+    password: true,
+    ignoreFocusOut: true,
+  });
+  if (passphrase === undefined) {
+    return undefined;
+  }
+
+  return { source: { from: 'mnemonic', mnemonic: normalizeMnemonic(mnemonic), passphrase: passphrase || undefined } };
+}
+
+/**
+ * Restores an ord wallet from a mnemonic or a descriptor backup with `ord wallet restore`
+ */
+export async function restoreWallet(context: vscode.ExtensionContext): Promise<void> {
+  if (!isBitcoindRunning()) {
+    await showWarningWithAction('Bitcoin Core is not running. Start services to restore a wallet.', 'Start Services', 'ord.start');
+    return;
+  }
+
+  const picked = await pickRestoreSource();
+  if (!picked) {
+    return;
+  }
+
+  const walletName = await vscode.window.showInputBox({
+    title: 'Restore Wallet',
+    prompt: 'Name for the restored wallet',
+    value: picked.walletName ?? 'restored',
+    validateInput: validateNewWalletName,
+  });
+  if (!walletName) {
+    return;
+  }
+
+  const config = getConfig();
+  const restoreError = await vscode.window.withProgress(
+    {
+      location: vscode.ProgressLocation.Notification,
+      title: `Restoring wallet "${walletName}" (rescanning the chain)...`,
+      cancellable: false,
+    },
+    async (): Promise<Error | string | undefined> => {
+      try {
+        await restoreOrdWallet(context, walletName, picked.source);
+        await setCurrentWallet(walletName);
+        return undefined;
+      } catch (error) {
+        return error instanceof Error ? error : String(error);
+      }
+    }
+  );
+
+  if (restoreError) {
+    await showErrorWithSuggestion('Failed to restore wallet', restoreError);
+    return;
+  }
+
+  if (config.storeMnemonics && picked.source.from === 'mnemonic' && !picked.source.passphrase) {
+    try {
+      await storeMnemonic(config.network, walletName, picked.source.mnemonic);
+    } catch (e) {
+      log(`Could not store mnemonic for wallet "${walletName}": ${e}`);
+    }
+  }
+
+  vscode.window.showInformationMessage(`Wallet "${walletName}" restored and activated!`);
+  refreshAllTrees();
+}
+
+/**
+ * Exports the current wallet's descriptors, private keys included, with `ord wallet dump`
+ */
+export async function backupWallet(context: vscode.ExtensionContext): Promise<void> {
+  if (!isBitcoindRunning()) {
+    await showWarningWithAction('Bitcoin Core is not running. Start services to back up a wallet.', 'Start Services', 'ord.start');
+    return;
+  }
+
+  const config = getConfig();
+  const wallet = getCurrentWallet();
+
+  const confirm = await vscode.window.showWarningMessage(
+    `The backup of wallet "${wallet}" contains its PRIVATE KEYS.`,
+    {
+      modal: true,
+      detail: [
+        'Anyone who gets the file can spend everything in the wallet.',
+        'Save it somewhere private, never commit it to a repository, and delete copies you no longer need.',
+      ].join('\n'),
+    },
+    'I Understand, Export'
+  );
+  if (confirm !== 'I Understand, Export') {
+    return;
+  }
+
+  // Never default into a workspace, where the keys could end up in version control
+  const target = await vscode.window.showSaveDialog({
+    title: `Back Up Wallet "${wallet}"`,
+    saveLabel: 'Export Descriptors',
+    defaultUri: vscode.Uri.file(path.join(os.homedir(), `${wallet}-${config.network}-descriptors.json`)),
+    filters: { 'Descriptor backup': ['json'] },
+  });
+  if (!target) {
+    return;
+  }
+
+  const workspaceFolder = vscode.workspace.getWorkspaceFolder(target);
+  if (workspaceFolder) {
+    const proceed = await vscode.window.showWarningMessage(
+      `Save the private keys inside workspace "${workspaceFolder.name}"?`,
+      {
+        modal: true,
+        detail: 'Files in a workspace are easily committed or shared by accident. Save the backup outside your projects unless this folder is never checked in.',
+      },
+      'Save Anyway'
+    );
+    if (proceed !== 'Save Anyway') {
+      return;
+    }
+  }
+
+  try {
+    const descriptors = await dumpOrdWallet(context);
+    // Readable by the owner only; the mode option is ignored when overwriting an existing file
+    fs.writeFileSync(target.fsPath, descriptors, { mode: 0o600 });
+    fs.chmodSync(target.fsPath, 0o600);
+    log(`Exported descriptors of wallet "${wallet}" to ${target.fsPath}`);
+  } catch (error) {
+    await showErrorWithSuggestion('Failed to back up wallet', error instanceof Error ? error : String(error));
+    return;
+  }
+
+  vscode.window.showInformationMessage(
+    `Wallet "${wallet}" backed up to ${path.basename(target.fsPath)}. Restore it with "Ord: Restore Wallet".`
+  );
+}
@@ -1,27 +1,67 @@
 import * as vscode from 'vscode';
 import { createOutputChannel, showOutput, disposeOutputChannel, log } from './ui/outputChannel';
-import { createStatusBar, disposeStatusBar, showStatusBarMenu } from './ui/statusBar';
+import { createStatusBar, disposeStatusBar, showStatusBarMenu, updateStatusBar } from './ui/statusBar';
 import { registerTreeViews } from './ui/treeView';
 import { stopBitcoind } from './services/bitcoind';
 import { stopOrdServer } from './services/ord';
-import { getConfig } from './utils/config';
+import { startAutoMine, stopAutoMine } from './services/autoMine';
+import { stopPreviewServer, isPreviewServerRunning, startPreviewServer } from './services/previewServer';
+import { getConfig, ORD_INDEX_SETTINGS } from './utils/config';
 import {
   startServices,
   stopServices,
   openOrdServer,
+  openPreview,
+  rebuildIndex,
+  promptIndexRebuild,
   createWallet,
   showBalance,
   mineBlocks,
+  setAutoMine,
   resetWallet,
   createNamedWallet,
+  restoreWallet,
+  backupWallet,
   switchWallet,
+  deleteWallets,
+  renameWallet,
+  validateCurrentWallet,
   inscribeCurrentFile,
   inscribeFileFromExplorer,
+  inscribeBatchManifest,
+  inscribeAsChild,
+  inscribeWithMetadata,
+  inscribeOnSat,
+  sendInscription,
+  sendBitcoin,
+  sendRune,
+  etchRune,
+  mintRune,
+  copyOutpoint,
+  openOutput,
+  setOutputFrozen,
+  openTransaction,
+  signMessage,
+  verifyMessage,
+  createOffer,
+  acceptOffer,
+  inspectPsbt,
+  signPsbt,
+  finalizePsbt,
+  resetChain,
+  simulateReorg,
+  saveSnapshot,
+  restoreSnapshot,
+  deleteSnapshot,
   downloadBinaries,
 } from './commands';
 import { initWalletState } from './utils/walletState';
+import { initMnemonicStore } from './utils/mnemonic';
 import { ensureBinariesInstalled, getInstalledVersions, checkForUpdates } from './services/download';
 import { initInscriptionHistory } from './utils/inscriptionHistory';
+import { initFeeRateState } from './utils/feeRate';
+import { setFeeRate } from './ui/feePicker';
+import { openInscription } from './ui/inscriptionPanel';
 
 let updateCheckInterval: NodeJS.Timeout | null = null;
 const LAST_UPDATE_CHECK_KEY = 'ord.lastUpdateCheck';
@@ -174,6 +214,10 @@ export async function activate(context: vscode.ExtensionContext): Promise<void>
 
   // Initialize wallet state
   initWalletState(context);
+  initMnemonicStore(context);
+
+  // Initialize remembered fee rates
+  initFeeRateState(context);
 
   // Create output channel
   createOutputChannel();
@@ -193,21 +237,75 @@ export async function activate(context: vscode.ExtensionContext): Promise<void>
     vscode.commands.registerCommand('ord.inscribeFile', (uri: vscode.Uri) =>
       inscribeFileFromExplorer(context, uri)
     ),
+    vscode.commands.registerCommand('ord.inscribeBatch', (uri?: vscode.Uri) =>
+      inscribeBatchManifest(context, uri)
+    ),
+    vscode.commands.registerCommand('ord.inscribeAsChild', (target?: vscode.Uri | { inscriptionId: string }) =>
+      inscribeAsChild(context, target)
+    ),
+    vscode.commands.registerCommand('ord.inscribeWithMetadata', (uri?: vscode.Uri) =>
+      inscribeWithMetadata(context, uri)
+    ),
+    vscode.commands.registerCommand('ord.inscribeOnSat', (uri?: vscode.Uri) => inscribeOnSat(context, uri)),
+    vscode.commands.registerCommand('ord.signMessage', (target?: string | { inscriptionId: string }) =>
+      signMessage(context, target)
+    ),
+    vscode.commands.registerCommand('ord.verifyMessage', () => verifyMessage(context)),
+    vscode.commands.registerCommand('ord.createOffer', () => createOffer(context)),
+    vscode.commands.registerCommand('ord.acceptOffer', (uri?: vscode.Uri) => acceptOffer(context, uri)),
+    vscode.commands.registerCommand('ord.inspectPsbt', (uri?: vscode.Uri) => inspectPsbt(uri)),
+    vscode.commands.registerCommand('ord.signPsbt', (uri?: vscode.Uri) => signPsbt(context, uri)),
+    vscode.commands.registerCommand('ord.finalizePsbt', (uri?: vscode.Uri) => finalizePsbt(context, uri)),
+    vscode.commands.registerCommand('ord.sendInscription', (target?: string | { inscriptionId: string }) =>
+      sendInscription(context, target)
+    ),
+    vscode.commands.registerCommand('ord.sendBitcoin', () => sendBitcoin(context)),
+    vscode.commands.registerCommand('ord.sendRune', (target?: string | { rune: string }) =>
+      sendRune(context, target)
+    ),
+    vscode.commands.registerCommand('ord.etchRune', () => etchRune(context)),
+    vscode.commands.registerCommand('ord.mintRune', (target?: string | { rune: string }) =>
+      mintRune(context, target)
+    ),
+    vscode.commands.registerCommand('ord.copyOutpoint', (target?: { outpoint: string }) => copyOutpoint(target)),
+    vscode.commands.registerCommand('ord.openOutput', (target?: { outpoint: string }) => openOutput(target)),
+    vscode.commands.registerCommand('ord.freezeOutput', (target?: { outpoint: string }) =>
+      setOutputFrozen(target, true)
+    ),
+    vscode.commands.registerCommand('ord.unfreezeOutput', (target?: { outpoint: string }) =>
+      setOutputFrozen(target, false)
+    ),
+    vscode.commands.registerCommand('ord.openTransaction', (target?: { txid: string }) => openTransaction(target)),
     vscode.commands.registerCommand('ord.createWallet', () => createWallet(context)),
     vscode.commands.registerCommand('ord.getBalance', () => showBalance(context)),
     vscode.commands.registerCommand('ord.mineBlocks', () => mineBlocks(context)),
+    vscode.commands.registerCommand('ord.setAutoMine', () => setAutoMine()),
     vscode.commands.registerCommand('ord.openServer', () => openOrdServer()),
+    vscode.commands.registerCommand('ord.openPreview', () => openPreview()),
     vscode.commands.registerCommand('ord.downloadBinaries', () => downloadBinaries(context)),
     vscode.commands.registerCommand('ord.showOutput', () => showOutput()),
     vscode.commands.registerCommand('ord.statusBarMenu', () => showStatusBarMenu()),
-    vscode.commands.registerCommand('ord.openInscription', (inscriptionId: string) => {
-      const config = getConfig();
-      const url = `http://127.0.0.1:${config.ordServerPort}/inscription/${inscriptionId}`;
-      vscode.env.openExternal(vscode.Uri.parse(url));
-    }),
+    vscode.commands.registerCommand('ord.openInscription', (target: string | { inscriptionId: string }) =>
+      openInscription(target)
+    ),
     vscode.commands.registerCommand('ord.resetWallet', () => resetWallet(context)),
+    vscode.commands.registerCommand('ord.resetChain', () => resetChain(context)),
+    vscode.commands.registerCommand('ord.simulateReorg', () => simulateReorg(context)),
+    vscode.commands.registerCommand('ord.saveSnapshot', () => saveSnapshot(context)),
+    vscode.commands.registerCommand('ord.restoreSnapshot', (target?: { snapshotName: string }) =>
+      restoreSnapshot(context, target)
+    ),
+    vscode.commands.registerCommand('ord.deleteSnapshot', (target?: { snapshotName: string }) =>
+      deleteSnapshot(context, target)
+    ),
+    vscode.commands.registerCommand('ord.rebuildIndex', () => rebuildIndex(context)),
     vscode.commands.registerCommand('ord.createNamedWallet', () => createNamedWallet(context)),
-    vscode.commands.registerCommand('ord.switchWallet', () => switchWallet())
+    vscode.commands.registerCommand('ord.restoreWallet', () => restoreWallet(context)),
+    vscode.commands.registerCommand('ord.backupWallet', () => backupWallet(context)),
+    vscode.commands.registerCommand('ord.switchWallet', () => switchWallet()),
+    vscode.commands.registerCommand('ord.deleteWallet', () => deleteWallets()),
+    vscode.commands.registerCommand('ord.renameWallet', () => renameWallet()),
+    vscode.commands.registerCommand('ord.setFeeRate', () => setFeeRate())
   );
 
   // Check if binaries are installed
@@ -245,6 +343,9 @@ export async function activate(context: vscode.ExtensionContext): Promise<void>
     // Start periodic update checking
     startPeriodicUpdateCheck(context);
 
+    // Mines only once the services are running
+    startAutoMine(context);
+
     // Auto-start services if enabled
     if (config.autoStart) {
       startServices(context).catch((err) => {
@@ -260,6 +361,21 @@ export async function activate(context: vscode.ExtensionContext): Promise<void>
         stopPeriodicUpdateCheck();
         startPeriodicUpdateCheck(context);
       }
+      if (e.affectsConfiguration('ord.previewServerPort') && isPreviewServerRunning()) {
+        stopPreviewServer()
+          .then(() => startPreviewServer())
+          .catch((err) => log(`Preview server restart failed: ${err}`));
+      }
+      if (ORD_INDEX_SETTINGS.some((setting) => e.affectsConfiguration(setting))) {
+        promptIndexRebuild(context).catch((err) => log(`Index rebuild prompt failed: ${err}`));
+      }
+      if (e.affectsConfiguration('ord.network') || e.affectsConfiguration('ord.walletPerWorkspace')) {
+        validateCurrentWallet(context).catch((err) => log(`Wallet check failed: ${err}`));
+      }
+      if (e.affectsConfiguration('ord.autoMine') || e.affectsConfiguration('ord.autoMineInterval') || e.affectsConfiguration('ord.network')) {
+        startAutoMine(context);
+        updateStatusBar();
+      }
     })
   );
 
@@ -271,8 +387,15 @@ export async function deactivate(): Promise<void> {
 
   // Stop periodic update checking
   stopPeriodicUpdateCheck();
+  stopAutoMine();
 
   // Stop all services
+  try {
+    await stopPreviewServer();
+  } catch {
+    // Ignore errors during shutdown
+  }
+
   try {
     await stopOrdServer();
   } catch {
@@ -0,0 +1,127 @@
+import * as vscode from 'vscode';
+import { isBitcoindRunning } from './bitcoind';
+import { getOrdReceiveAddress, isOrdRunning } from './ord';
+import { generateToAddress, getAddressInfo, getMempoolInfo } from '../utils/rpc';
+import { AutoMineMode, getConfig } from '../utils/config';
+import { getCurrentWallet } from '../utils/walletState';
+import { log as sharedLog } from '../ui/outputChannel';
+import { refreshAllTrees } from '../ui/treeView';
+
+// How often the mempool is checked for pending transactions in "mempool" mode
+const MEMPOOL_POLL_MS = 2000;
+
+let timer: NodeJS.Timeout | null = null;
+let mining = false;
+let lastError = '';
+// Asking ord for a new address costs a process per block, so one is reused while the wallet owns it
+let miningAddress: { wallet: string; address: string } | null = null;
+
+function log(message: string): void {
+  sharedLog(`[auto-mine] ${message}`);
+}
+
+/**
+ * The configured mode, or 'off' on networks where blocks can't be mined
+ */
+export function getActiveAutoMineMode(): AutoMineMode {
+  const config = getConfig();
+  return config.network === 'regtest' ? config.autoMine : 'off';
+}
+
+export function describeAutoMineMode(mode: AutoMineMode, intervalSeconds: number): string {
+  switch (mode) {
+    case 'off':
+      return 'off';
+    case 'interval':
+      return `every ${intervalSeconds}s`;
+    case 'mempool':
+      return 'on mempool transactions';
+  }
+}
+
+/**
+ * A chain reset or snapshot restore recreates a wallet under the same name with other keys, and
+ * mining to an address nobody owns still succeeds, so the cached address is checked before reuse
+ */
+async function isMiningAddressCurrent(wallet: string): Promise<boolean> {
+  if (miningAddress?.wallet !== wallet) {
+    return false;
+  }
+  try {
+    return (await getAddressInfo(wallet, miningAddress.address)).ismine;
+  } catch {
+    return false;
+  }
+}
+
+async function getMiningAddress(context: vscode.ExtensionContext): Promise<string> {
+  const wallet = getCurrentWallet();
+  if (!miningAddress || !(await isMiningAddressCurrent(wallet))) {
+    miningAddress = { wallet, address: await getOrdReceiveAddress(context, wallet) };
+  }
+  return miningAddress.address;
+}
+
+async function mineBlock(context: vscode.ExtensionContext, mode: AutoMineMode): Promise<void> {
+  if (mode === 'mempool') {
+    const mempool = await getMempoolInfo();
+    if (mempool.size === 0) {
+      return;
+    }
+    log(`${mempool.size} transaction(s) pending`);
+  }
+
+  const [hash] = await generateToAddress(1, await getMiningAddress(context));
+  log(`Mined block ${hash}`);
+  refreshAllTrees();
+}
+
+async function tick(context: vscode.ExtensionContext, mode: AutoMineMode): Promise<void> {
+  // A slow ord call can outlast the interval; skip instead of piling up blocks
+  if (mining || !isBitcoindRunning() || !isOrdRunning()) {
+    return;
+  }
+
+  mining = true;
+  try {
+    await mineBlock(context, mode);
+    lastError = '';
+  } catch (e) {
+    miningAddress = null;
+    // Log a failure once rather than on every tick
+    const message = e instanceof Error ? e.message : String(e);
+    if (message !== lastError) {
+      log(`Could not mine a block: ${message}`);
+      lastError = message;
+    }
+  } finally {
+    mining = false;
+  }
+}
+
+/**
+ * Starts mining for the current settings, replacing a running schedule. Blocks are only
+ * mined while bitcoind and ord are running, so this can be called before the services start.
+ */
+export function startAutoMine(context: vscode.ExtensionContext): void {
+  stopAutoMine();
+
+  const mode = getActiveAutoMineMode();
+  if (mode === 'off') {
+    return;
+  }
+
+  const intervalSeconds = Math.max(1, getConfig().autoMineInterval);
+  const intervalMs = mode === 'interval' ? intervalSeconds * 1000 : MEMPOOL_POLL_MS;
+  timer = setInterval(() => void tick(context, mode), intervalMs);
+  log(`Enabled (${describeAutoMineMode(mode, intervalSeconds)})`);
+}
+
+export function stopAutoMine(): void {
+  miningAddress = null;
+  if (timer) {
+    clearInterval(timer);
+    timer = null;
+    log('Disabled');
+  }
+}
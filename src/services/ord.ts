@@ -1,12 +1,18 @@
 import * as vscode from 'vscode';
-import { spawn, ChildProcess, exec } from 'child_process';
+import { spawn, ChildProcess, exec, execFile } from 'child_process';
 import * as fs from 'fs';
 import * as path from 'path';
 import * as http from 'http';
-import { getOrdPath, getOrdDataDirectory, getPlatform, getDefaultDataDirectory } from '../utils/platform';
-import { getConfig, getOrdNetworkFlag } from '../utils/config';
+import { getOrdPath, getOrdDataDirectory, getPlatform, getDefaultDataDirectory, getNetworkSubdirectory } from '../utils/platform';
+import { getConfig, getOrdIndexFlags, getOrdNetworkFlag } from '../utils/config';
 import { log as sharedLog, logSection, logProcessOutput, logError, logWarn } from '../ui/outputChannel';
 import { getCurrentWallet } from '../utils/walletState';
+import { isCborMetadata } from '../utils/inscriptionMetadata';
+import { decodePsbt, generateToAddress } from '../utils/rpc';
+import { COMMIT_CONFIRMATIONS, formatRuneAmount, readMintedAmount } from '../utils/runes';
+import { SATS_PER_BTC } from '../utils/amount';
+import { getInscriptionPostage } from '../utils/psbt';
+import { parseSatRange, Rarity, SatRange } from '../utils/sats';
 
 let ordProcess: ChildProcess | null = null;
 
@@ -38,23 +44,14 @@ function getCookieFilePath(network: string): string {
  * Gets the network subdirectory for ord data
  */
 function getNetworkDir(dataDir: string, network: string): string {
-  switch (network) {
-    case 'regtest':
-      return path.join(dataDir, 'regtest');
-    case 'testnet':
-      return path.join(dataDir, 'testnet3');
-    case 'signet':
-      return path.join(dataDir, 'signet');
-    default:
-      return dataDir;
-  }
+  return path.join(dataDir, getNetworkSubdirectory(network));
 }
 
 /**
- * Clears the ord index files when a version mismatch is detected.
- * This is necessary when ord is updated and the old index format is incompatible.
+ * Clears the ord index files when a version mismatch is detected or the index settings change.
+ * This is necessary when the old index format or feature set is incompatible.
  */
-function clearOrdIndex(network: string): void {
+export function clearOrdIndex(network: string): void {
   const dataDir = getOrdDataDirectory();
   const networkDir = getNetworkDir(dataDir, network);
 
@@ -364,6 +361,7 @@ export async function startOrdServer(
   args.push(
     `--cookie-file=${cookieFile}`,
     `--data-dir=${dataDir}`,
+    ...getOrdIndexFlags(config),
     'server',
     `--http-port=${config.ordServerPort}`
   );
@@ -477,17 +475,321 @@ export async function stopOrdServer(): Promise<void> {
   });
 }
 
+/**
+ * Builds the arguments shared by every `ord wallet` subcommand.
+ */
+function buildWalletArgs(wallet: string): string[] {
+  const config = getConfig();
+  const networkFlag = getOrdNetworkFlag(config.network);
+  const args: string[] = [];
+
+  if (networkFlag) {
+    args.push(networkFlag);
+  }
+
+  // Use cookie-file authentication and server-url for wallet commands
+  args.push(
+    `--cookie-file=${getCookieFilePath(config.network)}`,
+    `--data-dir=${getOrdDataDirectory()}`,
+    'wallet',
+    `--name=${wallet}`,
+    `--server-url=http://127.0.0.1:${config.ordServerPort}`
+  );
+
+  return args;
+}
+
+interface OrdCommandOptions {
+  cwd?: string;
+  /** Written to ord's stdin, for secrets that must not appear in the process list */
+  input?: string;
+}
+
+// Arguments whose values are never written to the log
+const SECRET_ARGS = ['--passphrase'];
+
+/**
+ * Runs ord with the given arguments and resolves with its stdout.
+ * Arguments are passed without a shell, so file paths and free text are safe.
+ */
+function runOrdCommand(
+  context: vscode.ExtensionContext,
+  args: string[],
+  options: OrdCommandOptions = {}
+): Promise<string> {
+  const ordPath = getOrdPath(context);
+  const loggedArgs = args.map((arg, i) => (SECRET_ARGS.includes(args[i - 1]) ? '********' : arg));
+  log(`Command: ord ${loggedArgs.join(' ')}`);
+
+  return new Promise((resolve, reject) => {
+    const child = execFile(
+      ordPath,
+      args,
+      { cwd: options.cwd, maxBuffer: 32 * 1024 * 1024 },
+      (error, stdout, stderr) => {
+        if (error) {
+          log(`stderr: ${stderr}`);
+          reject(new Error((stderr || error.message).trim()));
+          return;
+        }
+        resolve(stdout);
+      }
+    );
+
+    if (options.input !== undefined) {
+      child.stdin?.end(options.input);
+    }
+  });
+}
+
+/**
+ * Runs an `ord wallet` subcommand for the given (or current) wallet and parses its JSON output.
+ */
+async function runOrdWalletCommand<T>(
+  context: vscode.ExtensionContext,
+  subcommand: string[],
+  walletName?: string,
+  options: OrdCommandOptions = {}
+): Promise<T> {
+  const wallet = walletName || getCurrentWallet();
+  const stdout = await runOrdCommand(context, [...buildWalletArgs(wallet), ...subcommand], options);
+
+  try {
+    return JSON.parse(stdout.trim()) as T;
+  } catch {
+    throw new Error(`Could not parse ord output: ${stdout}`);
+  }
+}
+
 export interface InscriptionResult {
   inscriptionId: string;
   revealTxid: string;
   totalFees: number;
 }
 
+export interface BatchInscriptionResult {
+  commitTxid: string;
+  revealTxid: string;
+  totalFees: number;
+  inscriptions: { id: string; location: string }[];
+  /** Spaced name of the etched rune, if the batch had an etching */
+  rune?: string;
+}
+
+/**
+ * Inscribes every entry of a batch manifest with `ord wallet batch`.
+ * Relative file paths in the manifest are resolved from the manifest's directory.
+ */
+export async function inscribeBatch(
+  context: vscode.ExtensionContext,
+  batchFilePath: string,
+  feeRate: number = 1,
+  walletName?: string
+): Promise<BatchInscriptionResult> {
+  log(`Inscribing batch: ${batchFilePath}`);
+
+  const result = await runOrdWalletCommand<{
+    commit: string;
+    reveal: string;
+    total_fees?: number;
+    inscriptions?: { id: string; location: string }[];
+    rune?: { rune: string } | null;
+  }>(
+    context,
+    ['batch', '--fee-rate', feeRate.toString(), '--batch', batchFilePath],
+    walletName,
+    { cwd: path.dirname(batchFilePath) }
+  );
+
+  log(`Batch output: ${JSON.stringify(result)}`);
+
+  return {
+    commitTxid: result.commit,
+    revealTxid: result.reveal,
+    totalFees: result.total_fees || 0,
+    inscriptions: (result.inscriptions || []).map((i) => ({ id: i.id, location: i.location })),
+    rune: result.rune?.rune,
+  };
+}
+
+// How often to mine a block while ord waits for a rune commitment to mature (regtest)
+const ETCHING_MINE_INTERVAL_MS = 2000;
+
+/**
+ * Runs a batch that etches a rune. ord waits for the commit transaction to mature before
+ * revealing, so when `mineToAddress` is given (regtest) a block is mined every few seconds
+ * until the batch finishes. Mining goes straight to bitcoind because the ord wallet is busy.
+ * If mining fails, ord is still awaited, since it reveals as soon as someone mines the rest.
+ */
+export async function inscribeEtchingBatch(
+  context: vscode.ExtensionContext,
+  batchFilePath: string,
+  feeRate: number = 1,
+  mineToAddress?: string,
+  onBlockMined?: (blocksMined: number) => void
+): Promise<BatchInscriptionResult> {
+  let finished = false;
+  const batch = inscribeBatch(context, batchFilePath, feeRate);
+  batch.then(
+    () => (finished = true),
+    () => (finished = true)
+  );
+
+  let miningError: string | undefined;
+  let blocksMined = 0;
+  if (mineToAddress) {
+    // Mine past maturity, then leave ord to finish; it only polls every few seconds
+    while (!finished && blocksMined < COMMIT_CONFIRMATIONS * 2) {
+      await new Promise((resolve) => setTimeout(resolve, ETCHING_MINE_INTERVAL_MS));
+      if (finished) {
+        break;
+      }
+      try {
+        await generateToAddress(1, mineToAddress);
+      } catch (e) {
+        // The commitment is already broadcast, so ord keeps waiting to reveal it; don't abandon it
+        miningError = e instanceof Error ? e.message : String(e);
+        log(`Mining for the rune commitment failed after ${blocksMined} block(s): ${miningError}`);
+        vscode.window.showWarningMessage(
+          `Mining for the rune commitment stopped after ${blocksMined} block(s). ord is still waiting to reveal the etching; mine the remaining blocks with "Ord: Mine Blocks".`
+        );
+        break;
+      }
+      blocksMined++;
+      log(`Mined block ${blocksMined} for rune commitment`);
+      onBlockMined?.(blocksMined);
+    }
+  }
+
+  try {
+    return await batch;
+  } catch (e) {
+    if (miningError === undefined) {
+      throw e;
+    }
+    const message = e instanceof Error ? e.message : String(e);
+    throw new Error(
+      `Mining for the rune commitment failed after ${blocksMined} block(s) (${miningError}); ord kept waiting and then failed as well: ${message}`
+    );
+  }
+}
+
+export interface InscribeOptions {
+  /** Inscription ID of the parent; the wallet must hold it */
+  parent?: string;
+  /** JSON or CBOR (.cbor) file to attach as inscription metadata */
+  metadataPath?: string;
+  metaprotocol?: string;
+  /** Sat to inscribe on; the wallet must hold it and ord must index sats */
+  sat?: number;
+  /** Satpoint (txid:vout:offset) to inscribe on */
+  satpoint?: string;
+}
+
+/**
+ * Builds the `inscribe` subcommand arguments for a file and its options
+ */
+function buildInscribeArgs(filePath: string, feeRate: number, options: InscribeOptions): string[] {
+  const args = ['inscribe', '--fee-rate', feeRate.toString(), '--file', filePath];
+
+  if (options.parent) {
+    args.push('--parent', options.parent);
+  }
+
+  if (options.metadataPath) {
+    // ord converts JSON metadata to CBOR itself
+    args.push(isCborMetadata(options.metadataPath) ? '--cbor-metadata' : '--json-metadata', options.metadataPath);
+  }
+
+  if (options.metaprotocol) {
+    args.push('--metaprotocol', options.metaprotocol);
+  }
+
+  if (options.sat !== undefined) {
+    args.push('--sat', options.sat.toString());
+  } else if (options.satpoint) {
+    args.push('--satpoint', options.satpoint);
+  }
+
+  return args;
+}
+
+export interface InscriptionCostEstimate {
+  feeRate: number;
+  totalFees: number;
+  commitFee?: number;
+  revealFee?: number;
+  /** Sizes of the PSBTs ord built, which don't include signatures yet */
+  commitVsize?: number;
+  revealVsize?: number;
+  /** Value of the outputs that will hold the inscriptions */
+  postage?: number;
+}
+
+/**
+ * Estimates the cost of an inscription with `ord wallet inscribe --dry-run`.
+ * Nothing is signed or broadcast. Sizes and the commit fee are read from the PSBTs ord built,
+ * and the postage from the reveal outputs the inscriptions land in.
+ */
+export async function estimateInscriptionCost(
+  context: vscode.ExtensionContext,
+  filePath: string,
+  feeRate: number,
+  walletName?: string,
+  options: InscribeOptions = {}
+): Promise<InscriptionCostEstimate> {
+  log(`Estimating inscription cost: ${filePath}`);
+
+  const result = await runOrdWalletCommand<{
+    total_fees?: number;
+    commit_psbt?: string | null;
+    reveal_psbt?: string | null;
+    inscriptions?: { id: string; location: string }[];
+  }>(context, [...buildInscribeArgs(filePath, feeRate, options), '--dry-run'], walletName);
+
+  const estimate: InscriptionCostEstimate = {
+    feeRate,
+    totalFees: result.total_fees || 0,
+  };
+
+  if (result.commit_psbt) {
+    try {
+      const decoded = await decodePsbt(result.commit_psbt);
+      estimate.commitVsize = decoded.tx.vsize;
+      if (decoded.fee !== undefined) {
+        estimate.commitFee = Math.round(decoded.fee * SATS_PER_BTC);
+        estimate.revealFee = Math.max(0, estimate.totalFees - estimate.commitFee);
+      }
+    } catch (e) {
+      log(`Could not decode commit PSBT: ${e}`);
+    }
+  }
+
+  if (result.reveal_psbt) {
+    try {
+      const decoded = await decodePsbt(result.reveal_psbt);
+      estimate.revealVsize = decoded.tx.vsize;
+      const locations = (result.inscriptions ?? []).map((inscription) => inscription.location);
+      if (locations.length > 0) {
+        estimate.postage = getInscriptionPostage(
+          locations,
+          decoded.tx.vout.map((output) => ({ n: output.n, sats: Math.round(output.value * SATS_PER_BTC) }))
+        );
+      }
+    } catch (e) {
+      log(`Could not decode reveal PSBT: ${e}`);
+    }
+  }
+
+  return estimate;
+}
+
 export async function inscribeFile(
   context: vscode.ExtensionContext,
   filePath: string,
   feeRate: number = 1,
   walletName?: string,
+  options: InscribeOptions = {},
   retryAfterClear = true
 ): Promise<InscriptionResult> {
   const ordPath = getOrdPath(context);
@@ -510,11 +812,7 @@ export async function inscribeFile(
     'wallet',
     `--name=${wallet}`,
     `--server-url=http://127.0.0.1:${config.ordServerPort}`,
-    'inscribe',
-    '--fee-rate',
-    feeRate.toString(),
-    '--file',
-    filePath
+    ...buildInscribeArgs(filePath, feeRate, options)
   );
 
   log(`Inscribing file: ${filePath}`);
@@ -537,7 +835,7 @@ export async function inscribeFile(
           // Recreate wallet first
           try {
             await createOrdWallet(context, undefined, false);
-            const result = await inscribeFile(context, filePath, feeRate, undefined, false);
+            const result = await inscribeFile(context, filePath, feeRate, undefined, options, false);
             resolve(result);
           } catch (retryError) {
             reject(retryError);
@@ -601,11 +899,302 @@ export async function inscribeFile(
   });
 }
 
+export interface WalletInscription {
+  id: string;
+  location: string;
+  postage: number;
+}
+
+/**
+ * Lists the inscriptions held by the given (or current) wallet according to the ord index
+ */
+export async function getWalletInscriptions(
+  context: vscode.ExtensionContext,
+  walletName?: string
+): Promise<WalletInscription[]> {
+  const result = await runOrdWalletCommand<
+    { inscription: string; location: string; postage?: number }[]
+  >(context, ['inscriptions'], walletName);
+
+  return result.map((i) => ({
+    id: i.inscription,
+    location: i.location,
+    postage: i.postage || 0,
+  }));
+}
+
+export interface WalletOutput {
+  /** Outpoint as txid:vout */
+  output: string;
+  /** Value in sats */
+  amount: number;
+  inscriptions: string[];
+  /** Rune balances as decimal strings */
+  runes: Record<string, string>;
+}
+
+/**
+ * Lists the wallet's outputs with `ord wallet outputs`, including what ord indexed on them
+ */
+export async function getWalletOutputs(
+  context: vscode.ExtensionContext,
+  walletName?: string
+): Promise<WalletOutput[]> {
+  const result = await runOrdWalletCommand<
+    {
+      output: string;
+      amount: number;
+      inscriptions?: string[] | null;
+      runes?: Record<string, string | number> | null;
+    }[]
+  >(context, ['outputs'], walletName);
+
+  return result.map((entry) => ({
+    output: entry.output,
+    amount: entry.amount,
+    inscriptions: entry.inscriptions ?? [],
+    runes: Object.fromEntries(Object.entries(entry.runes ?? {}).map(([rune, amount]) => [rune, String(amount)])),
+  }));
+}
+
+export interface OrdWalletTransaction {
+  transaction: string;
+  confirmations: number;
+}
+
+/**
+ * Lists the wallet's most recent transactions with `ord wallet transactions`
+ */
+export async function getWalletTransactions(
+  context: vscode.ExtensionContext,
+  limit: number,
+  walletName?: string
+): Promise<OrdWalletTransaction[]> {
+  return runOrdWalletCommand<OrdWalletTransaction[]>(
+    context,
+    ['transactions', '--limit', limit.toString()],
+    walletName
+  );
+}
+
+export interface RareSat {
+  sat: number;
+  /** Outpoint holding the sat */
+  output: string;
+  offset: number;
+  rarity: Rarity;
+}
+
+export interface OutputSatRanges {
+  output: string;
+  ranges: SatRange[];
+}
+
+/**
+ * Lists the wallet's uncommon and rarer sats with `ord wallet sats` (needs --index-sats)
+ */
+export async function getWalletRareSats(
+  context: vscode.ExtensionContext,
+  walletName?: string
+): Promise<RareSat[]> {
+  return runOrdWalletCommand<RareSat[]>(context, ['sats'], walletName);
+}
+
+/**
+ * Lists every sat range in the wallet's outputs with `ord wallet sats --all` (needs --index-sats)
+ */
+export async function getWalletSatRanges(
+  context: vscode.ExtensionContext,
+  walletName?: string
+): Promise<OutputSatRanges[]> {
+  const result = await runOrdWalletCommand<{ output: string; ranges: string[] }[]>(
+    context,
+    ['sats', '--all'],
+    walletName
+  );
+
+  return result.map(({ output, ranges }) => ({
+    output,
+    ranges: ranges.map(parseSatRange).filter((range): range is SatRange => range !== undefined),
+  }));
+}
+
+export interface MintResult {
+  rune: string;
+  /** Minted amount as a decimal string */
+  amount: string;
+  txid: string;
+}
+
+/**
+ * Mints a rune with open mint terms using `ord wallet mint`
+ */
+export async function ordWalletMint(
+  context: vscode.ExtensionContext,
+  rune: string,
+  feeRate: number = 1,
+  walletName?: string
+): Promise<MintResult> {
+  log(`Minting rune ${rune}`);
+
+  const stdout = await runOrdCommand(context, [
+    ...buildWalletArgs(walletName || getCurrentWallet()),
+    'mint',
+    '--fee-rate',
+    feeRate.toString(),
+    '--rune',
+    rune,
+  ]);
+  log(`Mint output: ${stdout.trim()}`);
+
+  let result: { rune: string; pile: { divisibility: number }; mint: string };
+  try {
+    result = JSON.parse(stdout.trim());
+  } catch {
+    throw new Error(`Could not parse ord output: ${stdout}`);
+  }
+  const amount = readMintedAmount(stdout);
+  if (amount === undefined) {
+    throw new Error(`Could not read the minted amount from ord output: ${stdout}`);
+  }
+
+  return {
+    rune: result.rune,
+    amount: formatRuneAmount(amount, result.pile.divisibility),
+    txid: result.mint,
+  };
+}
+
+export interface SendResult {
+  txid: string;
+  fee: number;
+}
+
+/**
+ * Sends an inscription, sat, rune amount or bitcoin amount with `ord wallet send`.
+ * `outgoing` is anything ord accepts: an inscription ID, a satpoint, "<amount> btc" or "<amount>:<RUNE>".
+ */
+export async function ordWalletSend(
+  context: vscode.ExtensionContext,
+  address: string,
+  outgoing: string,
+  feeRate: number = 1,
+  walletName?: string
+): Promise<SendResult> {
+  log(`Sending ${outgoing} to ${address}`);
+
+  const result = await runOrdWalletCommand<{ txid: string; fee?: number }>(
+    context,
+    ['send', '--fee-rate', feeRate.toString(), address, outgoing],
+    walletName
+  );
+
+  log(`Send output: ${JSON.stringify(result)}`);
+
+  return { txid: result.txid, fee: result.fee || 0 };
+}
+
+export interface OfferResult {
+  /** Base64 PSBT signed by the buyer, to hand to the seller */
+  psbt: string;
+  seller_address: string;
+  inscription: string;
+}
+
+/**
+ * Creates a buy offer for an inscription held by another wallet with `ord wallet offer create`.
+ * Nothing is broadcast: the buyer's inputs are signed and the PSBT goes to the seller.
+ */
+export async function ordWalletCreateOffer(
+  context: vscode.ExtensionContext,
+  inscriptionId: string,
+  amountSats: number,
+  feeRate: number,
+  walletName?: string
+): Promise<OfferResult> {
+  log(`Creating offer of ${amountSats} sats for ${inscriptionId}`);
+  return runOrdWalletCommand<OfferResult>(
+    context,
+    ['offer', 'create', '--inscription', inscriptionId, '--amount', `${amountSats} sat`, '--fee-rate', feeRate.toString()],
+    walletName
+  );
+}
+
+/**
+ * Accepts a buy offer with `ord wallet offer accept`. ord checks that the PSBT pays the amount
+ * for the inscription, then signs the seller's input and broadcasts the transaction.
+ */
+export async function ordWalletAcceptOffer(
+  context: vscode.ExtensionContext,
+  inscriptionId: string,
+  amountSats: number,
+  psbt: string,
+  walletName?: string
+): Promise<{ txid: string }> {
+  log(`Accepting offer of ${amountSats} sats for ${inscriptionId}`);
+  return runOrdWalletCommand<{ txid: string }>(
+    context,
+    ['offer', 'accept', '--inscription', inscriptionId, '--amount', `${amountSats} sat`, '--psbt', psbt],
+    walletName
+  );
+}
+
+export interface SignedMessage {
+  /** Address whose key made the signature */
+  address: string;
+  /** Base64-encoded BIP-322 simple signature */
+  witness: string;
+}
+
+/**
+ * Signs a message with `ord wallet sign`. The signer is a wallet address, an output, or an
+ * inscription ID, in which case the key of the address holding the inscription signs.
+ */
+export async function ordWalletSign(
+  context: vscode.ExtensionContext,
+  signer: string,
+  message: string,
+  walletName?: string
+): Promise<SignedMessage> {
+  // `--flag=value` keeps messages that start with a dash from being read as options
+  return runOrdWalletCommand<SignedMessage>(context, ['sign', `--signer=${signer}`, `--text=${message}`], walletName);
+}
+
+/**
+ * Checks a BIP-322 signature with `ord verify`, which exits with an error when it doesn't match
+ */
+export async function ordVerify(
+  context: vscode.ExtensionContext,
+  address: string,
+  message: string,
+  witness: string
+): Promise<void> {
+  const networkFlag = getOrdNetworkFlag(getConfig().network);
+  await runOrdCommand(context, [
+    ...(networkFlag ? [networkFlag] : []),
+    'verify',
+    `--address=${address}`,
+    `--text=${message}`,
+    `--witness=${witness}`,
+  ]);
+}
+
+/**
+ * Lists the addresses of the given (or current) wallet that hold outputs, with `ord wallet addresses`
+ */
+export async function getWalletAddresses(context: vscode.ExtensionContext, walletName?: string): Promise<string[]> {
+  const result = await runOrdWalletCommand<Record<string, unknown[]>>(context, ['addresses'], walletName);
+  return Object.keys(result);
+}
+
+/**
+ * Creates an ord wallet and resolves with its mnemonic, or undefined if the wallet already existed
+ */
 export async function createOrdWallet(
   context: vscode.ExtensionContext,
   walletName?: string,
   retryAfterClear = true
-): Promise<void> {
+): Promise<string | undefined> {
   const ordPath = getOrdPath(context);
   const config = getConfig();
   const networkFlag = getOrdNetworkFlag(config.network);
@@ -637,7 +1226,7 @@ export async function createOrdWallet(
         // Wallet might already exist
         if (stderr.includes('already exists') || stdout.includes('already exists')) {
           log('Wallet already exists');
-          resolve();
+          resolve(undefined);
           return;
         }
 
@@ -649,8 +1238,7 @@ export async function createOrdWallet(
           );
           clearAllOrdData(config.network);
           try {
-            await createOrdWallet(context, wallet, false);
-            resolve();
+            resolve(await createOrdWallet(context, wallet, false));
           } catch (retryError) {
             reject(retryError);
           }
@@ -662,12 +1250,48 @@ export async function createOrdWallet(
         return;
       }
 
-      log(`Wallet created: ${stdout}`);
-      resolve();
+      // stdout holds the mnemonic, so it is not logged
+      log(`Wallet "${wallet}" created`);
+      try {
+        resolve((JSON.parse(stdout.trim()) as { mnemonic?: string }).mnemonic);
+      } catch {
+        resolve(undefined);
+      }
     });
   });
 }
 
+export type WalletRestoreSource =
+  | { from: 'mnemonic'; mnemonic: string; passphrase?: string }
+  | { from: 'descriptor'; descriptors: string };
+
+/**
+ * Restores a wallet with `ord wallet restore`. The mnemonic or descriptors go through stdin.
+ */
+export async function restoreOrdWallet(
+  context: vscode.ExtensionContext,
+  walletName: string,
+  source: WalletRestoreSource
+): Promise<void> {
+  const args = ['restore', '--from', source.from];
+  if (source.from === 'mnemonic' && source.passphrase) {
+    args.push('--passphrase', source.passphrase);
+  }
+
+  log(`Restoring ord wallet "${walletName}" from ${source.from}...`);
+  await runOrdCommand(context, [...buildWalletArgs(walletName), ...args], {
+    input: source.from === 'mnemonic' ? source.mnemonic : source.descriptors,
+  });
+  log(`Wallet "${walletName}" restored`);
+}
+
+/**
+ * Exports the wallet's descriptors, including private keys, with `ord wallet dump`
+ */
+export async function dumpOrdWallet(context: vscode.ExtensionContext, walletName?: string): Promise<string> {
+  return runOrdCommand(context, [...buildWalletArgs(walletName || getCurrentWallet()), 'dump']);
+}
+
 export async function getOrdReceiveAddress(
   context: vscode.ExtensionContext,
   walletName?: string,
@@ -749,15 +1373,21 @@ export async function getOrdReceiveAddress(
   });
 }
 
+export interface OrdBalance {
+  cardinal: number;
+  ordinal: number;
+  /** Sats in outputs holding runes */
+  runic: number;
+  /** Rune balances by spaced rune name, as decimal strings */
+  runes: Record<string, string>;
+  total: number;
+}
+
 export async function getOrdBalance(
   context: vscode.ExtensionContext,
   walletName?: string,
   retryAfterClear = true
-): Promise<{
-  cardinal: number;
-  ordinal: number;
-  total: number;
-}> {
+): Promise<OrdBalance> {
   const ordPath = getOrdPath(context);
   const config = getConfig();
   const networkFlag = getOrdNetworkFlag(config.network);
@@ -812,13 +1442,15 @@ export async function getOrdBalance(
         resolve({
           cardinal: result.cardinal || 0,
           ordinal: result.ordinal || 0,
-          total: result.total || (result.cardinal || 0) + (result.ordinal || 0),
+          runic: result.runic || 0,
+          runes: result.runes || {},
+          total: result.total || (result.cardinal || 0) + (result.ordinal || 0) + (result.runic || 0),
         });
       } catch {
         // Parse from plain text
         const match = stdout.match(/(\d+)/);
         const total = match ? parseInt(match[1], 10) : 0;
-        resolve({ cardinal: total, ordinal: 0, total });
+        resolve({ cardinal: total, ordinal: 0, runic: 0, runes: {}, total });
       }
     });
   });
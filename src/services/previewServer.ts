@@ -0,0 +1,229 @@
+import * as vscode from 'vscode';
+import * as http from 'http';
+import * as fs from 'fs';
+import * as path from 'path';
+import { getConfig } from '../utils/config';
+import { getContentType } from '../utils/contentType';
+import { log as sharedLog, logSection } from '../ui/outputChannel';
+
+let previewServer: http.Server | null = null;
+
+function log(message: string): void {
+  sharedLog(`[preview] ${message}`);
+}
+
+type PreviewRoute =
+  | { kind: 'active' }
+  | { kind: 'content'; id: string }
+  | { kind: 'inscriptionJson'; id: string }
+  | { kind: 'proxy' };
+
+const INSCRIPTION_ID = '([a-f0-9]{64}i\\d+)';
+
+/**
+ * Maps a request path to what the preview server should do with it.
+ * Anything not handled locally falls through to the real ord server.
+ */
+function resolvePreviewRoute(urlPath: string): PreviewRoute {
+  if (urlPath === '/' || urlPath === '/preview') {
+    return { kind: 'active' };
+  }
+
+  const content = urlPath.match(new RegExp(`^/(?:content|preview|r/undelegated-content)/${INSCRIPTION_ID}$`));
+  if (content) {
+    return { kind: 'content', id: content[1] };
+  }
+
+  const inscription = urlPath.match(new RegExp(`^/r/inscription/${INSCRIPTION_ID}$`));
+  if (inscription) {
+    return { kind: 'inscriptionJson', id: inscription[1] };
+  }
+
+  return { kind: 'proxy' };
+}
+
+/**
+ * Reads the workspace mapping file (inscription ID -> local path).
+ * Paths are relative to the mapping file. Re-read on every request so edits apply immediately.
+ */
+function readPreviewMapping(): Map<string, string> {
+  const mapping = new Map<string, string>();
+  const folder = vscode.workspace.workspaceFolders?.[0];
+  if (!folder) {
+    return mapping;
+  }
+
+  const config = getConfig();
+  const mappingPath = path.resolve(folder.uri.fsPath, config.previewMappingFile);
+  if (!fs.existsSync(mappingPath)) {
+    return mapping;
+  }
+
+  try {
+    const entries = JSON.parse(fs.readFileSync(mappingPath, 'utf-8')) as Record<string, unknown>;
+    for (const [id, localPath] of Object.entries(entries)) {
+      if (typeof localPath !== 'string') {
+        log(`Ignoring mapping for ${id} in ${mappingPath}: the path must be a string`);
+        continue;
+      }
+      mapping.set(id, path.resolve(path.dirname(mappingPath), localPath));
+    }
+  } catch (e) {
+    log(`Could not read mapping file ${mappingPath}: ${e}`);
+  }
+
+  return mapping;
+}
+
+function isFile(filePath: string): boolean {
+  try {
+    return fs.statSync(filePath).isFile();
+  } catch {
+    return false;
+  }
+}
+
+function sendFile(res: http.ServerResponse, filePath: string): void {
+  if (!isFile(filePath)) {
+    res.writeHead(404, { 'Content-Type': 'text/plain' });
+    res.end(`Mapped file not found: ${filePath}`);
+    return;
+  }
+
+  // Headers go out only once the file opened, so a read error can still become a 500
+  const stream = fs.createReadStream(filePath);
+  stream.on('open', () => {
+    res.writeHead(200, { 'Content-Type': getContentType(filePath), 'Cache-Control': 'no-store' });
+    stream.pipe(res);
+  });
+  stream.on('error', (err) => {
+    log(`Could not read mapped file ${filePath}: ${err.message}`);
+    if (res.headersSent) {
+      res.destroy();
+      return;
+    }
+    res.writeHead(500, { 'Content-Type': 'text/plain' });
+    res.end(`Could not read mapped file: ${filePath}`);
+  });
+}
+
+function sendActiveFile(res: http.ServerResponse): void {
+  const document = vscode.window.activeTextEditor?.document;
+  if (!document || document.uri.scheme !== 'file') {
+    res.writeHead(404, { 'Content-Type': 'text/plain' });
+    res.end('No active file to preview. Open the file you want to preview in the editor.');
+    return;
+  }
+
+  // Serve the editor contents so unsaved changes show up too
+  res.writeHead(200, { 'Content-Type': getContentType(document.uri.fsPath), 'Cache-Control': 'no-store' });
+  res.end(document.getText());
+}
+
+function proxyToOrd(req: http.IncomingMessage, res: http.ServerResponse): void {
+  const config = getConfig();
+  const upstream = http.request(
+    {
+      hostname: '127.0.0.1',
+      port: config.ordServerPort,
+      path: req.url,
+      method: req.method,
+      headers: { ...req.headers, host: `127.0.0.1:${config.ordServerPort}` },
+    },
+    (upstreamRes) => {
+      res.writeHead(upstreamRes.statusCode || 502, upstreamRes.headers);
+      upstreamRes.pipe(res);
+    }
+  );
+
+  upstream.on('error', (err) => {
+    res.writeHead(502, { 'Content-Type': 'text/plain' });
+    res.end(`ord server unavailable: ${err.message}`);
+  });
+
+  req.pipe(upstream);
+}
+
+function handleRequest(req: http.IncomingMessage, res: http.ServerResponse): void {
+  const urlPath = (req.url || '/').split('?')[0];
+  const route = resolvePreviewRoute(urlPath);
+
+  if (route.kind === 'active') {
+    sendActiveFile(res);
+    return;
+  }
+
+  if (route.kind === 'content' || route.kind === 'inscriptionJson') {
+    const localPath = readPreviewMapping().get(route.id);
+    if (localPath) {
+      if (route.kind === 'content') {
+        sendFile(res, localPath);
+      } else {
+        const size = fs.existsSync(localPath) ? fs.statSync(localPath).size : 0;
+        res.writeHead(200, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({
+          id: route.id,
+          content_type: getContentType(localPath),
+          content_length: size,
+        }));
+      }
+      return;
+    }
+  }
+
+  proxyToOrd(req, res);
+}
+
+export function isPreviewServerRunning(): boolean {
+  return previewServer !== null;
+}
+
+export function getPreviewUrl(): string {
+  const config = getConfig();
+  return `http://127.0.0.1:${config.previewServerPort}/preview`;
+}
+
+/**
+ * Starts the local recursive-inscription preview server.
+ * Does nothing if the preview port is set to 0.
+ */
+export async function startPreviewServer(): Promise<void> {
+  if (previewServer) {
+    log('Preview server is already running');
+    return;
+  }
+
+  const config = getConfig();
+  if (config.previewServerPort <= 0) {
+    log('Preview server is disabled');
+    return;
+  }
+
+  logSection('Starting Preview Server');
+
+  const server = http.createServer(handleRequest);
+  await new Promise<void>((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(config.previewServerPort, '127.0.0.1', () => {
+      server.off('error', reject);
+      resolve();
+    });
+  });
+
+  previewServer = server;
+  log(`Preview server listening at ${getPreviewUrl()}`);
+}
+
+export async function stopPreviewServer(): Promise<void> {
+  const server = previewServer;
+  if (!server) {
+    return;
+  }
+
+  previewServer = null;
+  await new Promise<void>((resolve) => {
+    server.close(() => resolve());
+    server.closeAllConnections();
+  });
+  log('Preview server stopped');
+}
@@ -0,0 +1,135 @@
+import * as vscode from 'vscode';
+import { isBitcoindRunning } from '../services/bitcoind';
+import { estimateSmartFee } from '../utils/rpc';
+import { getConfig } from '../utils/config';
+import {
+  FEE_PRESETS,
+  MIN_FEE_RATE,
+  btcPerKvbToSatPerVb,
+  estimateInscriptionFee,
+  getDefaultFeeRate,
+  setDefaultFeeRate,
+} from '../utils/feeRate';
+import { log } from './outputChannel';
+
+interface FeeQuickPickItem extends vscode.QuickPickItem {
+  feeRate?: number;
+  custom?: boolean;
+}
+
+export interface FeePickerOptions {
+  title?: string;
+  /** Size of the content being inscribed, used to show an estimated total fee */
+  contentBytes?: number;
+}
+
+function describeFee(feeRate: number, contentBytes?: number): string {
+  if (contentBytes === undefined) {
+    return `${feeRate} sat/vB`;
+  }
+  return `${feeRate} sat/vB • est. total ≈ ${estimateInscriptionFee(contentBytes, feeRate).toLocaleString()} sats`;
+}
+
+async function promptCustomFeeRate(initial?: number): Promise<number | undefined> {
+  const input = await vscode.window.showInputBox({
+    prompt: 'Fee rate in sat/vB',
+    value: initial !== undefined ? initial.toString() : '',
+    validateInput: (value) => {
+      const num = parseFloat(value);
+      if (isNaN(num) || num < MIN_FEE_RATE) {
+        return `Please enter a fee rate of at least ${MIN_FEE_RATE} sat/vB`;
+      }
+      return null;
+    },
+  });
+
+  return input ? parseFloat(input) : undefined;
+}
+
+/**
+ * Shows a fee picker with presets from bitcoind's estimatesmartfee, the remembered
+ * rate for the current network, and a custom input. The chosen rate is remembered.
+ */
+export async function pickFeeRate(options: FeePickerOptions = {}): Promise<number | undefined> {
+  const config = getConfig();
+  const remembered = getDefaultFeeRate(config.network);
+  const items: FeeQuickPickItem[] = [];
+
+  if (remembered !== undefined) {
+    items.push({
+      label: '$(history) Last Used',
+      description: describeFee(remembered, options.contentBytes),
+      feeRate: remembered,
+    });
+  }
+
+  for (const preset of FEE_PRESETS) {
+    let feeRate: number | undefined;
+    if (isBitcoindRunning()) {
+      try {
+        const estimate = await estimateSmartFee(preset.confTarget, preset.mode);
+        if (estimate.feerate !== undefined) {
+          feeRate = btcPerKvbToSatPerVb(estimate.feerate);
+        }
+      } catch (e) {
+        log(`Fee estimate for ${preset.label} failed: ${e}`);
+      }
+    }
+
+    // Without an estimate a preset would only guess; leave it to a custom rate instead
+    if (feeRate === undefined) {
+      continue;
+    }
+    items.push({
+      label: `$(dashboard) ${preset.label}`,
+      description: describeFee(feeRate, options.contentBytes),
+      detail: `Confirm within ~${preset.confTarget} block(s)`,
+      feeRate,
+    });
+  }
+
+  items.push({
+    label: '$(edit) Custom...',
+    description: 'Enter a fee rate in sat/vB',
+    custom: true,
+  });
+
+  const selected = await vscode.window.showQuickPick(items, {
+    title: options.title || `Fee Rate [${config.network}]`,
+    placeHolder: 'Select a fee rate',
+  });
+
+  if (!selected) {
+    return undefined;
+  }
+
+  const feeRate = selected.custom ? await promptCustomFeeRate(remembered) : selected.feeRate;
+  if (feeRate === undefined) {
+    return undefined;
+  }
+
+  await setDefaultFeeRate(config.network, feeRate);
+  return feeRate;
+}
+
+/**
+ * Resolves the fee rate for a transaction: regtest uses the remembered rate without
+ * prompting (fees are free there), every other network shows the picker.
+ */
+export async function resolveFeeRate(options: FeePickerOptions = {}): Promise<number | undefined> {
+  const config = getConfig();
+  if (config.network === 'regtest') {
+    return getDefaultFeeRate(config.network) ?? MIN_FEE_RATE;
+  }
+  return pickFeeRate(options);
+}
+
+/**
+ * Command handler to change the remembered fee rate for the current network
+ */
+export async function setFeeRate(): Promise<void> {
+  const feeRate = await pickFeeRate({ title: 'Set Default Fee Rate' });
+  if (feeRate !== undefined) {
+    vscode.window.showInformationMessage(`Default fee rate for ${getConfig().network} set to ${feeRate} sat/vB`);
+  }
+}
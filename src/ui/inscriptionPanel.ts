@@ -0,0 +1,205 @@
+import * as vscode from 'vscode';
+import { isOrdRunning } from '../services/ord';
+import { getConfig } from '../utils/config';
+import { getInscriptionInfo, getInscriptionText, getOrdServerUrl, InscriptionInfo } from '../utils/ordApi';
+import { showWarningWithAction } from '../utils/errorHelper';
+import { log } from './outputChannel';
+
+type PreviewKind = 'image' | 'html' | 'text' | 'audio' | 'video' | 'other';
+
+// Text inscriptions larger than this are shown through the ord preview iframe instead of inline
+const MAX_INLINE_TEXT_BYTES = 256 * 1024;
+
+let panel: vscode.WebviewPanel | null = null;
+
+/**
+ * Decides how an inscription is rendered, based on its content type
+ */
+function getPreviewKind(contentType: string | null): PreviewKind {
+  const type = (contentType || '').split(';')[0].trim().toLowerCase();
+
+  if (type.startsWith('image/')) {
+    return 'image';
+  }
+  if (type === 'text/html') {
+    return 'html';
+  }
+  if (type.startsWith('audio/')) {
+    return 'audio';
+  }
+  if (type.startsWith('video/')) {
+    return 'video';
+  }
+  if (type.startsWith('text/') || type === 'application/json' || type === 'application/javascript') {
+    return 'text';
+  }
+  return 'other';
+}
+
+export function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+function renderContent(info: InscriptionInfo, baseUrl: string, text?: string): string {
+  const contentUrl = `${baseUrl}/content/${info.id}`;
+  const previewUrl = `${baseUrl}/preview/${info.id}`;
+
+  switch (getPreviewKind(info.effective_content_type ?? info.content_type)) {
+    case 'image':
+      return `<img class="content" src="${contentUrl}" alt="Inscription ${info.number}">`;
+    case 'audio':
+      return `<audio controls src="${contentUrl}"></audio>`;
+    case 'video':
+      return `<video class="content" controls src="${contentUrl}"></video>`;
+    case 'text':
+      if (text !== undefined) {
+        return `<pre class="text">${escapeHtml(text)}</pre>`;
+      }
+      break;
+  }
+
+  // HTML and anything else goes through ord's own preview page in a sandboxed iframe
+  return `<iframe class="content" sandbox="allow-scripts" src="${previewUrl}"></iframe>`;
+}
+
+function renderDetails(info: InscriptionInfo, baseUrl: string): string {
+  const rows: [string, string][] = [
+    ['ID', `<code>${escapeHtml(info.id)}</code>`],
+    ['Number', info.number.toLocaleString()],
+    ['Sat', info.sat !== null ? `<a href="${baseUrl}/sat/${info.sat}">${info.sat}</a>` : 'Not indexed'],
+    ['Content Type', escapeHtml(info.content_type || 'none')],
+    ['Size', info.content_length !== null ? `${info.content_length.toLocaleString()} bytes` : 'none'],
+    ['Genesis Height', `<a href="${baseUrl}/block/${info.height}">${info.height}</a>`],
+    ['Genesis Fee', `${info.fee.toLocaleString()} sats`],
+    ['Owner', info.address ? `<code>${escapeHtml(info.address)}</code>` : 'Unknown'],
+    ['Location', `<code>${escapeHtml(info.satpoint)}</code>`],
+  ];
+
+  if (info.parents && info.parents.length > 0) {
+    rows.push(['Parents', info.parents.map((id) => `<code>${escapeHtml(id)}</code>`).join('<br>')]);
+  }
+  if (info.metaprotocol) {
+    rows.push(['Metaprotocol', escapeHtml(info.metaprotocol)]);
+  }
+
+  return rows.map(([label, value]) => `<tr><th>${label}</th><td>${value}</td></tr>`).join('\n');
+}
+
+function renderPanel(info: InscriptionInfo, baseUrl: string, text?: string): string {
+  const csp = [
+    "default-src 'none'",
+    `img-src ${baseUrl} data:`,
+    `media-src ${baseUrl}`,
+    `frame-src ${baseUrl}`,
+    "style-src 'unsafe-inline'",
+  ].join('; ');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <meta http-equiv="Content-Security-Policy" content="${csp}">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>Inscription ${info.number}</title>
+  <style>
+    body { display: flex; flex-wrap: wrap; gap: 24px; padding: 16px; font-family: var(--vscode-font-family); color: var(--vscode-foreground); }
+    .preview { flex: 1 1 360px; min-width: 0; }
+    .details { flex: 1 1 320px; min-width: 0; }
+    .content { width: 100%; max-height: 70vh; border: 1px solid var(--vscode-panel-border); image-rendering: pixelated; }
+    iframe.content { height: 70vh; background: #fff; }
+    img.content { object-fit: contain; }
+    .text { white-space: pre-wrap; word-break: break-word; max-height: 70vh; overflow: auto; padding: 8px; background: var(--vscode-textCodeBlock-background); }
+    table { border-collapse: collapse; width: 100%; }
+    th { text-align: left; padding: 4px 12px 4px 0; vertical-align: top; white-space: nowrap; color: var(--vscode-descriptionForeground); }
+    td { padding: 4px 0; word-break: break-all; }
+    a { color: var(--vscode-textLink-foreground); }
+  </style>
+</head>
+<body>
+  <div class="preview">
+    ${renderContent(info, baseUrl, text)}
+  </div>
+  <div class="details">
+    <h2>Inscription ${info.number.toLocaleString()}</h2>
+    <table>
+      ${renderDetails(info, baseUrl)}
+    </table>
+    <p><a href="${baseUrl}/inscription/${info.id}">Open in Browser</a></p>
+  </div>
+</body>
+</html>`;
+}
+
+function getPanel(): vscode.WebviewPanel {
+  if (panel) {
+    panel.reveal(vscode.ViewColumn.Active);
+    return panel;
+  }
+
+  const config = getConfig();
+  panel = vscode.window.createWebviewPanel(
+    'ordInscription',
+    'Inscription',
+    vscode.ViewColumn.Active,
+    {
+      enableScripts: false,
+      // Lets the panel load content from the local ord server in remote workspaces too
+      portMapping: [{ webviewPort: config.ordServerPort, extensionHostPort: config.ordServerPort }],
+    }
+  );
+  panel.onDidDispose(() => {
+    panel = null;
+  });
+
+  return panel;
+}
+
+/**
+ * Shows an inscription's content and details from the ord server in a webview panel.
+ * Accepts an inscription ID or a tree item carrying one.
+ */
+export async function openInscription(target: string | { inscriptionId?: string }): Promise<void> {
+  const inscriptionId = typeof target === 'string' ? target : target?.inscriptionId;
+  if (!inscriptionId) {
+    return;
+  }
+
+  if (!isOrdRunning()) {
+    await showWarningWithAction('Ord server is not running.', 'Start Services', 'ord.start');
+    return;
+  }
+
+  let info: InscriptionInfo;
+  try {
+    info = await getInscriptionInfo(inscriptionId);
+  } catch (error) {
+    log(`Failed to load inscription ${inscriptionId}: ${error}`);
+    const result = await vscode.window.showErrorMessage(
+      `Could not load inscription details: ${error instanceof Error ? error.message : error}`,
+      'Open in Browser'
+    );
+    if (result === 'Open in Browser') {
+      vscode.env.openExternal(vscode.Uri.parse(`${getOrdServerUrl()}/inscription/${inscriptionId}`));
+    }
+    return;
+  }
+
+  let text: string | undefined;
+  const kind = getPreviewKind(info.effective_content_type ?? info.content_type);
+  if (kind === 'text' && (info.content_length ?? 0) <= MAX_INLINE_TEXT_BYTES) {
+    try {
+      text = await getInscriptionText(inscriptionId);
+    } catch (error) {
+      log(`Failed to load content for ${inscriptionId}, falling back to preview: ${error}`);
+    }
+  }
+
+  const webviewPanel = getPanel();
+  webviewPanel.title = `Inscription ${info.number}`;
+  webviewPanel.webview.html = renderPanel(info, getOrdServerUrl(), text);
+}
@@ -0,0 +1,141 @@
+import * as vscode from 'vscode';
+import * as crypto from 'crypto';
+import { formatBtc } from '../utils/amount';
+import { PsbtSummary } from '../utils/psbt';
+import { escapeHtml } from './inscriptionPanel';
+
+let panel: vscode.WebviewPanel | null = null;
+let shownPsbt = '';
+
+function code(value: string): string {
+  return `<code>${escapeHtml(value)}</code>`;
+}
+
+function renderInscriptions(ids: string[]): string {
+  return ids.length > 0 ? ids.map((id) => `<div class="inscription">◉ ${code(id)}</div>`).join('') : '';
+}
+
+function renderInputs(summary: PsbtSummary): string {
+  return summary.inputs
+    .map(
+      (input, i) => `<tr>
+        <td>${i}</td>
+        <td>${code(input.outpoint)}${renderInscriptions(input.inscriptions.map((inscription) => inscription.id))}</td>
+        <td>${input.address ? code(input.address) : '<span class="muted">unknown</span>'}</td>
+        <td class="amount">${input.sats !== undefined ? formatBtc(input.sats) : '<span class="muted">unknown</span>'}</td>
+        <td>${input.signed ? '<span class="ok">signed</span>' : '<span class="muted">unsigned</span>'}</td>
+      </tr>`
+    )
+    .join('\n');
+}
+
+function renderOutputs(summary: PsbtSummary): string {
+  return summary.outputs
+    .map(
+      (output) => `<tr>
+        <td>${output.index}</td>
+        <td>${output.address ? code(output.address) : '<span class="muted">no address</span>'}${renderInscriptions(output.inscriptions)}</td>
+        <td class="amount">${formatBtc(output.sats)}</td>
+      </tr>`
+    )
+    .join('\n');
+}
+
+function renderWarnings(summary: PsbtSummary): string {
+  const warnings: string[] = [];
+  if (summary.toFee.length > 0) {
+    warnings.push(`Inscriptions paid to the miner as fee: ${summary.toFee.map(code).join(', ')}`);
+  }
+  if (summary.untraced.length > 0) {
+    warnings.push(
+      `An input value or inscription position is unknown, so these inscriptions can't be traced: ${summary.untraced.map(code).join(', ')}`
+    );
+  }
+  return warnings.map((warning) => `<p class="warning">${warning}</p>`).join('\n');
+}
+
+function renderPanel(heading: string, summary: PsbtSummary, psbt: string, nonce: string): string {
+  const csp = ["default-src 'none'", "style-src 'unsafe-inline'", `script-src 'nonce-${nonce}'`].join('; ');
+  const signedInputs = summary.inputs.filter((input) => input.signed).length;
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <meta http-equiv="Content-Security-Policy" content="${csp}">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>${escapeHtml(heading)}</title>
+  <style>
+    body { padding: 16px; font-family: var(--vscode-font-family); color: var(--vscode-foreground); }
+    table { border-collapse: collapse; width: 100%; margin-bottom: 16px; }
+    th { text-align: left; padding: 4px 12px 4px 0; color: var(--vscode-descriptionForeground); border-bottom: 1px solid var(--vscode-panel-border); }
+    td { padding: 6px 12px 6px 0; vertical-align: top; word-break: break-all; }
+    .amount { white-space: nowrap; text-align: right; }
+    .muted { color: var(--vscode-descriptionForeground); }
+    .ok { color: var(--vscode-testing-iconPassed); }
+    .warning { color: var(--vscode-errorForeground); font-weight: bold; }
+    .inscription { margin-top: 4px; color: var(--vscode-textLink-foreground); }
+    pre { padding: 8px; white-space: pre-wrap; word-break: break-all; max-height: 160px; overflow: auto; background: var(--vscode-textCodeBlock-background); }
+    button { color: var(--vscode-button-foreground); background: var(--vscode-button-background); border: none; padding: 4px 10px; cursor: pointer; }
+    button:hover { background: var(--vscode-button-hoverBackground); }
+  </style>
+</head>
+<body>
+  <h2>${escapeHtml(heading)}</h2>
+  <p>
+    Transaction ${code(summary.txid)}<br>
+    ${summary.vsize.toLocaleString()} vB ·
+    Fee ${summary.feeSats !== undefined ? `${summary.feeSats.toLocaleString()} sats (${(summary.feeSats / summary.vsize).toFixed(1)} sat/vB)` : 'unknown'} ·
+    ${signedInputs} of ${summary.inputs.length} inputs signed
+  </p>
+  ${renderWarnings(summary)}
+  <h3>Inputs</h3>
+  <table>
+    <tr><th>#</th><th>Output</th><th>Address</th><th class="amount">Value</th><th>Status</th></tr>
+    ${renderInputs(summary)}
+  </table>
+  <h3>Outputs</h3>
+  <table>
+    <tr><th>#</th><th>Address</th><th class="amount">Value</th></tr>
+    ${renderOutputs(summary)}
+  </table>
+  <h3>PSBT <button id="copy">Copy</button></h3>
+  <pre>${escapeHtml(psbt)}</pre>
+  <script nonce="${nonce}">
+    const vscode = acquireVsCodeApi();
+    document.getElementById('copy').addEventListener('click', () => vscode.postMessage({ command: 'copy' }));
+  </script>
+</body>
+</html>`;
+}
+
+function getPanel(): vscode.WebviewPanel {
+  if (panel) {
+    panel.reveal(vscode.ViewColumn.Active);
+    return panel;
+  }
+
+  panel = vscode.window.createWebviewPanel('ordPsbt', 'PSBT', vscode.ViewColumn.Active, { enableScripts: true });
+  panel.webview.onDidReceiveMessage(async (message: { command?: string }) => {
+    if (message.command === 'copy' && shownPsbt) {
+      await vscode.env.clipboard.writeText(shownPsbt);
+      vscode.window.setStatusBarMessage('PSBT copied to clipboard', 3000);
+    }
+  });
+  panel.onDidDispose(() => {
+    panel = null;
+    shownPsbt = '';
+  });
+
+  return panel;
+}
+
+/**
+ * Shows a PSBT's inputs and outputs, with the inscriptions each one carries, in a webview panel
+ */
+export function showPsbtPanel(heading: string, summary: PsbtSummary, psbt: string): void {
+  const webviewPanel = getPanel();
+  shownPsbt = psbt;
+  webviewPanel.title = heading;
+  webviewPanel.webview.html = renderPanel(heading, summary, psbt, crypto.randomBytes(16).toString('base64'));
+}
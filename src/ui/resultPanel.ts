@@ -0,0 +1,101 @@
+import * as vscode from 'vscode';
+import * as crypto from 'crypto';
+import { escapeHtml } from './inscriptionPanel';
+
+export interface ResultField {
+  label: string;
+  value: string;
+  /** Shows a Copy button next to the value */
+  copyable?: boolean;
+}
+
+export interface ResultPanelContent {
+  title: string;
+  heading: string;
+  /** Highlighted outcome shown above the fields, e.g. whether a signature is valid */
+  status?: { ok: boolean; text: string };
+  fields: ResultField[];
+}
+
+let panel: vscode.WebviewPanel | null = null;
+let shownFields: ResultField[] = [];
+
+function renderField(field: ResultField, index: number): string {
+  const copy = field.copyable ? `<button data-index="${index}">Copy</button>` : '';
+  return `<tr><th>${escapeHtml(field.label)}</th><td><pre>${escapeHtml(field.value)}</pre></td><td>${copy}</td></tr>`;
+}
+
+function renderPanel(content: ResultPanelContent, nonce: string): string {
+  const csp = ["default-src 'none'", "style-src 'unsafe-inline'", `script-src 'nonce-${nonce}'`].join('; ');
+  const status = content.status
+    ? `<p class="status ${content.status.ok ? 'ok' : 'failed'}">${escapeHtml(content.status.text)}</p>`
+    : '';
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <meta http-equiv="Content-Security-Policy" content="${csp}">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>${escapeHtml(content.title)}</title>
+  <style>
+    body { padding: 16px; font-family: var(--vscode-font-family); color: var(--vscode-foreground); }
+    .status { font-weight: bold; }
+    .ok { color: var(--vscode-testing-iconPassed); }
+    .failed { color: var(--vscode-errorForeground); }
+    table { border-collapse: collapse; width: 100%; }
+    th { text-align: left; padding: 6px 12px 6px 0; vertical-align: top; white-space: nowrap; color: var(--vscode-descriptionForeground); }
+    td { padding: 6px 0; vertical-align: top; }
+    pre { margin: 0; padding: 6px 8px; white-space: pre-wrap; word-break: break-all; font-family: var(--vscode-editor-font-family); background: var(--vscode-textCodeBlock-background); }
+    button { margin-left: 8px; color: var(--vscode-button-foreground); background: var(--vscode-button-background); border: none; padding: 4px 10px; cursor: pointer; }
+    button:hover { background: var(--vscode-button-hoverBackground); }
+  </style>
+</head>
+<body>
+  <h2>${escapeHtml(content.heading)}</h2>
+  ${status}
+  <table>
+    ${content.fields.map(renderField).join('\n')}
+  </table>
+  <script nonce="${nonce}">
+    const vscode = acquireVsCodeApi();
+    for (const button of document.querySelectorAll('button[data-index]')) {
+      button.addEventListener('click', () => vscode.postMessage({ command: 'copy', index: Number(button.dataset.index) }));
+    }
+  </script>
+</body>
+</html>`;
+}
+
+function getPanel(): vscode.WebviewPanel {
+  if (panel) {
+    panel.reveal(vscode.ViewColumn.Active);
+    return panel;
+  }
+
+  panel = vscode.window.createWebviewPanel('ordResult', 'Ord', vscode.ViewColumn.Active, { enableScripts: true });
+  // The webview only names the field; the value is copied from the extension side
+  panel.webview.onDidReceiveMessage(async (message: { command?: string; index?: number }) => {
+    const field = message.command === 'copy' && message.index !== undefined ? shownFields[message.index] : undefined;
+    if (field?.copyable) {
+      await vscode.env.clipboard.writeText(field.value);
+      vscode.window.setStatusBarMessage(`${field.label} copied to clipboard`, 3000);
+    }
+  });
+  panel.onDidDispose(() => {
+    panel = null;
+    shownFields = [];
+  });
+
+  return panel;
+}
+
+/**
+ * Shows the outcome of a command, such as a signature, as a list of fields that can be copied
+ */
+export function showResultPanel(content: ResultPanelContent): void {
+  const webviewPanel = getPanel();
+  shownFields = content.fields;
+  webviewPanel.title = content.title;
+  webviewPanel.webview.html = renderPanel(content, crypto.randomBytes(16).toString('base64'));
+}
@@ -1,11 +1,15 @@
 import * as vscode from 'vscode';
 import { isBitcoindRunning } from '../services/bitcoind';
 import { isOrdRunning } from '../services/ord';
+import { describeAutoMineMode, getActiveAutoMineMode } from '../services/autoMine';
 import { getConfig } from '../utils/config';
 import { getInscriptionHistory } from '../utils/inscriptionHistory';
 import { getCurrentWallet, listWallets } from '../utils/walletState';
 
+const MENU_HISTORY_LIMIT = 5;
+
 let statusBarItem: vscode.StatusBarItem;
+let autoMineItem: vscode.StatusBarItem;
 let updateInterval: NodeJS.Timeout | null = null;
 
 interface CommandQuickPickItem extends vscode.QuickPickItem {
@@ -68,6 +72,11 @@ export async function showStatusBarMenu(): Promise<void> {
         description: 'Mine blocks (regtest only)',
         command: 'ord.mineBlocks',
       },
+      {
+        label: '$(pulse) Auto-Mine',
+        description: describeAutoMineMode(getActiveAutoMineMode(), config.autoMineInterval),
+        command: 'ord.setAutoMine',
+      },
       {
         label: '$(globe) Open in Browser',
         description: `Open ord server at http://127.0.0.1:${config.ordServerPort}`,
@@ -90,7 +99,7 @@ export async function showStatusBarMenu(): Promise<void> {
         command: '',
       });
 
-      for (const inscription of history) {
+      for (const inscription of history.slice(0, MENU_HISTORY_LIMIT)) {
         const shortId = inscription.id.substring(0, 8) + '...' + inscription.id.substring(inscription.id.length - 6);
         items.push({
           label: `$(file) ${inscription.fileName}`,
@@ -134,6 +143,8 @@ export async function showStatusBarMenu(): Promise<void> {
 export function createStatusBar(): vscode.StatusBarItem {
   statusBarItem = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Left, 100);
   statusBarItem.command = 'ord.statusBarMenu';
+  autoMineItem = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Left, 99);
+  autoMineItem.command = 'ord.setAutoMine';
   updateStatusBar();
 
   // Update status bar periodically
@@ -167,6 +178,26 @@ export function updateStatusBar(): void {
     // Hide status bar when services are stopped
     statusBarItem.hide();
   }
+
+  updateAutoMineItem(servicesRunning && config.network === 'regtest');
+}
+
+function updateAutoMineItem(visible: boolean): void {
+  if (!visible) {
+    autoMineItem.hide();
+    return;
+  }
+
+  const config = getConfig();
+  const mode = getActiveAutoMineMode();
+  if (mode === 'off') {
+    autoMineItem.text = '$(circle-slash) Auto-mine';
+    autoMineItem.tooltip = 'Blocks are only mined on request\nClick to mine automatically';
+  } else {
+    autoMineItem.text = `$(pulse) Auto-mine: ${describeAutoMineMode(mode, config.autoMineInterval)}`;
+    autoMineItem.tooltip = 'Blocks are mined automatically\nClick to change or turn off';
+  }
+  autoMineItem.show();
 }
 
 export function disposeStatusBar(): void {
@@ -175,4 +206,5 @@ export function disposeStatusBar(): void {
     updateInterval = null;
   }
   statusBarItem?.dispose();
+  autoMineItem?.dispose();
 }
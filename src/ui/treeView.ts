@@ -1,9 +1,25 @@
 import * as vscode from 'vscode';
 import { isBitcoindRunning } from '../services/bitcoind';
-import { isOrdRunning, getOrdBalance, getOrdReceiveAddress } from '../services/ord';
-import { getInscriptionHistory } from '../utils/inscriptionHistory';
+import {
+  isOrdRunning,
+  getOrdBalance,
+  getOrdReceiveAddress,
+  getWalletInscriptions,
+  getWalletOutputs,
+  getWalletTransactions,
+  OrdBalance,
+  WalletInscription,
+} from '../services/ord';
+import { getInscriptionHistory, InscriptionRecord } from '../utils/inscriptionHistory';
 import { getConfig } from '../utils/config';
 import { getCurrentWallet, listWallets } from '../utils/walletState';
+import { getInscriptionInfo, InscriptionInfo } from '../utils/ordApi';
+import { getTxOut, listLockUnspent, listTransactions, listUnspent } from '../utils/rpc';
+import { mergeWalletOutputs, OutputEntry, shortenOutpoint } from '../utils/outputs';
+import { formatBtcDelta, mergeWalletTransactions, TransactionEntry } from '../utils/transactions';
+import { getSnapshotsDirectory, listSnapshots, SnapshotMetadata } from '../utils/snapshots';
+import { CONTENT_TYPE_FILTERS, ContentTypeFilter, matchesContentTypeFilter } from '../utils/contentType';
+import { log } from './outputChannel';
 
 // Wallet Tree Provider
 export class WalletTreeProvider implements vscode.TreeDataProvider<WalletItem> {
@@ -11,8 +27,10 @@ export class WalletTreeProvider implements vscode.TreeDataProvider<WalletItem> {
   readonly onDidChangeTreeData: vscode.Event<WalletItem | undefined | null | void> = this._onDidChangeTreeData.event;
 
   private context: vscode.ExtensionContext;
-  private balance: { cardinal: number; ordinal: number; total: number } | null = null;
+  private balance: OrdBalance | null = null;
   private address: string | null = null;
+  private outputs: OutputEntry[] | null = null;
+  private transactions: TransactionEntry[] | null = null;
 
   constructor(context: vscode.ExtensionContext) {
     this.context = context;
@@ -21,6 +39,8 @@ export class WalletTreeProvider implements vscode.TreeDataProvider<WalletItem> {
   refresh(): void {
     this.balance = null;
     this.address = null;
+    this.outputs = null;
+    this.transactions = null;
     this._onDidChangeTreeData.fire();
   }
 
@@ -29,8 +49,20 @@ export class WalletTreeProvider implements vscode.TreeDataProvider<WalletItem> {
   }
 
   async getChildren(element?: WalletItem): Promise<WalletItem[]> {
+    if (element instanceof OutputItem || element instanceof TransactionItem) {
+      return element.getContents();
+    }
     if (element) {
-      return [];
+      switch (element.contextValue) {
+        case 'runes':
+          return this.getRuneChildren();
+        case 'outputs':
+          return this.getOutputChildren();
+        case 'transactions':
+          return this.getTransactionChildren();
+        default:
+          return [];
+      }
     }
 
     const items: WalletItem[] = [];
@@ -109,6 +141,34 @@ export class WalletTreeProvider implements vscode.TreeDataProvider<WalletItem> {
         'credit-card',
         'ord.getBalance'
       ));
+
+      const runeCount = Object.keys(this.balance.runes).length;
+      const runesItem = new WalletItem(
+        'Runes',
+        runeCount > 0 ? `${runeCount} held` : 'None',
+        runeCount > 0 ? vscode.TreeItemCollapsibleState.Collapsed : vscode.TreeItemCollapsibleState.None,
+        'symbol-constant'
+      );
+      runesItem.contextValue = 'runes';
+      items.push(runesItem);
+
+      const outputsItem = new WalletItem(
+        'Outputs',
+        'UTXOs in this wallet',
+        vscode.TreeItemCollapsibleState.Collapsed,
+        'list-unordered'
+      );
+      outputsItem.contextValue = 'outputs';
+      items.push(outputsItem);
+
+      const transactionsItem = new WalletItem(
+        'Transactions',
+        `last ${TRANSACTIONS_LIMIT}`,
+        vscode.TreeItemCollapsibleState.Collapsed,
+        'history'
+      );
+      transactionsItem.contextValue = 'transactions';
+      items.push(transactionsItem);
     } catch {
       items.push(new WalletItem(
         'Balance: No wallet',
@@ -158,6 +218,96 @@ export class WalletTreeProvider implements vscode.TreeDataProvider<WalletItem> {
 
     return items;
   }
+
+  private getRuneChildren(): WalletItem[] {
+    if (!this.balance) {
+      return [];
+    }
+
+    return Object.entries(this.balance.runes)
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([rune, amount]) => new RuneBalanceItem(rune, amount));
+  }
+
+  private async getOutputChildren(): Promise<WalletItem[]> {
+    try {
+      if (!this.outputs) {
+        this.outputs = await loadWalletOutputs(this.context);
+      }
+    } catch (error) {
+      log(`Failed to load wallet outputs: ${error}`);
+      return [new WalletItem('Failed to load outputs', 'See the output panel', vscode.TreeItemCollapsibleState.None, 'error')];
+    }
+
+    if (this.outputs.length === 0) {
+      return [new WalletItem('No outputs', '', vscode.TreeItemCollapsibleState.None, 'info')];
+    }
+    return this.outputs.map((output) => new OutputItem(output));
+  }
+
+  private async getTransactionChildren(): Promise<WalletItem[]> {
+    try {
+      if (!this.transactions) {
+        this.transactions = await loadWalletTransactions(this.context);
+      }
+    } catch (error) {
+      log(`Failed to load wallet transactions: ${error}`);
+      return [new WalletItem('Failed to load transactions', 'See the output panel', vscode.TreeItemCollapsibleState.None, 'error')];
+    }
+
+    if (this.transactions.length === 0) {
+      return [new WalletItem('No transactions', '', vscode.TreeItemCollapsibleState.None, 'info')];
+    }
+    return this.transactions.map((transaction) => new TransactionItem(transaction));
+  }
+}
+
+const TRANSACTIONS_LIMIT = 50;
+
+/**
+ * Reads the current wallet's recent transactions from ord, with balance changes from bitcoind
+ * and the inscriptions the wallet holds or made in them
+ */
+async function loadWalletTransactions(context: vscode.ExtensionContext): Promise<TransactionEntry[]> {
+  const wallet = getCurrentWallet();
+  const [transactions, entries, held] = await Promise.all([
+    getWalletTransactions(context, TRANSACTIONS_LIMIT),
+    listTransactions(wallet, TRANSACTIONS_LIMIT * 4),
+    getWalletInscriptions(context),
+  ]);
+
+  // Inscriptions made here and since sent away still link to their reveal transaction
+  const heldIds = new Set(held.map((inscription) => inscription.id));
+  const inscriptions = [
+    ...held,
+    ...getInscriptionHistory()
+      .filter((record) => !heldIds.has(record.id))
+      .map((record) => ({ id: record.id })),
+  ];
+
+  return mergeWalletTransactions(transactions, entries, inscriptions).slice(0, TRANSACTIONS_LIMIT);
+}
+
+/**
+ * Reads the current wallet's outputs from ord, with confirmations and locks from bitcoind.
+ * bitcoind hides locked outputs from listunspent, so their confirmations come from gettxout.
+ */
+async function loadWalletOutputs(context: vscode.ExtensionContext): Promise<OutputEntry[]> {
+  const wallet = getCurrentWallet();
+  const [outputs, unspent, locked] = await Promise.all([
+    getWalletOutputs(context),
+    listUnspent(wallet),
+    listLockUnspent(wallet),
+  ]);
+
+  const lockedConfirmations = await Promise.all(
+    locked.map(async (utxo) => {
+      const txOut = await getTxOut(utxo.txid, utxo.vout);
+      return txOut ? [{ ...utxo, confirmations: txOut.confirmations }] : [];
+    })
+  );
+
+  return mergeWalletOutputs(outputs, [...unspent, ...lockedConfirmations.flat()], locked);
 }
 
 class WalletItem extends vscode.TreeItem {
@@ -184,28 +334,281 @@ class WalletItem extends vscode.TreeItem {
   }
 }
 
+class RuneBalanceItem extends WalletItem {
+  constructor(public readonly rune: string, amount: string) {
+    super(rune, amount, vscode.TreeItemCollapsibleState.None, 'symbol-constant');
+    this.contextValue = 'rune';
+    this.tooltip = `${amount} ${rune}\nRight-click to send or mint more`;
+  }
+}
+
+function inscriptionLinkItem(inscriptionId: string): WalletItem {
+  const item = new WalletItem(
+    `${inscriptionId.substring(0, 16)}...`,
+    'inscription',
+    vscode.TreeItemCollapsibleState.None,
+    'file-media'
+  );
+  item.tooltip = inscriptionId;
+  item.command = { command: 'ord.openInscription', title: 'Open Inscription', arguments: [inscriptionId] };
+  return item;
+}
+
+class OutputItem extends WalletItem {
+  public readonly outpoint: string;
+  public readonly frozen: boolean;
+
+  constructor(private readonly entry: OutputEntry) {
+    const contents = entry.inscriptions.length + Object.keys(entry.runes).length;
+    const details = [
+      `${(entry.sats / 100000000).toFixed(8)} BTC`,
+      entry.confirmations !== undefined ? `${entry.confirmations} conf` : undefined,
+      entry.inscriptions.length > 0 ? `${entry.inscriptions.length} inscription${entry.inscriptions.length === 1 ? '' : 's'}` : undefined,
+      Object.keys(entry.runes).length > 0 ? 'runes' : undefined,
+    ].filter(Boolean);
+
+    super(
+      shortenOutpoint(entry.outpoint),
+      details.join(' • '),
+      contents > 0 ? vscode.TreeItemCollapsibleState.Collapsed : vscode.TreeItemCollapsibleState.None,
+      entry.frozen ? 'lock' : entry.inscriptions.length > 0 ? 'file-media' : contents > 0 ? 'symbol-constant' : 'circle-outline'
+    );
+
+    this.outpoint = entry.outpoint;
+    this.frozen = entry.frozen;
+    this.contextValue = entry.frozen ? 'output.frozen' : 'output';
+
+    const lines = [
+      entry.outpoint,
+      `Value: ${entry.sats.toLocaleString()} sats`,
+      `Confirmations: ${entry.confirmations ?? 'unknown'}`,
+    ];
+    if (entry.frozen) {
+      lines.push('Frozen: never spent by inscribe or send');
+    }
+    this.tooltip = lines.join('\n');
+  }
+
+  getContents(): WalletItem[] {
+    const items = this.entry.inscriptions.map(inscriptionLinkItem);
+
+    for (const [rune, amount] of Object.entries(this.entry.runes)) {
+      items.push(new WalletItem(rune, amount, vscode.TreeItemCollapsibleState.None, 'symbol-constant'));
+    }
+    return items;
+  }
+}
+
+class TransactionItem extends WalletItem {
+  public readonly txid: string;
+
+  constructor(private readonly entry: TransactionEntry) {
+    const icon = entry.mined
+      ? 'package'
+      : entry.deltaSats === undefined
+        ? 'arrow-swap'
+        : entry.deltaSats >= 0
+          ? 'arrow-down'
+          : 'arrow-up';
+    const details = [
+      entry.deltaSats !== undefined ? formatBtcDelta(entry.deltaSats) : undefined,
+      `${entry.confirmations} conf`,
+      entry.inscriptions.length > 0 ? `${entry.inscriptions.length} inscription${entry.inscriptions.length === 1 ? '' : 's'}` : undefined,
+    ].filter(Boolean);
+
+    super(
+      `${entry.txid.substring(0, 8)}…${entry.txid.substring(entry.txid.length - 4)}`,
+      details.join(' • '),
+      entry.inscriptions.length > 0 ? vscode.TreeItemCollapsibleState.Collapsed : vscode.TreeItemCollapsibleState.None,
+      icon
+    );
+
+    this.txid = entry.txid;
+    this.contextValue = 'transaction';
+    this.command = { command: 'ord.openTransaction', title: 'Open Transaction', arguments: [{ txid: entry.txid }] };
+
+    const lines = [entry.txid, `Confirmations: ${entry.confirmations}`];
+    if (entry.deltaSats !== undefined) {
+      lines.push(`Balance change: ${entry.deltaSats.toLocaleString()} sats (fee included)`);
+    }
+    if (entry.time) {
+      lines.push(new Date(entry.time * 1000).toLocaleString());
+    }
+    if (entry.mined) {
+      lines.push('Coinbase reward');
+    }
+    this.tooltip = lines.join('\n');
+  }
+
+  getContents(): WalletItem[] {
+    return this.entry.inscriptions.map(inscriptionLinkItem);
+  }
+}
+
 // Inscriptions Tree Provider
-export class InscriptionsTreeProvider implements vscode.TreeDataProvider<InscriptionItem> {
-  private _onDidChangeTreeData: vscode.EventEmitter<InscriptionItem | undefined | null | void> = new vscode.EventEmitter<InscriptionItem | undefined | null | void>();
-  readonly onDidChangeTreeData: vscode.Event<InscriptionItem | undefined | null | void> = this._onDidChangeTreeData.event;
+const INSCRIPTIONS_PAGE_SIZE = 25;
+// Inscription details requested from ord at once when filtering a large wallet
+const INFO_REQUEST_CONCURRENCY = 8;
+
+// Latest block first, then highest number; inscriptions ord couldn't describe go last
+function compareNewestFirst(a: InscriptionInfo | undefined, b: InscriptionInfo | undefined): number {
+  if (!a || !b) {
+    return Number(!a) - Number(!b);
+  }
+  return b.height - a.height || b.number - a.number;
+}
+
+type InscriptionsNode = InscriptionGroupItem | InscriptionItem | LoadMoreItem | vscode.TreeItem;
+
+export class InscriptionsTreeProvider implements vscode.TreeDataProvider<InscriptionsNode> {
+  private _onDidChangeTreeData: vscode.EventEmitter<InscriptionsNode | undefined | null | void> = new vscode.EventEmitter<InscriptionsNode | undefined | null | void>();
+  readonly onDidChangeTreeData: vscode.Event<InscriptionsNode | undefined | null | void> = this._onDidChangeTreeData.event;
+
+  private context: vscode.ExtensionContext;
+  private walletInscriptions = new Map<string, WalletInscription[]>();
+  private pageCounts = new Map<string, number>();
+  // Number and content type never change once inscribed, so details are kept across refreshes
+  private infoCache = new Map<string, InscriptionInfo>();
+  private filter: ContentTypeFilter | null = null;
+
+  constructor(context: vscode.ExtensionContext) {
+    this.context = context;
+  }
 
   refresh(): void {
+    this.walletInscriptions.clear();
+    this._onDidChangeTreeData.fire();
+  }
+
+  getFilter(): ContentTypeFilter | null {
+    return this.filter;
+  }
+
+  setFilter(filter: ContentTypeFilter | null): void {
+    this.filter = filter;
+    this.pageCounts.clear();
+    this._onDidChangeTreeData.fire();
+  }
+
+  loadMore(walletName: string): void {
+    this.pageCounts.set(walletName, (this.pageCounts.get(walletName) || 1) + 1);
     this._onDidChangeTreeData.fire();
   }
 
-  getTreeItem(element: InscriptionItem): vscode.TreeItem {
+  getTreeItem(element: InscriptionsNode): vscode.TreeItem {
     return element;
   }
 
-  async getChildren(element?: InscriptionItem): Promise<InscriptionItem[]> {
-    if (element) {
-      return [];
+  async getChildren(element?: InscriptionsNode): Promise<InscriptionsNode[]> {
+    if (!element) {
+      return this.getGroups();
+    }
+
+    if (element instanceof InscriptionGroupItem) {
+      return element.walletName
+        ? this.getWalletChildren(element.walletName)
+        : this.getHistoryChildren();
+    }
+
+    if (element instanceof InscriptionItem) {
+      return this.getHistoryChildren(element.inscriptionId);
+    }
+
+    return [];
+  }
+
+  private getGroups(): InscriptionGroupItem[] {
+    const currentWallet = getCurrentWallet();
+    const wallets = [currentWallet, ...listWallets().filter((name) => name !== currentWallet)];
+
+    const groups = wallets.map((name) => new InscriptionGroupItem(
+      name,
+      name === currentWallet ? 'current wallet' : '',
+      name === currentWallet ? vscode.TreeItemCollapsibleState.Expanded : vscode.TreeItemCollapsibleState.Collapsed,
+      name
+    ));
+
+    groups.push(new InscriptionGroupItem(
+      'Local History',
+      'inscribed from this editor',
+      vscode.TreeItemCollapsibleState.Collapsed
+    ));
+
+    return groups;
+  }
+
+  private async getWalletChildren(walletName: string): Promise<InscriptionsNode[]> {
+    if (!isOrdRunning()) {
+      return [messageItem('Ord server is not running', 'Start services to load inscriptions', 'circle-slash', 'ord.start')];
     }
 
+    let inscriptions = this.walletInscriptions.get(walletName);
+    if (!inscriptions) {
+      try {
+        inscriptions = await getWalletInscriptions(this.context, walletName);
+      } catch (e) {
+        const message = e instanceof Error ? e.message : String(e);
+        log(`Failed to list inscriptions for wallet ${walletName}: ${message}`);
+        return [messageItem('Could not load inscriptions', message, 'warning')];
+      }
+      this.walletInscriptions.set(walletName, inscriptions);
+    }
+
+    // ord lists a wallet's inscriptions by satpoint, so details for all of them are needed to
+    // put the newest first, and the filter needs them too, not just for the visible page
+    await this.loadInfo(inscriptions.map((inscription) => inscription.id));
+    const ordered = [...inscriptions].sort((a, b) =>
+      compareNewestFirst(this.infoCache.get(a.id), this.infoCache.get(b.id))
+    );
+    let matching = ordered;
+    if (this.filter) {
+      const filter = this.filter;
+      matching = ordered.filter((inscription) =>
+        matchesContentTypeFilter(this.infoCache.get(inscription.id)?.content_type ?? null, filter)
+      );
+    }
+
+    if (matching.length === 0) {
+      return [messageItem(
+        this.filter ? `No ${this.filter.label.toLowerCase()} inscriptions` : 'No inscriptions',
+        this.filter ? 'Change the filter to see more' : 'Inscribe a file to get started',
+        'info'
+      )];
+    }
+
+    const visibleCount = (this.pageCounts.get(walletName) || 1) * INSCRIPTIONS_PAGE_SIZE;
+    const page = matching.slice(0, visibleCount);
+
+    const history = new Map(getInscriptionHistory().map((record) => [record.id, record]));
+    const items: InscriptionsNode[] = page.map((inscription) => {
+      const info = this.infoCache.get(inscription.id);
+      const record = history.get(inscription.id);
+      const label = record?.fileName || (info ? `Inscription ${info.number}` : inscription.id.substring(0, 8) + '...');
+
+      const item = new InscriptionItem(
+        label,
+        info?.content_type || '',
+        inscription.id,
+        vscode.TreeItemCollapsibleState.None,
+        getConfig().ordServerPort
+      );
+      item.tooltip = record ? buildInscriptionTooltip(record) : buildWalletInscriptionTooltip(inscription, info);
+
+      return item;
+    });
+
+    if (matching.length > page.length) {
+      items.push(new LoadMoreItem(walletName, matching.length - page.length));
+    }
+
+    return items;
+  }
+
+  private getHistoryChildren(parentId?: string): InscriptionItem[] {
     const history = getInscriptionHistory();
     const config = getConfig();
 
-    if (history.length === 0) {
+    if (!parentId && history.length === 0) {
       return [new InscriptionItem(
         'No inscriptions yet',
         'Inscribe a file to get started',
@@ -214,19 +617,87 @@ export class InscriptionsTreeProvider implements vscode.TreeDataProvider<Inscrip
       )];
     }
 
-    return history.map(inscription => {
+    // Children are nested under their parent when the parent is in the history too
+    const knownIds = new Set(history.map((record) => record.id));
+    const records = parentId
+      ? history.filter((record) => record.parent === parentId)
+      : history.filter((record) => !record.parent || !knownIds.has(record.parent));
+
+    return records.map(inscription => {
       const shortId = inscription.id.substring(0, 8) + '...';
       const date = new Date(inscription.timestamp).toLocaleDateString();
+      const hasChildren = history.some((record) => record.parent === inscription.id);
 
-      return new InscriptionItem(
+      const item = new InscriptionItem(
         inscription.fileName,
         `${shortId} • ${date}`,
         inscription.id,
-        vscode.TreeItemCollapsibleState.None,
+        hasChildren ? vscode.TreeItemCollapsibleState.Expanded : vscode.TreeItemCollapsibleState.None,
         config.ordServerPort
       );
+
+      item.tooltip = buildInscriptionTooltip(inscription);
+
+      return item;
     });
   }
+
+  private async loadInfo(inscriptionIds: string[]): Promise<void> {
+    const missing = inscriptionIds.filter((id) => !this.infoCache.has(id));
+    // In fixed-size chunks, so a wallet with thousands of inscriptions doesn't flood the ord server
+    for (let start = 0; start < missing.length; start += INFO_REQUEST_CONCURRENCY) {
+      await Promise.all(missing.slice(start, start + INFO_REQUEST_CONCURRENCY).map(async (id) => {
+        try {
+          this.infoCache.set(id, await getInscriptionInfo(id));
+        } catch (e) {
+          log(`Failed to load details for inscription ${id}: ${e}`);
+        }
+      }));
+    }
+  }
+}
+
+function messageItem(label: string, description: string, icon: string, commandId?: string): vscode.TreeItem {
+  const item = new vscode.TreeItem(label, vscode.TreeItemCollapsibleState.None);
+  item.description = description;
+  item.iconPath = new vscode.ThemeIcon(icon);
+  if (commandId) {
+    item.command = { command: commandId, title: label };
+  }
+  return item;
+}
+
+function buildWalletInscriptionTooltip(inscription: WalletInscription, info?: InscriptionInfo): vscode.MarkdownString {
+  const tooltip = new vscode.MarkdownString();
+  tooltip.appendMarkdown(`**${info ? `Inscription ${info.number}` : 'Inscription'}**\n\n`);
+  tooltip.appendCodeblock(inscription.id, 'text');
+
+  if (info?.content_type) {
+    tooltip.appendMarkdown(`Content type: \`${info.content_type}\`\n\n`);
+  }
+  tooltip.appendMarkdown(`Location: \`${inscription.location}\`\n\n`);
+  tooltip.appendMarkdown(`Postage: ${inscription.postage.toLocaleString()} sats`);
+
+  return tooltip;
+}
+
+function buildInscriptionTooltip(record: InscriptionRecord): vscode.MarkdownString {
+  const tooltip = new vscode.MarkdownString();
+  tooltip.appendMarkdown(`**${record.fileName}**\n\n`);
+  tooltip.appendCodeblock(record.id, 'text');
+
+  if (record.parent) {
+    tooltip.appendMarkdown(`Child of \`${record.parent}\`\n\n`);
+  }
+  if (record.metaprotocol) {
+    tooltip.appendMarkdown(`Metaprotocol: \`${record.metaprotocol}\`\n\n`);
+  }
+  if (record.metadata !== undefined) {
+    tooltip.appendMarkdown('Metadata:\n');
+    tooltip.appendCodeblock(JSON.stringify(record.metadata, null, 2), 'json');
+  }
+
+  return tooltip;
 }
 
 class InscriptionItem extends vscode.TreeItem {
@@ -239,7 +710,9 @@ class InscriptionItem extends vscode.TreeItem {
   ) {
     super(label, collapsibleState);
     this.description = description;
-    this.iconPath = new vscode.ThemeIcon('file');
+    this.iconPath = new vscode.ThemeIcon(
+      collapsibleState === vscode.TreeItemCollapsibleState.None ? 'file' : 'files'
+    );
     this.tooltip = inscriptionId || 'No inscription';
 
     if (inscriptionId && port) {
@@ -253,9 +726,109 @@ class InscriptionItem extends vscode.TreeItem {
   }
 }
 
+class InscriptionGroupItem extends vscode.TreeItem {
+  constructor(
+    public readonly label: string,
+    public readonly description: string,
+    public readonly collapsibleState: vscode.TreeItemCollapsibleState,
+    public readonly walletName?: string
+  ) {
+    super(label, collapsibleState);
+    this.description = description;
+    this.iconPath = new vscode.ThemeIcon(walletName ? 'wallet' : 'history');
+    this.contextValue = walletName ? 'inscriptionWallet' : 'inscriptionHistory';
+  }
+}
+
+class LoadMoreItem extends vscode.TreeItem {
+  constructor(
+    public readonly walletName: string,
+    public readonly remaining: number
+  ) {
+    super('Load more...', vscode.TreeItemCollapsibleState.None);
+    this.description = `${remaining} more`;
+    this.iconPath = new vscode.ThemeIcon('ellipsis');
+    this.command = {
+      command: 'ord.loadMoreInscriptions',
+      title: 'Load More Inscriptions',
+      arguments: [walletName],
+    };
+  }
+}
+
+interface FilterQuickPickItem extends vscode.QuickPickItem {
+  filter: ContentTypeFilter | null;
+}
+
+async function pickInscriptionFilter(provider: InscriptionsTreeProvider): Promise<ContentTypeFilter | null | undefined> {
+  const current = provider.getFilter();
+  const items: FilterQuickPickItem[] = [
+    { label: 'All Content Types', filter: null, picked: current === null },
+    ...CONTENT_TYPE_FILTERS.map((filter) => ({
+      label: filter.label,
+      description: filter.prefixes.join(', '),
+      filter,
+    })),
+  ];
+
+  const selected = await vscode.window.showQuickPick(items, {
+    title: 'Filter Inscriptions',
+    placeHolder: current ? `Currently showing: ${current.label}` : 'Show only inscriptions of a content type',
+  });
+
+  return selected ? selected.filter : undefined;
+}
+
+// Snapshots Tree Provider
+export class SnapshotsTreeProvider implements vscode.TreeDataProvider<vscode.TreeItem> {
+  private _onDidChangeTreeData: vscode.EventEmitter<vscode.TreeItem | undefined | null | void> = new vscode.EventEmitter<vscode.TreeItem | undefined | null | void>();
+  readonly onDidChangeTreeData: vscode.Event<vscode.TreeItem | undefined | null | void> = this._onDidChangeTreeData.event;
+
+  private context: vscode.ExtensionContext;
+
+  constructor(context: vscode.ExtensionContext) {
+    this.context = context;
+  }
+
+  refresh(): void {
+    this._onDidChangeTreeData.fire();
+  }
+
+  getTreeItem(element: vscode.TreeItem): vscode.TreeItem {
+    return element;
+  }
+
+  getChildren(): vscode.TreeItem[] {
+    // An empty list shows the view's welcome content
+    return listSnapshots(getSnapshotsDirectory(this.context.globalStorageUri.fsPath)).map(
+      (snapshot) => new SnapshotItem(snapshot)
+    );
+  }
+}
+
+export class SnapshotItem extends vscode.TreeItem {
+  readonly snapshotName: string;
+
+  constructor(snapshot: SnapshotMetadata) {
+    super(snapshot.name, vscode.TreeItemCollapsibleState.None);
+    this.snapshotName = snapshot.name;
+    this.description = snapshot.blockHeight !== undefined
+      ? `height ${snapshot.blockHeight} · ${new Date(snapshot.created).toLocaleDateString()}`
+      : new Date(snapshot.created).toLocaleDateString();
+    this.iconPath = new vscode.ThemeIcon('archive');
+    this.contextValue = 'snapshot';
+
+    this.tooltip = new vscode.MarkdownString();
+    this.tooltip.appendMarkdown(`**${snapshot.name}**\n\n`);
+    this.tooltip.appendMarkdown(`Saved ${new Date(snapshot.created).toLocaleString()}\n\n`);
+    this.tooltip.appendMarkdown(`Wallets: ${snapshot.wallets.join(', ') || 'none'} (current: ${snapshot.currentWallet})`);
+  }
+}
+
 // Module-level providers for external refresh calls
 let walletProviderInstance: WalletTreeProvider | null = null;
 let inscriptionsProviderInstance: InscriptionsTreeProvider | null = null;
+let snapshotsProviderInstance: SnapshotsTreeProvider | null = null;
 
 // Export functions to refresh tree views from other modules
 export function refreshWalletTree(): void {
@@ -269,6 +842,7 @@ export function refreshInscriptionsTree(): void {
 export function refreshAllTrees(): void {
   walletProviderInstance?.refresh();
   inscriptionsProviderInstance?.refresh();
+  snapshotsProviderInstance?.refresh();
 }
 
 // Export functions to register tree views
@@ -277,21 +851,44 @@ export function registerTreeViews(context: vscode.ExtensionContext): {
   inscriptionsProvider: InscriptionsTreeProvider;
 } {
   const walletProvider = new WalletTreeProvider(context);
-  const inscriptionsProvider = new InscriptionsTreeProvider();
+  const inscriptionsProvider = new InscriptionsTreeProvider(context);
+  const snapshotsProvider = new SnapshotsTreeProvider(context);
 
   // Store references for external refresh calls
   walletProviderInstance = walletProvider;
   inscriptionsProviderInstance = inscriptionsProvider;
+  snapshotsProviderInstance = snapshotsProvider;
+
+  const inscriptionsView = vscode.window.createTreeView('ordinalsInscriptions', {
+    treeDataProvider: inscriptionsProvider,
+  });
 
   context.subscriptions.push(
     vscode.window.registerTreeDataProvider('ordinalsWallet', walletProvider),
-    vscode.window.registerTreeDataProvider('ordinalsInscriptions', inscriptionsProvider)
+    inscriptionsView,
+    vscode.window.registerTreeDataProvider('ordinalsSnapshots', snapshotsProvider)
   );
 
   // Register refresh commands
   context.subscriptions.push(
     vscode.commands.registerCommand('ord.refreshWallet', () => walletProvider.refresh()),
-    vscode.commands.registerCommand('ord.refreshInscriptions', () => inscriptionsProvider.refresh())
+    vscode.commands.registerCommand('ord.refreshInscriptions', () => inscriptionsProvider.refresh()),
+    vscode.commands.registerCommand('ord.refreshSnapshots', () => snapshotsProvider.refresh())
+  );
+
+  // Register inscription list commands
+  context.subscriptions.push(
+    vscode.commands.registerCommand('ord.loadMoreInscriptions', (walletName: string) =>
+      inscriptionsProvider.loadMore(walletName)
+    ),
+    vscode.commands.registerCommand('ord.filterInscriptions', async () => {
+      const filter = await pickInscriptionFilter(inscriptionsProvider);
+      if (filter === undefined) {
+        return;
+      }
+      inscriptionsProvider.setFilter(filter);
+      inscriptionsView.description = filter ? `Filter: ${filter.label}` : undefined;
+    })
   );
 
   // Register copy address command
@@ -0,0 +1,17 @@
+import { Network } from './config';
+
+// Bech32 HRPs and base58 version prefixes accepted on each network
+const ADDRESS_PATTERNS: Record<Network, RegExp> = {
+  mainnet: /^(bc1[ac-hj-np-z02-9]{11,87}|[13][a-km-zA-HJ-NP-Z1-9]{25,34})$/i,
+  testnet: /^(tb1[ac-hj-np-z02-9]{11,87}|[mn2][a-km-zA-HJ-NP-Z1-9]{25,34})$/i,
+  signet: /^(tb1[ac-hj-np-z02-9]{11,87}|[mn2][a-km-zA-HJ-NP-Z1-9]{25,34})$/i,
+  regtest: /^(bcrt1[ac-hj-np-z02-9]{11,87}|[mn2][a-km-zA-HJ-NP-Z1-9]{25,34})$/i,
+};
+
+/**
+ * Checks that an address looks valid for the network. This catches typos and
+ * wrong-network addresses early; ord and bitcoind do the full checksum validation.
+ */
+export function isValidAddress(address: string, network: Network): boolean {
+  return ADDRESS_PATTERNS[network].test(address.trim());
+}
@@ -0,0 +1,34 @@
+export const SATS_PER_BTC = 100000000;
+
+/**
+ * Parses an amount like "0.5", "0.5 btc", "10000 sats" or "10000sat" into sats.
+ * Bare numbers are BTC, as in bitcoind. Returns undefined for invalid or non-positive amounts.
+ */
+export function parseAmount(input: string): number | undefined {
+  const match = input.trim().toLowerCase().match(/^(\d+(?:\.\d+)?|\.\d+)\s*(btc|sats?|satoshis?)?$/);
+  if (!match) {
+    return undefined;
+  }
+
+  const [, value, unit] = match;
+  if (unit && unit.startsWith('sat')) {
+    // Sats are indivisible
+    if (value.includes('.')) {
+      return undefined;
+    }
+    const sats = parseInt(value, 10);
+    return sats > 0 ? sats : undefined;
+  }
+
+  const [whole, fraction = ''] = value.split('.');
+  if (fraction.length > 8) {
+    return undefined;
+  }
+  // Work on the digits rather than floats so 0.1 BTC is exactly 10000000 sats
+  const sats = parseInt(whole || '0', 10) * SATS_PER_BTC + parseInt(fraction.padEnd(8, '0'), 10);
+  return sats > 0 ? sats : undefined;
+}
+
+export function formatBtc(sats: number): string {
+  return `${(sats / SATS_PER_BTC).toFixed(8)} BTC`;
+}
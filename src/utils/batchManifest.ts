@@ -0,0 +1,127 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { parse as parseYaml } from 'yaml';
+import { RuneEtching, describeEtching } from './runes';
+
+export type BatchMode = 'separate-outputs' | 'shared-output' | 'same-sat' | 'satpoints';
+
+export const BATCH_MODES: BatchMode[] = ['separate-outputs', 'shared-output', 'same-sat', 'satpoints'];
+
+// ord's default postage per inscription output, in sats
+export const DEFAULT_POSTAGE = 10000;
+
+export interface BatchInscriptionEntry {
+  file: string;
+  metadata?: unknown;
+  metaprotocol?: string;
+  destination?: string;
+  satpoint?: string;
+}
+
+/**
+ * Mirrors the batch file format accepted by `ord wallet batch --batch`.
+ * Only the fields the extension inspects are typed; everything else is passed through to ord.
+ */
+export interface BatchManifest {
+  mode?: BatchMode;
+  parent?: string;
+  postage?: number;
+  etching?: RuneEtching;
+  inscriptions: BatchInscriptionEntry[];
+}
+
+/**
+ * Checks whether a file name looks like a batch manifest (YAML or JSON)
+ */
+export function isBatchManifestFile(filePath: string): boolean {
+  return /\.(ya?ml|json)$/i.test(filePath);
+}
+
+/**
+ * Reads a YAML or JSON batch manifest from disk.
+ * JSON is a subset of YAML, so both go through the same parser.
+ */
+export function readBatchManifest(filePath: string): BatchManifest {
+  const text = fs.readFileSync(filePath, 'utf-8');
+
+  let parsed: unknown;
+  try {
+    parsed = parseYaml(text);
+  } catch (e) {
+    const msg = e instanceof Error ? e.message : String(e);
+    throw new Error(`Invalid batch manifest ${path.basename(filePath)}: ${msg}`);
+  }
+
+  if (!parsed || typeof parsed !== 'object' || !Array.isArray((parsed as BatchManifest).inscriptions)) {
+    throw new Error(`Invalid batch manifest ${path.basename(filePath)}: missing "inscriptions" list`);
+  }
+
+  return parsed as BatchManifest;
+}
+
+/**
+ * Validates a batch manifest before any sats are spent.
+ * Returns a list of problems; an empty list means the manifest can be inscribed.
+ */
+export function validateBatchManifest(manifest: BatchManifest, baseDir: string): string[] {
+  const errors: string[] = [];
+
+  if (manifest.mode && !BATCH_MODES.includes(manifest.mode)) {
+    errors.push(`Unknown mode "${manifest.mode}" (expected one of: ${BATCH_MODES.join(', ')})`);
+  }
+
+  if (manifest.postage !== undefined && (!Number.isInteger(manifest.postage) || manifest.postage < 330)) {
+    errors.push(`Postage must be a whole number of sats of at least 330 (got ${manifest.postage})`);
+  }
+
+  if (manifest.parent !== undefined && !/^[a-f0-9]{64}i\d+$/.test(manifest.parent)) {
+    errors.push(`Parent "${manifest.parent}" is not a valid inscription ID`);
+  }
+
+  if (manifest.inscriptions.length === 0) {
+    errors.push('Manifest does not contain any inscriptions');
+  }
+
+  manifest.inscriptions.forEach((entry, index) => {
+    if (!entry || typeof entry.file !== 'string' || entry.file.length === 0) {
+      errors.push(`Inscription #${index + 1} is missing "file"`);
+      return;
+    }
+    const filePath = path.resolve(baseDir, entry.file);
+    if (!fs.existsSync(filePath)) {
+      errors.push(`Inscription #${index + 1}: file not found: ${entry.file}`);
+    }
+  });
+
+  return errors;
+}
+
+/**
+ * Builds human-readable preview lines describing what a manifest will create
+ */
+export function describeBatchManifest(manifest: BatchManifest): string[] {
+  const mode = manifest.mode || 'separate-outputs';
+  const postage = manifest.postage ?? DEFAULT_POSTAGE;
+  const lines: string[] = [
+    `Mode: ${mode}`,
+    `Postage: ${postage} sats${mode === 'shared-output' ? ' (shared)' : ' per inscription'}`,
+  ];
+
+  if (manifest.parent) {
+    lines.push(`Parent: ${manifest.parent}`);
+  }
+  if (manifest.etching) {
+    lines.push('', ...describeEtching(manifest.etching));
+  }
+
+  lines.push('');
+  manifest.inscriptions.forEach((entry, index) => {
+    const extras: string[] = [];
+    if (entry.metadata !== undefined) extras.push('metadata');
+    if (entry.metaprotocol) extras.push(`metaprotocol: ${entry.metaprotocol}`);
+    if (entry.destination) extras.push(`to ${entry.destination}`);
+    lines.push(`${index + 1}. ${entry.file}${extras.length > 0 ? ` (${extras.join(', ')})` : ''}`);
+  });
+
+  return lines;
+}
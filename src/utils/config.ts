@@ -2,6 +2,9 @@ import * as vscode from 'vscode';
 
 export type Network = 'regtest' | 'testnet' | 'signet' | 'mainnet';
 
+// off, a block every autoMineInterval seconds, or a block whenever the mempool has transactions
+export type AutoMineMode = 'off' | 'interval' | 'mempool';
+
 export interface OrdConfig {
   network: Network;
   dataDirectory: string;
@@ -11,8 +14,21 @@ export interface OrdConfig {
   updateCheckInterval: number;
   bitcoindRpcPort: number;
   ordServerPort: number;
+  previewServerPort: number;
+  previewMappingFile: string;
+  indexSats: boolean;
+  indexRunes: boolean;
+  indexAddresses: boolean;
+  indexTransactions: boolean;
+  storeMnemonics: boolean;
+  walletPerWorkspace: boolean;
+  autoMine: AutoMineMode;
+  autoMineInterval: number;
 }
 
+// Settings that change what ord indexes - an existing index.redb can't be reused after changing them
+export const ORD_INDEX_SETTINGS = ['ord.indexSats', 'ord.indexRunes', 'ord.indexAddresses', 'ord.indexTransactions'];
+
 export function getConfig(): OrdConfig {
   const config = vscode.workspace.getConfiguration('ord');
 
@@ -25,9 +41,39 @@ export function getConfig(): OrdConfig {
     updateCheckInterval: config.get<number>('updateCheckInterval', 24),
     bitcoindRpcPort: config.get<number>('bitcoindRpcPort', 18443),
     ordServerPort: config.get<number>('ordServerPort', 9001),
+    previewServerPort: config.get<number>('previewServerPort', 9002),
+    previewMappingFile: config.get<string>('previewMappingFile', 'ord-preview.json'),
+    indexSats: config.get<boolean>('indexSats', false),
+    indexRunes: config.get<boolean>('indexRunes', false),
+    indexAddresses: config.get<boolean>('indexAddresses', false),
+    indexTransactions: config.get<boolean>('indexTransactions', false),
+    storeMnemonics: config.get<boolean>('storeMnemonics', false),
+    walletPerWorkspace: config.get<boolean>('walletPerWorkspace', false),
+    autoMine: config.get<AutoMineMode>('autoMine', 'off'),
+    autoMineInterval: config.get<number>('autoMineInterval', 10),
   };
 }
 
+/**
+ * Global ord options for the enabled index features, passed before the `server` subcommand
+ */
+export function getOrdIndexFlags(config: OrdConfig): string[] {
+  const flags: string[] = [];
+  if (config.indexSats) {
+    flags.push('--index-sats');
+  }
+  if (config.indexRunes) {
+    flags.push('--index-runes');
+  }
+  if (config.indexAddresses) {
+    flags.push('--index-addresses');
+  }
+  if (config.indexTransactions) {
+    flags.push('--index-transactions');
+  }
+  return flags;
+}
+
 export function getNetworkFlag(network: Network): string {
   switch (network) {
     case 'mainnet':
@@ -0,0 +1,61 @@
+import * as path from 'path';
+
+// Content types ord assigns to common file extensions
+const CONTENT_TYPES: Record<string, string> = {
+  '.html': 'text/html;charset=utf-8',
+  '.htm': 'text/html;charset=utf-8',
+  '.js': 'text/javascript',
+  '.mjs': 'text/javascript',
+  '.css': 'text/css',
+  '.json': 'application/json',
+  '.txt': 'text/plain;charset=utf-8',
+  '.md': 'text/markdown;charset=utf-8',
+  '.svg': 'image/svg+xml',
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.gif': 'image/gif',
+  '.webp': 'image/webp',
+  '.avif': 'image/avif',
+  '.mp3': 'audio/mpeg',
+  '.wav': 'audio/wav',
+  '.flac': 'audio/flac',
+  '.mp4': 'video/mp4',
+  '.webm': 'video/webm',
+  '.pdf': 'application/pdf',
+  '.glb': 'model/gltf-binary',
+  '.woff2': 'font/woff2',
+  '.wasm': 'application/wasm',
+};
+
+/**
+ * Gets the content type ord would use for a file, based on its extension
+ */
+export function getContentType(filePath: string): string {
+  return CONTENT_TYPES[path.extname(filePath).toLowerCase()] || 'application/octet-stream';
+}
+
+export interface ContentTypeFilter {
+  label: string;
+  /** Content type prefixes this filter matches, compared without parameters like charset */
+  prefixes: string[];
+}
+
+export const CONTENT_TYPE_FILTERS: ContentTypeFilter[] = [
+  { label: 'Images', prefixes: ['image/'] },
+  { label: 'HTML', prefixes: ['text/html'] },
+  { label: 'Text', prefixes: ['text/plain', 'text/markdown'] },
+  { label: 'JSON', prefixes: ['application/json'] },
+  { label: 'JavaScript & CSS', prefixes: ['text/javascript', 'application/javascript', 'text/css'] },
+  { label: 'Audio', prefixes: ['audio/'] },
+  { label: 'Video', prefixes: ['video/'] },
+  { label: '3D Models', prefixes: ['model/'] },
+];
+
+/**
+ * Checks whether an inscription's content type matches a filter
+ */
+export function matchesContentTypeFilter(contentType: string | null, filter: ContentTypeFilter): boolean {
+  const type = (contentType || '').split(';')[0].trim().toLowerCase();
+  return filter.prefixes.some((prefix) => type.startsWith(prefix));
+}
@@ -0,0 +1,72 @@
+import * as vscode from 'vscode';
+import { FeeEstimateMode } from './rpc';
+import { Network } from './config';
+
+const FEE_RATE_KEY_PREFIX = 'ord.feeRate.';
+
+export const MIN_FEE_RATE = 1;
+
+export interface FeePreset {
+  id: 'priority' | 'normal' | 'economy';
+  label: string;
+  confTarget: number;
+  mode: FeeEstimateMode;
+}
+
+export const FEE_PRESETS: FeePreset[] = [
+  { id: 'priority', label: 'Priority', confTarget: 1, mode: 'CONSERVATIVE' },
+  { id: 'normal', label: 'Normal', confTarget: 6, mode: 'CONSERVATIVE' },
+  { id: 'economy', label: 'Economy', confTarget: 24, mode: 'ECONOMICAL' },
+];
+
+// Rough transaction sizes used for the fee estimate shown in the picker
+const COMMIT_TX_VSIZE = 154;
+const REVEAL_TX_BASE_VSIZE = 120;
+const ENVELOPE_OVERHEAD_BYTES = 80;
+
+let extensionContext: vscode.ExtensionContext | null = null;
+
+export function initFeeRateState(context: vscode.ExtensionContext): void {
+  extensionContext = context;
+}
+
+/**
+ * Gets the remembered fee rate (sat/vB) for a network, if one was chosen before
+ */
+export function getDefaultFeeRate(network: Network): number | undefined {
+  return extensionContext?.globalState.get<number>(FEE_RATE_KEY_PREFIX + network);
+}
+
+/**
+ * Remembers the fee rate (sat/vB) for a network
+ */
+export async function setDefaultFeeRate(network: Network, feeRate: number): Promise<void> {
+  if (!extensionContext) {
+    throw new Error('Fee rate state not initialized');
+  }
+  await extensionContext.globalState.update(FEE_RATE_KEY_PREFIX + network, feeRate);
+}
+
+/**
+ * Converts an estimatesmartfee result (BTC/kvB) to sat/vB, rounded up to 0.1 sat/vB
+ */
+export function btcPerKvbToSatPerVb(feerate: number): number {
+  const satPerVb = (feerate * 100000000) / 1000;
+  return Math.max(MIN_FEE_RATE, Math.ceil(satPerVb * 10) / 10);
+}
+
+/**
+ * Estimates the combined commit + reveal vsize for inscribing content of the given size.
+ * Inscription content lives in the witness, which is discounted 4x.
+ */
+export function estimateInscriptionVsize(contentBytes: number): number {
+  const revealVsize = REVEAL_TX_BASE_VSIZE + Math.ceil((contentBytes + ENVELOPE_OVERHEAD_BYTES) / 4);
+  return COMMIT_TX_VSIZE + revealVsize;
+}
+
+/**
+ * Estimates the total fee in sats for inscribing content at a fee rate
+ */
+export function estimateInscriptionFee(contentBytes: number, feeRate: number): number {
+  return Math.ceil(estimateInscriptionVsize(contentBytes) * feeRate);
+}
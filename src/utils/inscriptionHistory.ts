@@ -4,10 +4,16 @@ export interface InscriptionRecord {
   id: string;
   fileName: string;
   timestamp: number;
+  parent?: string;
+  metadata?: unknown;
+  metaprotocol?: string;
 }
 
+export type InscriptionDetails = Omit<InscriptionRecord, 'id' | 'fileName' | 'timestamp'>;
+
 const HISTORY_KEY = 'ord.inscriptionHistory';
-const MAX_HISTORY = 5;
+// Enough for several pages in the Inscriptions view
+const MAX_HISTORY = 50;
 
 let extensionContext: vscode.ExtensionContext | null = null;
 
@@ -15,7 +21,7 @@ export function initInscriptionHistory(context: vscode.ExtensionContext): void {
   extensionContext = context;
 }
 
-export function addInscription(id: string, fileName: string): void {
+export function addInscription(id: string, fileName: string, details: InscriptionDetails = {}): void {
   if (!extensionContext) return;
 
   const history = getInscriptionHistory();
@@ -25,6 +31,7 @@ export function addInscription(id: string, fileName: string): void {
     id,
     fileName,
     timestamp: Date.now(),
+    ...details,
   });
 
   // Keep only the last MAX_HISTORY inscriptions
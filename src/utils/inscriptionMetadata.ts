@@ -0,0 +1,39 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+// Sidecar suffixes checked next to the inscribed file, e.g. foo.png.meta.json
+const SIDECAR_SUFFIXES = ['.meta.json', '.meta.cbor'];
+
+/**
+ * Finds a sidecar metadata file for the given file, if one exists
+ */
+export function findMetadataSidecar(filePath: string): string | undefined {
+  for (const suffix of SIDECAR_SUFFIXES) {
+    const candidate = filePath + suffix;
+    if (fs.existsSync(candidate)) {
+      return candidate;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * CBOR metadata is passed to ord as-is; everything else is treated as JSON
+ */
+export function isCborMetadata(metadataPath: string): boolean {
+  return path.extname(metadataPath).toLowerCase() === '.cbor';
+}
+
+/**
+ * Reads and validates a JSON metadata file so mistakes surface before any sats are spent
+ */
+export function readJsonMetadata(metadataPath: string): unknown {
+  const text = fs.readFileSync(metadataPath, 'utf-8');
+
+  try {
+    return JSON.parse(text);
+  } catch (e) {
+    const msg = e instanceof Error ? e.message : String(e);
+    throw new Error(`Invalid JSON metadata in ${path.basename(metadataPath)}: ${msg}`);
+  }
+}
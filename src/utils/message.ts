@@ -0,0 +1,34 @@
+export type SignerKind = 'inscription' | 'output' | 'address';
+
+/**
+ * Tells what `ord wallet sign --signer` will treat a value as
+ */
+export function getSignerKind(value: string): SignerKind {
+  const trimmed = value.trim();
+  if (/^[0-9a-f]{64}i\d+$/i.test(trimmed)) {
+    return 'inscription';
+  }
+  if (/^[0-9a-f]{64}:\d+$/i.test(trimmed)) {
+    return 'output';
+  }
+  return 'address';
+}
+
+/**
+ * BIP-322 signatures are base64, usually pasted from a wallet or another tool
+ */
+export function isBase64Signature(value: string): boolean {
+  const trimmed = value.trim();
+  return trimmed.length > 0 && trimmed.length % 4 === 0 && /^[A-Za-z0-9+/]+={0,2}$/.test(trimmed);
+}
+
+/**
+ * Tells a rejected signature apart from ord failing to run: `ord verify` reports mismatches
+ * and undecodable witnesses as errors too, but usage errors and missing binaries are not verdicts
+ */
+export function isVerificationFailure(error: string): boolean {
+  if (/usage:|unexpected argument|unrecognized|ENOENT|EACCES|spawn|command not found/i.test(error)) {
+    return false;
+  }
+  return /invalid|verif|signature|witness|decode|bip322/i.test(error);
+}
@@ -0,0 +1,105 @@
+import * as vscode from 'vscode';
+import { Network } from './config';
+
+// Wallet names with a stored mnemonic, per network. The mnemonics themselves live in SecretStorage.
+const STORED_MNEMONICS_KEY = 'ord.storedMnemonics';
+
+const MNEMONIC_WORD_COUNTS = [12, 15, 18, 21, 24];
+
+let extensionContext: vscode.ExtensionContext | null = null;
+
+export function initMnemonicStore(context: vscode.ExtensionContext): void {
+  extensionContext = context;
+}
+
+/**
+ * Lowercases a mnemonic and collapses whitespace, so pasted phrases with line breaks work
+ */
+export function normalizeMnemonic(input: string): string {
+  return input.trim().toLowerCase().split(/\s+/).join(' ');
+}
+
+/**
+ * Checks the shape of a BIP39 mnemonic. ord validates the checksum when restoring.
+ * Returns an error message, or null if the mnemonic looks fine.
+ */
+export function validateMnemonic(input: string): string | null {
+  const words = normalizeMnemonic(input).split(' ').filter(Boolean);
+
+  if (!words.every((word) => /^[a-z]+$/.test(word))) {
+    return 'Mnemonic words contain only letters';
+  }
+  if (!MNEMONIC_WORD_COUNTS.includes(words.length)) {
+    return `Mnemonics have 12, 15, 18, 21 or 24 words (got ${words.length})`;
+  }
+  return null;
+}
+
+function secretKey(network: Network, walletName: string): string {
+  return `ord.mnemonic.${network}.${walletName}`;
+}
+
+function getStoredIndex(): Partial<Record<Network, string[]>> {
+  return extensionContext?.globalState.get<Partial<Record<Network, string[]>>>(STORED_MNEMONICS_KEY, {}) ?? {};
+}
+
+/**
+ * Keeps a wallet's mnemonic in SecretStorage (the OS keychain), so it survives a wallet reset
+ */
+export async function storeMnemonic(network: Network, walletName: string, mnemonic: string): Promise<void> {
+  if (!extensionContext) {
+    throw new Error('Mnemonic store not initialized');
+  }
+
+  await extensionContext.secrets.store(secretKey(network, walletName), mnemonic);
+
+  const index = getStoredIndex();
+  const names = new Set(index[network] ?? []);
+  names.add(walletName);
+  await extensionContext.globalState.update(STORED_MNEMONICS_KEY, { ...index, [network]: [...names].sort() });
+}
+
+export async function getStoredMnemonic(network: Network, walletName: string): Promise<string | undefined> {
+  return extensionContext?.secrets.get(secretKey(network, walletName));
+}
+
+/**
+ * Lists the wallets of a network that have a stored mnemonic
+ */
+export function listStoredMnemonics(network: Network): string[] {
+  return getStoredIndex()[network] ?? [];
+}
+
+export async function deleteStoredMnemonic(network: Network, walletName: string): Promise<void> {
+  if (!extensionContext) {
+    return;
+  }
+
+  await extensionContext.secrets.delete(secretKey(network, walletName));
+
+  const index = getStoredIndex();
+  const names = (index[network] ?? []).filter((name) => name !== walletName);
+  await extensionContext.globalState.update(STORED_MNEMONICS_KEY, { ...index, [network]: names });
+}
+
+/**
+ * Forgets every stored mnemonic of a network, for when all of its wallets are gone
+ */
+export async function deleteStoredMnemonics(network: Network): Promise<void> {
+  for (const walletName of listStoredMnemonics(network)) {
+    await deleteStoredMnemonic(network, walletName);
+  }
+}
+
+/**
+ * Moves a stored mnemonic along with a renamed wallet
+ */
+export async function renameStoredMnemonic(network: Network, from: string, to: string): Promise<void> {
+  const mnemonic = await getStoredMnemonic(network, from);
+  if (!mnemonic) {
+    return;
+  }
+
+  await storeMnemonic(network, to, mnemonic);
+  await deleteStoredMnemonic(network, from);
+}
@@ -0,0 +1,153 @@
+import * as http from 'http';
+import { getConfig } from './config';
+
+export interface InscriptionInfo {
+  id: string;
+  number: number;
+  address: string | null;
+  content_type: string | null;
+  effective_content_type?: string | null;
+  content_length: number | null;
+  fee: number;
+  height: number;
+  sat: number | null;
+  satpoint: string;
+  timestamp: number;
+  value: number | null;
+  parents?: string[];
+  children?: string[];
+  metaprotocol?: string | null;
+}
+
+export interface OrdStatus {
+  height: number | null;
+  inscriptions: number;
+  runes: number;
+  rune_index: boolean;
+  sat_index: boolean;
+  address_index: boolean;
+  transaction_index: boolean;
+  chain: string;
+}
+
+export interface RuneInfo {
+  entry: {
+    block: number;
+    spaced_rune: string;
+    divisibility: number;
+    symbol: string | null;
+    mints: number;
+    premine: number;
+    terms: {
+      amount: number | null;
+      cap: number | null;
+      height: [number | null, number | null];
+      offset: [number | null, number | null];
+    } | null;
+  };
+  id: string;
+  mintable: boolean;
+}
+
+export interface OutputInfo {
+  address: string | null;
+  inscriptions: string[];
+  /** Value in sats */
+  value: number;
+  spent: boolean;
+}
+
+export function getOrdServerUrl(): string {
+  const config = getConfig();
+  return `http://127.0.0.1:${config.ordServerPort}`;
+}
+
+/**
+ * Makes a GET request to the ord server and returns the raw response body.
+ */
+async function ordApiRequest(apiPath: string, accept: string): Promise<string> {
+  const config = getConfig();
+
+  return new Promise((resolve, reject) => {
+    const req = http.request(
+      {
+        hostname: '127.0.0.1',
+        port: config.ordServerPort,
+        path: apiPath,
+        method: 'GET',
+        headers: { Accept: accept },
+        timeout: 10000,
+      },
+      (res) => {
+        // Decoded once at the end, so multibyte characters split across chunks stay intact
+        const chunks: Buffer[] = [];
+        res.on('data', (chunk: Buffer) => chunks.push(chunk));
+        res.on('end', () => {
+          const data = Buffer.concat(chunks).toString('utf8');
+          if (res.statusCode === 200) {
+            resolve(data);
+          } else {
+            reject(new Error(`ord server returned HTTP ${res.statusCode} for ${apiPath}: ${data.trim()}`));
+          }
+        });
+      }
+    );
+
+    req.on('error', reject);
+    req.on('timeout', () => {
+      req.destroy();
+      reject(new Error(`Timed out requesting ${apiPath} from ord server`));
+    });
+    req.end();
+  });
+}
+
+/**
+ * Calls an ord server JSON API endpoint
+ */
+export async function ordApiGet<T = unknown>(apiPath: string): Promise<T> {
+  const data = await ordApiRequest(apiPath, 'application/json');
+  try {
+    return JSON.parse(data) as T;
+  } catch {
+    throw new Error(`Failed to parse ord server response for ${apiPath}: ${data}`);
+  }
+}
+
+export async function getInscriptionInfo(inscriptionId: string): Promise<InscriptionInfo> {
+  return ordApiGet(`/inscription/${inscriptionId}`);
+}
+
+/**
+ * Fetches inscription content as text, for rendering text-based inscriptions inline
+ */
+export async function getInscriptionText(inscriptionId: string): Promise<string> {
+  return ordApiRequest(`/content/${inscriptionId}`, '*/*');
+}
+
+export async function getOutputInfo(outpoint: string): Promise<OutputInfo> {
+  return ordApiGet(`/output/${outpoint}`);
+}
+
+/**
+ * Inscriptions created in the block at the given height of ord's chain
+ */
+export async function getBlockInscriptions(height: number): Promise<string[]> {
+  const block = await ordApiGet<{ inscriptions: string[] }>(`/block/${height}`);
+  return block.inscriptions;
+}
+
+/**
+ * Hash of the latest block ord has indexed
+ */
+export async function getOrdBlockHash(): Promise<string> {
+  return (await ordApiRequest('/blockhash', 'text/plain')).trim();
+}
+
+export async function getOrdStatus(): Promise<OrdStatus> {
+  return ordApiGet('/status');
+}
+
+export async function getRuneInfo(rune: string): Promise<RuneInfo> {
+  return ordApiGet(`/rune/${encodeURIComponent(rune)}`);
+}
@@ -0,0 +1,64 @@
+import { OutputReference } from './rpc';
+
+export interface OutputEntry {
+  outpoint: string;
+  txid: string;
+  vout: number;
+  /** Value in sats */
+  sats: number;
+  /** Undefined when bitcoind doesn't report the output, e.g. while it is locked */
+  confirmations?: number;
+  frozen: boolean;
+  inscriptions: string[];
+  runes: Record<string, string>;
+}
+
+interface OrdOutput {
+  output: string;
+  amount: number;
+  inscriptions: string[];
+  runes: Record<string, string>;
+}
+
+export function splitOutpoint(outpoint: string): OutputReference {
+  const separator = outpoint.lastIndexOf(':');
+  return { txid: outpoint.substring(0, separator), vout: Number(outpoint.substring(separator + 1)) };
+}
+
+/**
+ * Combines ord's view of the wallet outputs with bitcoind's confirmations and locks.
+ * Unconfirmed and newest outputs come first.
+ */
+export function mergeWalletOutputs(
+  outputs: OrdOutput[],
+  unspent: (OutputReference & { confirmations: number })[],
+  locked: OutputReference[]
+): OutputEntry[] {
+  const confirmations = new Map(unspent.map((utxo) => [`${utxo.txid}:${utxo.vout}`, utxo.confirmations]));
+  const frozen = new Set(locked.map((utxo) => `${utxo.txid}:${utxo.vout}`));
+
+  return outputs
+    .map((output) => ({
+      outpoint: output.output,
+      ...splitOutpoint(output.output),
+      sats: output.amount,
+      confirmations: confirmations.get(output.output),
+      frozen: frozen.has(output.output),
+      inscriptions: output.inscriptions,
+      runes: output.runes,
+    }))
+    .sort(compareConfirmations);
+}
+
+// Fewest confirmations first; outputs bitcoind doesn't report go last
+function compareConfirmations(a: OutputEntry, b: OutputEntry): number {
+  if (a.confirmations === undefined || b.confirmations === undefined) {
+    return Number(a.confirmations === undefined) - Number(b.confirmations === undefined);
+  }
+  return a.confirmations - b.confirmations;
+}
+
+export function shortenOutpoint(outpoint: string): string {
+  const { txid, vout } = splitOutpoint(outpoint);
+  return `${txid.substring(0, 8)}…${txid.substring(txid.length - 4)}:${vout}`;
+}
@@ -0,0 +1,26 @@
+export interface ParentCandidate {
+  inscriptionId: string;
+  /** File name from the local history, if the inscription was made here */
+  fileName?: string;
+  /** Whether the current wallet holds it; only held inscriptions can be parents */
+  held: boolean;
+}
+
+/**
+ * Lists possible parents: the wallet's inscriptions first, then history entries the wallet
+ * no longer holds, so picking one of those can explain why it can't be used
+ */
+export function listParentCandidates(
+  heldIds: string[],
+  history: { id: string; fileName: string }[]
+): ParentCandidate[] {
+  const fileNames = new Map(history.map((record) => [record.id, record.fileName]));
+  const held = new Set(heldIds);
+
+  return [
+    ...heldIds.map((id) => ({ inscriptionId: id, fileName: fileNames.get(id), held: true })),
+    ...history
+      .filter((record) => !held.has(record.id))
+      .map((record) => ({ inscriptionId: record.id, fileName: record.fileName, held: false })),
+  ];
+}
@@ -93,6 +93,22 @@ export function getDefaultDataDirectory(): string {
   }
 }
 
+/**
+ * Subdirectory bitcoind and ord use for a network's data ('' for mainnet)
+ */
+export function getNetworkSubdirectory(network: string): string {
+  switch (network) {
+    case 'regtest':
+      return 'regtest';
+    case 'testnet':
+      return 'testnet3';
+    case 'signet':
+      return 'signet';
+    default:
+      return '';
+  }
+}
+
 export function getOrdDataDirectory(): string {
   const platform = getPlatform();
   const home = os.homedir();
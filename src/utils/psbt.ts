@@ -0,0 +1,114 @@
+// Base64 of the "psbt\xff" magic bytes every PSBT starts with
+const PSBT_BASE64_PREFIX = 'cHNidP8';
+
+export interface PsbtInscription {
+  id: string;
+  /** Offset of the inscribed sat inside its output */
+  offset: number;
+}
+
+export interface PsbtInput {
+  outpoint: string;
+  address?: string;
+  /** Value in sats, when the PSBT or the ord index knows it */
+  sats?: number;
+  signed: boolean;
+  inscriptions: PsbtInscription[];
+}
+
+export interface PsbtOutput {
+  index: number;
+  address?: string;
+  sats: number;
+  /** Inscriptions that land in this output */
+  inscriptions: string[];
+}
+
+export interface PsbtSummary {
+  txid: string;
+  vsize: number;
+  inputs: PsbtInput[];
+  outputs: PsbtOutput[];
+  /** Undefined while an input's value is unknown */
+  feeSats?: number;
+  /** Inscriptions whose sats go to the miner as fee */
+  toFee: string[];
+  /** Inscriptions that can't be traced because an input's value or their position is unknown */
+  untraced: string[];
+}
+
+export function looksLikePsbt(value: string): boolean {
+  return value.trim().startsWith(PSBT_BASE64_PREFIX);
+}
+
+/**
+ * An input counts as signed once it has a final script or any signature
+ */
+export function isInputSigned(input: {
+  partial_signatures?: Record<string, string>;
+  taproot_key_path_sig?: string;
+  final_scriptwitness?: string[];
+  final_scriptSig?: { hex: string };
+}): boolean {
+  return Boolean(
+    input.final_scriptwitness?.length ||
+      input.final_scriptSig ||
+      input.taproot_key_path_sig ||
+      Object.keys(input.partial_signatures ?? {}).length
+  );
+}
+
+/**
+ * Follows inscribed sats through the transaction the way ord does: sats flow first-in-first-out
+ * from the inputs into the outputs, and sats past the last output become fee.
+ */
+export function traceInscriptions(inputs: PsbtInput[], outputs: PsbtOutput[]): Pick<PsbtSummary, 'toFee' | 'untraced'> {
+  const toFee: string[] = [];
+  const untraced: string[] = [];
+  let inputStart = 0;
+  let known = true;
+
+  for (const input of inputs) {
+    if (!known || input.sats === undefined) {
+      known = false;
+      untraced.push(...input.inscriptions.map((inscription) => inscription.id));
+      continue;
+    }
+
+    for (const inscription of input.inscriptions) {
+      const position = inputStart + inscription.offset;
+      let outputStart = 0;
+      const output = outputs.find((candidate) => {
+        const contains = position >= outputStart && position < outputStart + candidate.sats;
+        outputStart += candidate.sats;
+        return contains;
+      });
+
+      if (output) {
+        output.inscriptions.push(inscription.id);
+      } else {
+        toFee.push(inscription.id);
+      }
+    }
+    inputStart += input.sats;
+  }
+
+  return { toFee, untraced };
+}
+
+/**
+ * Parses "<txid>:<vout>:<offset>" into the output and the offset within it
+ */
+export function splitSatpoint(satpoint: string): { outpoint: string; offset: number } {
+  const separator = satpoint.lastIndexOf(':');
+  return { outpoint: satpoint.substring(0, separator), offset: Number(satpoint.substring(separator + 1)) };
+}
+
+/**
+ * Sums the values of the reveal outputs that carry the new inscriptions, counting an output
+ * shared by several inscriptions once. `locations` are satpoints in the reveal transaction.
+ */
+export function getInscriptionPostage(locations: string[], outputs: { n: number; sats: number }[]): number {
+  const vouts = new Set(locations.map((location) => Number(splitSatpoint(location).outpoint.split(':')[1])));
+  return outputs.filter((output) => vouts.has(output.n)).reduce((sum, output) => sum + output.sats, 0);
+}
@@ -0,0 +1,93 @@
+/**
+ * Where ord places an inscription, as far as a reorg can change it
+ */
+export interface InscriptionState {
+  height: number;
+  satpoint: string;
+  address: string | null;
+}
+
+/**
+ * - unconfirmed: ord no longer knows the inscription; its reveal is back in the mempool or gone
+ * - ownerChanged: it now sits at a different address
+ * - moved: it sits in a different output of the same address
+ * - reconfirmed: same location, but its reveal was mined again at another height
+ */
+export type InscriptionChange = 'unconfirmed' | 'ownerChanged' | 'moved' | 'reconfirmed' | 'unchanged';
+
+export interface InscriptionDiff {
+  id: string;
+  change: InscriptionChange;
+  before: InscriptionState;
+  after?: InscriptionState;
+}
+
+const CHANGE_LABELS: Record<InscriptionChange, string> = {
+  unconfirmed: 'Unconfirmed',
+  ownerChanged: 'Owner changed',
+  moved: 'Moved',
+  reconfirmed: 'Re-confirmed',
+  unchanged: 'Unchanged',
+};
+
+/**
+ * The blocks `invalidateblock` disconnects when invalidating the first of the last `depth` blocks.
+ * Returns undefined when the depth would reach the genesis block, which can't be invalidated.
+ */
+export function getReorgRange(tipHeight: number, depth: number): { first: number; last: number } | undefined {
+  if (!Number.isInteger(depth) || depth < 1 || depth > tipHeight) {
+    return undefined;
+  }
+  return { first: tipHeight - depth + 1, last: tipHeight };
+}
+
+/**
+ * Compares ord's view of each inscription before and after a reorg. Inscriptions missing
+ * from `after` are no longer indexed. Changes come first, in the order of `before`.
+ */
+export function diffInscriptions(
+  before: Map<string, InscriptionState>,
+  after: Map<string, InscriptionState | undefined>
+): InscriptionDiff[] {
+  const diffs: InscriptionDiff[] = [];
+
+  for (const [id, previous] of before) {
+    const current = after.get(id);
+    let change: InscriptionChange;
+    if (!current) {
+      change = 'unconfirmed';
+    } else if (current.address !== previous.address) {
+      change = 'ownerChanged';
+    } else if (current.satpoint !== previous.satpoint) {
+      change = 'moved';
+    } else if (current.height !== previous.height) {
+      change = 'reconfirmed';
+    } else {
+      change = 'unchanged';
+    }
+    diffs.push({ id, change, before: previous, after: current });
+  }
+
+  return [...diffs.filter((diff) => diff.change !== 'unchanged'), ...diffs.filter((diff) => diff.change === 'unchanged')];
+}
+
+function describeState(state: InscriptionState): string {
+  return `height ${state.height}, ${state.address ?? 'no address'}, ${state.satpoint}`;
+}
+
+export function getInscriptionChangeLabel(change: InscriptionChange): string {
+  return CHANGE_LABELS[change];
+}
+
+/**
+ * The inscription ID with where it was and where it is now
+ */
+export function describeInscriptionDiff(diff: InscriptionDiff): string {
+  const lines = [diff.id, `Before: ${describeState(diff.before)}`];
+  if (diff.change === 'unconfirmed') {
+    lines.push('After: not indexed');
+  } else if (diff.after && diff.change !== 'unchanged') {
+    lines.push(`After: ${describeState(diff.after)}`);
+  }
+  return lines.join('\n');
+}
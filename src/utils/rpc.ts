@@ -100,6 +100,10 @@ export async function getBlockchainInfo(): Promise<{
   return rpcCall('getblockchaininfo');
 }
 
+export async function getMempoolInfo(): Promise<{ size: number; bytes: number }> {
+  return rpcCall('getmempoolinfo');
+}
+
 export async function getWalletInfo(wallet: string): Promise<{
   walletname: string;
   balance: number;
@@ -128,6 +132,10 @@ export async function getNewAddress(wallet: string): Promise<string> {
   return rpcCall('getnewaddress', [], wallet);
 }
 
+export async function getAddressInfo(wallet: string, address: string): Promise<{ address: string; ismine: boolean }> {
+  return rpcCall('getaddressinfo', [address], wallet);
+}
+
 export async function generateToAddress(
   numBlocks: number,
   address: string
@@ -135,10 +143,157 @@ export async function generateToAddress(
   return rpcCall('generatetoaddress', [numBlocks, address]);
 }
 
+/**
+ * Mines a block with exactly the given transactions (raw hex or txids from the mempool), so a
+ * block can leave pending transactions out
+ */
+export async function generateBlock(address: string, transactions: string[]): Promise<{ hash: string }> {
+  return rpcCall('generateblock', [address, transactions]);
+}
+
+export async function getBlockHash(height: number): Promise<string> {
+  return rpcCall('getblockhash', [height]);
+}
+
+export async function getBestBlockHash(): Promise<string> {
+  return rpcCall('getbestblockhash');
+}
+
+/**
+ * Marks a block and all its descendants invalid, disconnecting them from the active chain
+ */
+export async function invalidateBlock(hash: string): Promise<void> {
+  return rpcCall('invalidateblock', [hash]);
+}
+
 export async function getBalance(wallet: string): Promise<number> {
   return rpcCall('getbalance', [], wallet);
 }
 
+/**
+ * Sends from a bitcoind wallet at an explicit fee rate (sat/vB)
+ */
+export async function sendToAddress(
+  wallet: string,
+  address: string,
+  amountBtc: number,
+  feeRate: number
+): Promise<string> {
+  // address, amount, comment, comment_to, subtractfeefromamount, replaceable,
+  // conf_target, estimate_mode, avoid_reuse, fee_rate
+  return rpcCall('sendtoaddress', [address, amountBtc, '', '', false, true, null, 'unset', null, feeRate], wallet);
+}
+
+export interface UnspentOutput {
+  txid: string;
+  vout: number;
+  amount: number;
+  confirmations: number;
+}
+
+export interface OutputReference {
+  txid: string;
+  vout: number;
+}
+
+/**
+ * Lists a wallet's unspent outputs. bitcoind leaves out locked outputs.
+ */
+export async function listUnspent(wallet: string): Promise<UnspentOutput[]> {
+  return rpcCall('listunspent', [0], wallet);
+}
+
+export async function listLockUnspent(wallet: string): Promise<OutputReference[]> {
+  return rpcCall('listlockunspent', [], wallet);
+}
+
+/**
+ * Locks or unlocks outputs so coin selection (bitcoind's and ord's) never spends them.
+ * Persistent locks survive bitcoind restarts.
+ */
+export async function lockUnspent(
+  wallet: string,
+  unlock: boolean,
+  outputs: OutputReference[],
+  persistent: boolean = true
+): Promise<boolean> {
+  return rpcCall('lockunspent', [unlock, outputs, persistent], wallet);
+}
+
+export interface WalletTransactionEntry {
+  txid: string;
+  category: 'send' | 'receive' | 'generate' | 'immature' | 'orphan';
+  /** BTC, negative for sends */
+  amount: number;
+  /** BTC, negative; only on send entries, repeated for each output of the transaction */
+  fee?: number;
+  confirmations: number;
+  time: number;
+}
+
+/**
+ * Lists a wallet's most recent transaction entries, one per output it sent or received
+ */
+export async function listTransactions(wallet: string, count: number): Promise<WalletTransactionEntry[]> {
+  return rpcCall('listtransactions', ['*', count, 0, true], wallet);
+}
+
+export async function getTxOut(txid: string, vout: number): Promise<{ confirmations: number; value: number } | null> {
+  return rpcCall('gettxout', [txid, vout]);
+}
+
+export interface DecodedPsbt {
+  tx: {
+    txid: string;
+    vsize: number;
+    vin: { txid: string; vout: number }[];
+    vout: { value: number; n: number; scriptPubKey: { address?: string; type: string } }[];
+  };
+  inputs: {
+    witness_utxo?: { amount: number; scriptPubKey: { address?: string } };
+    partial_signatures?: Record<string, string>;
+    taproot_key_path_sig?: string;
+    final_scriptwitness?: string[];
+    final_scriptSig?: { hex: string };
+  }[];
+  fee?: number;
+}
+
+export async function decodePsbt(psbt: string): Promise<DecodedPsbt> {
+  return rpcCall('decodepsbt', [psbt]);
+}
+
+/**
+ * Signs the inputs a wallet can sign and fills in what it knows about the others
+ */
+export async function walletProcessPsbt(wallet: string, psbt: string): Promise<{ psbt: string; complete: boolean }> {
+  return rpcCall('walletprocesspsbt', [psbt, true], wallet);
+}
+
+/**
+ * Finalizes a PSBT's inputs. Once every input is final, `hex` holds the network-ready transaction.
+ */
+export async function finalizePsbt(psbt: string): Promise<{ psbt?: string; hex?: string; complete: boolean }> {
+  return rpcCall('finalizepsbt', [psbt]);
+}
+
+export async function sendRawTransaction(hex: string): Promise<string> {
+  return rpcCall('sendrawtransaction', [hex]);
+}
+
+export type FeeEstimateMode = 'ECONOMICAL' | 'CONSERVATIVE';
+
+export async function estimateSmartFee(
+  confTarget: number,
+  mode: FeeEstimateMode = 'CONSERVATIVE'
+): Promise<{
+  feerate?: number;
+  errors?: string[];
+  blocks: number;
+}> {
+  return rpcCall('estimatesmartfee', [confTarget, mode]);
+}
+
 export async function isBitcoindReady(): Promise<boolean> {
   try {
     await getBlockchainInfo();
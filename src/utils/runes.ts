@@ -0,0 +1,298 @@
+import { Network } from './config';
+
+// Runestone::COMMIT_CONFIRMATIONS - the etching commit must have this many confirmations before the reveal
+export const COMMIT_CONFIRMATIONS = 6;
+
+export const MAX_DIVISIBILITY = 38;
+
+// Longest name that fits in a u128 ("BCGDENLQRQWDSLRUGSNLBTMFIJAV")
+const MAX_RUNE_LENGTH = 28;
+
+// Rune names unlock one letter shorter every 17,500 blocks over the four years after runes activate
+const SUBSIDY_HALVING_INTERVAL = 210000;
+const UNLOCK_INTERVAL = SUBSIDY_HALVING_INTERVAL / 12;
+
+const FIRST_RUNE_HEIGHT: Record<Network, number> = {
+  mainnet: SUBSIDY_HALVING_INTERVAL * 4,
+  testnet: SUBSIDY_HALVING_INTERVAL * 12,
+  signet: 0,
+  regtest: 0,
+};
+
+export interface HeightWindow {
+  start?: string;
+  end?: string;
+}
+
+export interface RuneTerms {
+  amount: string;
+  cap: string;
+  height?: HeightWindow;
+  offset?: HeightWindow;
+}
+
+/**
+ * Mirrors the `etching` section of an `ord wallet batch` file.
+ * Amounts are decimal strings so large supplies keep full precision.
+ */
+export interface RuneEtching {
+  rune: string;
+  divisibility: number;
+  premine: string;
+  supply: string;
+  symbol?: string;
+  turbo?: boolean;
+  terms?: RuneTerms;
+}
+
+/**
+ * The parts of ord's rune entry that decide whether it can be minted
+ */
+export interface RuneMintState {
+  block: number;
+  mints: number;
+  terms: {
+    cap: number | null;
+    height: [number | null, number | null];
+    offset: [number | null, number | null];
+  } | null;
+}
+
+/**
+ * Uppercases a rune name and turns spaces into the • spacer ord uses
+ */
+export function normalizeRuneName(input: string): string {
+  return input.trim().toUpperCase().replace(/[\s.]+/g, '•');
+}
+
+export function countRuneLetters(name: string): number {
+  return name.replace(/•/g, '').length;
+}
+
+/**
+ * Shortest rune name ord accepts at a block height. Names of exactly this length
+ * may still be below the minimum value; ord reports that when etching.
+ */
+export function getMinimumRuneLength(network: Network, height: number): number {
+  const start = FIRST_RUNE_HEIGHT[network];
+  const offset = height + 1;
+
+  if (offset < start) {
+    return 13;
+  }
+
+  return Math.max(1, 13 - Math.floor((offset - start) / UNLOCK_INTERVAL));
+}
+
+/**
+ * Validates a normalized rune name. Returns an error message, or null if the name is fine.
+ */
+export function validateRuneName(name: string): string | null {
+  if (!/^[A-Z](?:•?[A-Z])*$/.test(name)) {
+    return 'Rune names use letters A-Z, with single spacers (• or space) only between letters';
+  }
+
+  if (countRuneLetters(name) > MAX_RUNE_LENGTH) {
+    return `Rune names can have at most ${MAX_RUNE_LENGTH} letters`;
+  }
+
+  return null;
+}
+
+/**
+ * Parses a decimal amount into base units for the given divisibility
+ */
+export function parseRuneAmount(value: string, divisibility: number): bigint | undefined {
+  const match = value.trim().replace(/_/g, '').match(/^(\d+)(?:\.(\d*))?$/);
+  if (!match) {
+    return undefined;
+  }
+
+  const [, whole, fraction = ''] = match;
+  if (fraction.length > divisibility) {
+    return undefined;
+  }
+
+  return BigInt(whole) * 10n ** BigInt(divisibility) + BigInt(fraction.padEnd(divisibility, '0') || '0');
+}
+
+/**
+ * Formats base units as a decimal amount with exactly `divisibility` decimals
+ */
+export function formatRuneAmount(units: bigint, divisibility: number): string {
+  if (divisibility === 0) {
+    return units.toString();
+  }
+
+  const digits = units.toString().padStart(divisibility + 1, '0');
+  return `${digits.slice(0, -divisibility)}.${digits.slice(-divisibility)}`;
+}
+
+/**
+ * Reads the minted amount from `ord wallet mint` output as text. It is a u128 in base units,
+ * which JSON.parse would round once it passes 2^53.
+ */
+export function readMintedAmount(stdout: string): bigint | undefined {
+  const match = stdout.match(/"pile"\s*:\s*\{[^}]*?"amount"\s*:\s*(\d+)/);
+  return match ? BigInt(match[1]) : undefined;
+}
+
+/**
+ * Computes the total supply (premine + amount * cap) that ord requires in the etching
+ */
+export function computeRuneSupply(premine: string, divisibility: number, terms?: RuneTerms): string | undefined {
+  const premineUnits = parseRuneAmount(premine, divisibility);
+  if (premineUnits === undefined) {
+    return undefined;
+  }
+
+  let supply = premineUnits;
+  if (terms) {
+    const amount = parseRuneAmount(terms.amount, divisibility);
+    const cap = parseRuneAmount(terms.cap, 0);
+    if (amount === undefined || cap === undefined) {
+      return undefined;
+    }
+    supply += amount * cap;
+  }
+
+  return formatRuneAmount(supply, divisibility);
+}
+
+function validateWindow(label: string, window: HeightWindow | undefined, errors: string[]): void {
+  if (!window) {
+    return;
+  }
+
+  const start = window.start !== undefined ? parseRuneAmount(window.start, 0) : undefined;
+  const end = window.end !== undefined ? parseRuneAmount(window.end, 0) : undefined;
+
+  if (window.start !== undefined && start === undefined) {
+    errors.push(`${label} start must be a whole number of blocks`);
+  }
+  if (window.end !== undefined && end === undefined) {
+    errors.push(`${label} end must be a whole number of blocks`);
+  }
+  if (start !== undefined && end !== undefined && end <= start) {
+    errors.push(`${label} end must be after its start`);
+  }
+}
+
+/**
+ * Validates an etching before any sats are spent.
+ * Returns a list of problems; an empty list means the rune can be etched.
+ */
+export function validateEtching(etching: RuneEtching, network: Network, height: number): string[] {
+  const errors: string[] = [];
+
+  const nameError = validateRuneName(etching.rune);
+  if (nameError) {
+    errors.push(nameError);
+  } else {
+    const minimum = getMinimumRuneLength(network, height);
+    if (countRuneLetters(etching.rune) < minimum) {
+      errors.push(`At height ${height} on ${network}, rune names need at least ${minimum} letters`);
+    }
+  }
+
+  if (!Number.isInteger(etching.divisibility) || etching.divisibility < 0 || etching.divisibility > MAX_DIVISIBILITY) {
+    errors.push(`Divisibility must be a whole number from 0 to ${MAX_DIVISIBILITY}`);
+  }
+
+  if (etching.symbol !== undefined && [...etching.symbol].length !== 1) {
+    errors.push('Symbol must be a single character');
+  }
+
+  if (parseRuneAmount(etching.premine, etching.divisibility) === undefined) {
+    errors.push(`Premine must be a number with at most ${etching.divisibility} decimal places`);
+  }
+
+  if (etching.terms) {
+    const amount = parseRuneAmount(etching.terms.amount, etching.divisibility);
+    if (amount === undefined || amount === 0n) {
+      errors.push(`Mint amount must be a positive number with at most ${etching.divisibility} decimal places`);
+    }
+    const cap = parseRuneAmount(etching.terms.cap, 0);
+    if (cap === undefined || cap === 0n) {
+      errors.push('Mint cap must be a positive whole number');
+    }
+    validateWindow('Height window', etching.terms.height, errors);
+    validateWindow('Offset window', etching.terms.offset, errors);
+  }
+
+  const supply = parseRuneAmount(etching.supply, etching.divisibility);
+  const expected = computeRuneSupply(etching.premine, etching.divisibility, etching.terms);
+  if (supply === undefined || supply === 0n) {
+    errors.push('The rune needs a premine or mint terms, otherwise its supply is zero');
+  } else if (expected !== undefined && supply !== parseRuneAmount(expected, etching.divisibility)) {
+    errors.push('Supply must equal premine + mint amount × cap');
+  }
+
+  return errors;
+}
+
+/**
+ * Builds human-readable preview lines describing an etching
+ */
+export function describeEtching(etching: RuneEtching): string[] {
+  const lines: string[] = [
+    `Rune: ${etching.rune}${etching.symbol ? ` (${etching.symbol})` : ''}`,
+    `Divisibility: ${etching.divisibility}`,
+    `Premine: ${etching.premine}`,
+    `Supply: ${etching.supply}`,
+  ];
+
+  if (etching.terms) {
+    lines.push(`Mint: ${etching.terms.amount} per mint, up to ${etching.terms.cap} mints`);
+    const { height, offset } = etching.terms;
+    if (height?.start !== undefined || height?.end !== undefined) {
+      lines.push(`Mintable at heights: ${height.start ?? 'etching'} to ${height.end ?? 'no end'}`);
+    }
+    if (offset?.start !== undefined || offset?.end !== undefined) {
+      lines.push(`Mintable from etching + ${offset.start ?? '0'} to + ${offset.end ?? 'no end'} blocks`);
+    }
+  } else {
+    lines.push('Mint: closed (premine only)');
+  }
+
+  lines.push(`Turbo: ${etching.turbo ? 'yes' : 'no'}`);
+
+  return lines;
+}
+
+/**
+ * Explains why a rune cannot be minted in the next block, mirroring ord's mintable check.
+ * Returns null when minting is open.
+ */
+export function describeMintBlocker(entry: RuneMintState, height: number): string | null {
+  const { terms } = entry;
+  if (!terms) {
+    return 'It has no mint terms, the whole supply was premined';
+  }
+
+  if (terms.cap !== null && entry.mints >= terms.cap) {
+    return `All ${terms.cap} mints have been made`;
+  }
+
+  const next = height + 1;
+  const [heightStart, heightEnd] = terms.height;
+  const [offsetStart, offsetEnd] = terms.offset;
+  const starts = [heightStart, offsetStart !== null ? entry.block + offsetStart : null].filter(
+    (value): value is number => value !== null
+  );
+  const ends = [heightEnd, offsetEnd !== null ? entry.block + offsetEnd : null].filter(
+    (value): value is number => value !== null
+  );
+
+  const start = starts.length > 0 ? Math.max(...starts) : undefined;
+  if (start !== undefined && next < start) {
+    return `Minting opens at block ${start}, the next block is ${next}`;
+  }
+
+  const end = ends.length > 0 ? Math.min(...ends) : undefined;
+  if (end !== undefined && next >= end) {
+    return `Minting closed at block ${end}`;
+  }
+
+  return null;
+}
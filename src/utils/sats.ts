@@ -0,0 +1,89 @@
+// ord numbers sats with the mainnet subsidy schedule on every network, so rarity does too
+const COIN_VALUE = 100000000;
+const SUBSIDY_HALVING_INTERVAL = 210000;
+const DIFFCHANGE_INTERVAL = 2016;
+const LAST_EPOCH = 33;
+
+export type Rarity = 'common' | 'uncommon' | 'rare' | 'epic' | 'legendary' | 'mythic';
+
+export const RARITIES: Rarity[] = ['mythic', 'legendary', 'epic', 'rare', 'uncommon', 'common'];
+
+export interface SatRange {
+  /** First sat in the range */
+  start: number;
+  /** One past the last sat, as ord prints it */
+  end: number;
+}
+
+function subsidy(epoch: number): number {
+  return epoch > LAST_EPOCH ? 0 : Math.floor((50 * COIN_VALUE) / 2 ** epoch);
+}
+
+/**
+ * Computes ord's rarity for a sat: uncommon is the first sat of a block, rare of a difficulty
+ * adjustment period, epic of a halving epoch, legendary of a cycle, and mythic is sat 0.
+ */
+export function getSatRarity(sat: number): Rarity {
+  if (sat === 0) {
+    return 'mythic';
+  }
+
+  let epoch = 0;
+  let epochStart = 0;
+  while (epoch <= LAST_EPOCH && sat >= epochStart + SUBSIDY_HALVING_INTERVAL * subsidy(epoch)) {
+    epochStart += SUBSIDY_HALVING_INTERVAL * subsidy(epoch);
+    epoch++;
+  }
+
+  const blockSubsidy = subsidy(epoch);
+  if (blockSubsidy === 0 || (sat - epochStart) % blockSubsidy !== 0) {
+    return 'common';
+  }
+
+  const height = epoch * SUBSIDY_HALVING_INTERVAL + (sat - epochStart) / blockSubsidy;
+  const firstOfEpoch = height % SUBSIDY_HALVING_INTERVAL === 0;
+  const firstOfPeriod = height % DIFFCHANGE_INTERVAL === 0;
+
+  if (firstOfEpoch && firstOfPeriod) {
+    return 'legendary';
+  }
+  if (firstOfEpoch) {
+    return 'epic';
+  }
+  if (firstOfPeriod) {
+    return 'rare';
+  }
+  return 'uncommon';
+}
+
+/**
+ * Parses a range from `ord wallet sats --all`, e.g. "5000000000-5000001000"
+ */
+export function parseSatRange(value: string): SatRange | undefined {
+  const match = value.trim().match(/^(\d+)-(\d+)$/);
+  if (!match) {
+    return undefined;
+  }
+
+  const start = Number(match[1]);
+  const end = Number(match[2]);
+  return end > start ? { start, end } : undefined;
+}
+
+export function isValidSatpoint(value: string): boolean {
+  return /^[0-9a-f]{64}:\d+:\d+$/i.test(value.trim());
+}
+
+/**
+ * Returns the satpoint of a sat inside an output, given the output's ranges in order
+ */
+export function getSatpointForSat(output: string, ranges: SatRange[], sat: number): string | undefined {
+  let offset = 0;
+  for (const range of ranges) {
+    if (sat >= range.start && sat < range.end) {
+      return `${output}:${offset + sat - range.start}`;
+    }
+    offset += range.end - range.start;
+  }
+  return undefined;
+}
@@ -0,0 +1,117 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+const METADATA_FILE = 'snapshot.json';
+
+// Runtime files that bitcoind recreates on start, and its log, which only grows
+const SKIPPED_FILES = ['.lock', '.cookie', 'debug.log'];
+
+export interface SnapshotMetadata {
+  name: string;
+  /** ISO timestamp */
+  created: string;
+  blockHeight?: number;
+  currentWallet: string;
+  wallets: string[];
+}
+
+/**
+ * The network data directories a snapshot copies: bitcoind's chain and wallets, and ord's
+ * index and wallets
+ */
+export interface SnapshotDirectories {
+  bitcoin: string;
+  ord: string;
+}
+
+function copyDirectory(source: string, target: string): void {
+  fs.cpSync(source, target, {
+    recursive: true,
+    filter: (file) => !SKIPPED_FILES.includes(path.basename(file)),
+  });
+}
+
+/**
+ * Snapshots live in the extension's global storage, outside any workspace
+ */
+export function getSnapshotsDirectory(globalStoragePath: string): string {
+  return path.join(globalStoragePath, 'snapshots');
+}
+
+export function isValidSnapshotName(name: string): boolean {
+  return /^[a-zA-Z0-9_-]+$/.test(name);
+}
+
+/**
+ * Lists saved snapshots, newest first
+ */
+export function listSnapshots(snapshotsDir: string): SnapshotMetadata[] {
+  if (!fs.existsSync(snapshotsDir)) {
+    return [];
+  }
+
+  const snapshots: SnapshotMetadata[] = [];
+  for (const entry of fs.readdirSync(snapshotsDir, { withFileTypes: true })) {
+    const metadataPath = path.join(snapshotsDir, entry.name, METADATA_FILE);
+    if (!entry.isDirectory() || !fs.existsSync(metadataPath)) {
+      continue;
+    }
+    try {
+      snapshots.push(JSON.parse(fs.readFileSync(metadataPath, 'utf-8')) as SnapshotMetadata);
+    } catch {
+      // A half-written snapshot has no usable metadata
+    }
+  }
+
+  return snapshots.sort((a, b) => b.created.localeCompare(a.created));
+}
+
+/**
+ * Copies the data directories into a snapshot, replacing one with the same name.
+ * The services must be stopped so the databases are consistent on disk.
+ */
+export function saveSnapshotFiles(snapshotsDir: string, dirs: SnapshotDirectories, metadata: SnapshotMetadata): void {
+  const snapshotDir = path.join(snapshotsDir, metadata.name);
+  fs.rmSync(snapshotDir, { recursive: true, force: true });
+  fs.mkdirSync(snapshotDir, { recursive: true });
+
+  try {
+    if (fs.existsSync(dirs.bitcoin)) {
+      copyDirectory(dirs.bitcoin, path.join(snapshotDir, 'bitcoin'));
+    }
+    if (fs.existsSync(dirs.ord)) {
+      copyDirectory(dirs.ord, path.join(snapshotDir, 'ord'));
+    }
+    // Written last, so only complete snapshots are listed
+    fs.writeFileSync(path.join(snapshotDir, METADATA_FILE), JSON.stringify(metadata, null, 2));
+  } catch (error) {
+    fs.rmSync(snapshotDir, { recursive: true, force: true });
+    throw error;
+  }
+}
+
+/**
+ * Replaces the data directories with a snapshot's copies. The services must be stopped.
+ */
+export function restoreSnapshotFiles(snapshotsDir: string, name: string, dirs: SnapshotDirectories): SnapshotMetadata {
+  const snapshotDir = path.join(snapshotsDir, name);
+  const metadataPath = path.join(snapshotDir, METADATA_FILE);
+  if (!fs.existsSync(metadataPath)) {
+    throw new Error(`Snapshot "${name}" does not exist`);
+  }
+  const metadata = JSON.parse(fs.readFileSync(metadataPath, 'utf-8')) as SnapshotMetadata;
+
+  for (const [kind, target] of Object.entries(dirs) as [keyof SnapshotDirectories, string][]) {
+    fs.rmSync(target, { recursive: true, force: true });
+    const source = path.join(snapshotDir, kind);
+    if (fs.existsSync(source)) {
+      copyDirectory(source, target);
+    }
+  }
+
+  return metadata;
+}
+
+export function deleteSnapshotFiles(snapshotsDir: string, name: string): void {
+  fs.rmSync(path.join(snapshotsDir, name), { recursive: true, force: true });
+}
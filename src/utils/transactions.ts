@@ -0,0 +1,92 @@
+import { formatBtc, SATS_PER_BTC } from './amount';
+
+export interface TransactionEntry {
+  txid: string;
+  confirmations: number;
+  /** Net change of the wallet balance in sats, fee included; undefined when bitcoind has no record */
+  deltaSats?: number;
+  /** Unix time in seconds */
+  time?: number;
+  mined: boolean;
+  inscriptions: string[];
+}
+
+interface OrdTransaction {
+  transaction: string;
+  confirmations: number;
+}
+
+interface BitcoindEntry {
+  txid: string;
+  category: string;
+  amount: number;
+  fee?: number;
+  confirmations: number;
+  time: number;
+}
+
+interface InscriptionLocation {
+  id: string;
+  location?: string;
+}
+
+/**
+ * Merges ord's transaction list with bitcoind's per-output entries into one row per transaction.
+ * An inscription is linked to a transaction that revealed it or moved it to its current location.
+ * Newest transactions come first.
+ */
+export function mergeWalletTransactions(
+  ordTransactions: OrdTransaction[],
+  entries: BitcoindEntry[],
+  inscriptions: InscriptionLocation[]
+): TransactionEntry[] {
+  const rows = new Map<string, TransactionEntry>();
+  const feesCounted = new Set<string>();
+
+  const rowFor = (txid: string, confirmations: number): TransactionEntry => {
+    let row = rows.get(txid);
+    if (!row) {
+      row = { txid, confirmations, mined: false, inscriptions: [] };
+      rows.set(txid, row);
+    }
+    return row;
+  };
+
+  for (const tx of ordTransactions) {
+    rowFor(tx.transaction, tx.confirmations);
+  }
+
+  for (const entry of entries) {
+    const row = rowFor(entry.txid, entry.confirmations);
+    let delta = Math.round(entry.amount * SATS_PER_BTC);
+    // bitcoind repeats the fee on every send entry of a transaction
+    if (entry.fee !== undefined && !feesCounted.has(entry.txid)) {
+      delta += Math.round(entry.fee * SATS_PER_BTC);
+      feesCounted.add(entry.txid);
+    }
+    row.deltaSats = (row.deltaSats ?? 0) + delta;
+    row.time = entry.time;
+    row.mined = row.mined || entry.category === 'generate' || entry.category === 'immature';
+  }
+
+  for (const inscription of inscriptions) {
+    const revealTxid = inscription.id.replace(/i\d+$/, '');
+    const locationTxid = inscription.location?.split(':')[0];
+    for (const txid of new Set([revealTxid, locationTxid])) {
+      const row = txid ? rows.get(txid) : undefined;
+      if (row && !row.inscriptions.includes(inscription.id)) {
+        row.inscriptions.push(inscription.id);
+      }
+    }
+  }
+
+  return [...rows.values()].sort((a, b) => a.confirmations - b.confirmations || (b.time ?? 0) - (a.time ?? 0));
+}
+
+/**
+ * Formats a sats delta as a signed BTC amount, e.g. "+0.00010000 BTC"
+ */
+export function formatBtcDelta(sats: number): string {
+  const sign = sats > 0 ? '+' : sats < 0 ? '-' : '';
+  return `${sign}${formatBtc(Math.abs(sats))}`;
+}
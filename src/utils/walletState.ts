@@ -1,62 +1,82 @@
 import * as vscode from 'vscode';
 import * as fs from 'fs';
 import * as path from 'path';
-import { getOrdDataDirectory } from './platform';
-import { getConfig } from './config';
+import { getDefaultDataDirectory, getNetworkSubdirectory, getOrdDataDirectory } from './platform';
+import { getConfig, Network } from './config';
 
-const CURRENT_WALLET_KEY = 'ord.currentWallet';
-const DEFAULT_WALLET_NAME = 'ord';
+// Before wallets were remembered per network, one key held the current wallet for every network
+const LEGACY_CURRENT_WALLET_KEY = 'ord.currentWallet';
+const CURRENT_WALLET_KEY_PREFIX = 'ord.currentWallet.';
+export const DEFAULT_WALLET_NAME = 'ord';
 
 let extensionContext: vscode.ExtensionContext | null = null;
 
 export function initWalletState(context: vscode.ExtensionContext): void {
   extensionContext = context;
+
+  // The legacy wallet was picked on whatever network was configured, so it moves to that network
+  const legacyWallet = context.globalState.get<string>(LEGACY_CURRENT_WALLET_KEY);
+  if (legacyWallet !== undefined) {
+    const key = CURRENT_WALLET_KEY_PREFIX + getConfig().network;
+    if (context.globalState.get<string>(key) === undefined) {
+      void context.globalState.update(key, legacyWallet);
+    }
+    void context.globalState.update(LEGACY_CURRENT_WALLET_KEY, undefined);
+  }
 }
 
 /**
- * Gets the current wallet name
+ * Gets the current wallet name for a network, defaulting to the configured network.
+ * With `ord.walletPerWorkspace` on, the workspace's choice wins over the global one.
  */
-export function getCurrentWallet(): string {
+export function getCurrentWallet(network: Network = getConfig().network): string {
   if (!extensionContext) {
     return DEFAULT_WALLET_NAME;
   }
-  return extensionContext.globalState.get<string>(CURRENT_WALLET_KEY, DEFAULT_WALLET_NAME);
+
+  const key = CURRENT_WALLET_KEY_PREFIX + network;
+  const workspaceWallet = getConfig().walletPerWorkspace ? extensionContext.workspaceState.get<string>(key) : undefined;
+  return workspaceWallet ?? extensionContext.globalState.get<string>(key, DEFAULT_WALLET_NAME);
 }
 
 /**
- * Sets the current wallet name
+ * Sets the current wallet name for the configured network
  */
 export async function setCurrentWallet(walletName: string): Promise<void> {
   if (!extensionContext) {
     throw new Error('Wallet state not initialized');
   }
-  await extensionContext.globalState.update(CURRENT_WALLET_KEY, walletName);
+
+  const config = getConfig();
+  const key = CURRENT_WALLET_KEY_PREFIX + config.network;
+  if (config.walletPerWorkspace) {
+    await extensionContext.workspaceState.update(key, walletName);
+  }
+  await extensionContext.globalState.update(key, walletName);
 }
 
 /**
- * Gets the network subdirectory for ord data
+ * Directory holding the ord wallet databases of the current network
  */
-function getNetworkDir(dataDir: string, network: string): string {
-  switch (network) {
-    case 'regtest':
-      return path.join(dataDir, 'regtest');
-    case 'testnet':
-      return path.join(dataDir, 'testnet3');
-    case 'signet':
-      return path.join(dataDir, 'signet');
-    default:
-      return dataDir;
-  }
+function getOrdWalletsDir(): string {
+  const config = getConfig();
+  return path.join(getOrdDataDirectory(), getNetworkSubdirectory(config.network), 'wallets');
+}
+
+/**
+ * bitcoind keeps a descriptor wallet with the same name next to each ord wallet
+ */
+function getBitcoinWalletDir(walletName: string): string {
+  const config = getConfig();
+  const bitcoinDataDir = config.dataDirectory || getDefaultDataDirectory();
+  return path.join(bitcoinDataDir, getNetworkSubdirectory(config.network), 'wallets', walletName);
 }
 
 /**
  * Lists all available ord wallets for the current network
  */
 export function listWallets(): string[] {
-  const config = getConfig();
-  const dataDir = getOrdDataDirectory();
-  const networkDir = getNetworkDir(dataDir, config.network);
-  const walletsDir = path.join(networkDir, 'wallets');
+  const walletsDir = getOrdWalletsDir();
 
   if (!fs.existsSync(walletsDir)) {
     return [];
@@ -94,3 +114,42 @@ export function walletExists(walletName: string): boolean {
   const wallets = listWallets();
   return wallets.includes(walletName);
 }
+
+/**
+ * Ord wallets are stored as `<name>.redb`, or as a directory in older ord versions
+ */
+function getOrdWalletPaths(walletName: string): string[] {
+  const walletsDir = getOrdWalletsDir();
+  return [path.join(walletsDir, `${walletName}.redb`), path.join(walletsDir, walletName)];
+}
+
+/**
+ * Deletes a wallet's ord database and its bitcoind wallet. bitcoind must have unloaded the wallet.
+ */
+export function deleteWalletFiles(walletName: string): void {
+  for (const walletPath of [...getOrdWalletPaths(walletName), getBitcoinWalletDir(walletName)]) {
+    if (fs.existsSync(walletPath)) {
+      fs.rmSync(walletPath, { recursive: true, force: true });
+    }
+  }
+}
+
+/**
+ * Renames a wallet's ord database and its bitcoind wallet, which ord finds by the same name.
+ * bitcoind must have unloaded the wallet.
+ */
+export function renameWalletFiles(from: string, to: string): void {
+  const sources = [...getOrdWalletPaths(from), getBitcoinWalletDir(from)];
+  const targets = [...getOrdWalletPaths(to), getBitcoinWalletDir(to)];
+
+  const taken = targets.find((target) => fs.existsSync(target));
+  if (taken) {
+    throw new Error(`Cannot rename wallet "${from}": ${taken} already exists`);
+  }
+
+  sources.forEach((source, i) => {
+    if (fs.existsSync(source)) {
+      fs.renameSync(source, targets[i]);
+    }
+  });
+}
@@ -0,0 +1,65 @@
+import * as assert from 'assert';
+
+type AutoMineMode = 'off' | 'interval' | 'mempool';
+
+describe('Auto-Mine', () => {
+  const MEMPOOL_POLL_MS = 2000;
+
+  // Mirrors getActiveAutoMineMode() in src/services/autoMine.ts
+  function getActiveAutoMineMode(network: string, autoMine: AutoMineMode): AutoMineMode {
+    return network === 'regtest' ? autoMine : 'off';
+  }
+
+  // Mirrors describeAutoMineMode() in src/services/autoMine.ts
+  function describeAutoMineMode(mode: AutoMineMode, intervalSeconds: number): string {
+    switch (mode) {
+      case 'off':
+        return 'off';
+      case 'interval':
+        return `every ${intervalSeconds}s`;
+      case 'mempool':
+        return 'on mempool transactions';
+    }
+  }
+
+  // Mirrors the timer interval chosen in startAutoMine()
+  function getTimerInterval(mode: AutoMineMode, autoMineInterval: number): number {
+    return mode === 'interval' ? Math.max(1, autoMineInterval) * 1000 : MEMPOOL_POLL_MS;
+  }
+
+  describe('getActiveAutoMineMode', () => {
+    it('should use the configured mode on regtest', () => {
+      assert.strictEqual(getActiveAutoMineMode('regtest', 'interval'), 'interval');
+      assert.strictEqual(getActiveAutoMineMode('regtest', 'mempool'), 'mempool');
+    });
+
+    it('should be off on other networks', () => {
+      for (const network of ['testnet', 'signet', 'mainnet']) {
+        assert.strictEqual(getActiveAutoMineMode(network, 'mempool'), 'off');
+      }
+    });
+  });
+
+  describe('describeAutoMineMode', () => {
+    it('should describe each mode', () => {
+      assert.strictEqual(describeAutoMineMode('off', 10), 'off');
+      assert.strictEqual(describeAutoMineMode('interval', 30), 'every 30s');
+      assert.strictEqual(describeAutoMineMode('mempool', 10), 'on mempool transactions');
+    });
+  });
+
+  describe('timer interval', () => {
+    it('should mine every interval in interval mode', () => {
+      assert.strictEqual(getTimerInterval('interval', 10), 10000);
+    });
+
+    it('should not go below one second', () => {
+      assert.strictEqual(getTimerInterval('interval', 0), 1000);
+      assert.strictEqual(getTimerInterval('interval', -5), 1000);
+    });
+
+    it('should poll the mempool independently of the interval setting', () => {
+      assert.strictEqual(getTimerInterval('mempool', 60), MEMPOOL_POLL_MS);
+    });
+  });
+});
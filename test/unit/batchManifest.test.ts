@@ -0,0 +1,146 @@
+import * as assert from 'assert';
+import * as path from 'path';
+import * as fs from 'fs';
+import * as os from 'os';
+
+// Test the batch manifest validation logic without importing the actual module
+// (mirrors src/utils/batchManifest.ts)
+
+type BatchMode = 'separate-outputs' | 'shared-output' | 'same-sat' | 'satpoints';
+
+const BATCH_MODES: BatchMode[] = ['separate-outputs', 'shared-output', 'same-sat', 'satpoints'];
+
+interface BatchManifest {
+  mode?: BatchMode;
+  parent?: string;
+  postage?: number;
+  inscriptions: { file: string; metadata?: unknown; metaprotocol?: string; destination?: string }[];
+}
+
+function validateBatchManifest(manifest: BatchManifest, baseDir: string): string[] {
+  const errors: string[] = [];
+
+  if (manifest.mode && !BATCH_MODES.includes(manifest.mode)) {
+    errors.push(`Unknown mode "${manifest.mode}" (expected one of: ${BATCH_MODES.join(', ')})`);
+  }
+
+  if (manifest.postage !== undefined && (!Number.isInteger(manifest.postage) || manifest.postage < 330)) {
+    errors.push(`Postage must be a whole number of sats of at least 330 (got ${manifest.postage})`);
+  }
+
+  if (manifest.parent !== undefined && !/^[a-f0-9]{64}i\d+$/.test(manifest.parent)) {
+    errors.push(`Parent "${manifest.parent}" is not a valid inscription ID`);
+  }
+
+  if (manifest.inscriptions.length === 0) {
+    errors.push('Manifest does not contain any inscriptions');
+  }
+
+  manifest.inscriptions.forEach((entry, index) => {
+    if (!entry || typeof entry.file !== 'string' || entry.file.length === 0) {
+      errors.push(`Inscription #${index + 1} is missing "file"`);
+      return;
+    }
+    const filePath = path.resolve(baseDir, entry.file);
+    if (!fs.existsSync(filePath)) {
+      errors.push(`Inscription #${index + 1}: file not found: ${entry.file}`);
+    }
+  });
+
+  return errors;
+}
+
+function isBatchManifestFile(filePath: string): boolean {
+  return /\.(ya?ml|json)$/i.test(filePath);
+}
+
+describe('Batch Manifest', () => {
+  let tmpDir: string;
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'ord-batch-test-'));
+    fs.writeFileSync(path.join(tmpDir, 'a.txt'), 'a');
+    fs.writeFileSync(path.join(tmpDir, 'b.txt'), 'b');
+  });
+
+  afterEach(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  describe('Manifest File Detection', () => {
+    it('should accept YAML and JSON manifests', () => {
+      assert.ok(isBatchManifestFile('collection.batch.yaml'));
+      assert.ok(isBatchManifestFile('batch.yml'));
+      assert.ok(isBatchManifestFile('batch.JSON'));
+    });
+
+    it('should reject other files', () => {
+      assert.ok(!isBatchManifestFile('image.png'));
+      assert.ok(!isBatchManifestFile('batch.yaml.bak'));
+    });
+  });
+
+  describe('Validation', () => {
+    it('should accept a valid manifest', () => {
+      const manifest: BatchManifest = {
+        mode: 'separate-outputs',
+        postage: 10000,
+        inscriptions: [{ file: 'a.txt' }, { file: 'b.txt', metadata: { name: 'b' } }],
+      };
+
+      assert.deepStrictEqual(validateBatchManifest(manifest, tmpDir), []);
+    });
+
+    it('should resolve files relative to the manifest directory', () => {
+      fs.mkdirSync(path.join(tmpDir, 'images'));
+      fs.writeFileSync(path.join(tmpDir, 'images', '1.png'), 'png');
+
+      const manifest: BatchManifest = { inscriptions: [{ file: 'images/1.png' }] };
+
+      assert.deepStrictEqual(validateBatchManifest(manifest, tmpDir), []);
+    });
+
+    it('should report missing files', () => {
+      const manifest: BatchManifest = { inscriptions: [{ file: 'a.txt' }, { file: 'missing.txt' }] };
+      const errors = validateBatchManifest(manifest, tmpDir);
+
+      assert.strictEqual(errors.length, 1);
+      assert.ok(errors[0].includes('#2'));
+      assert.ok(errors[0].includes('missing.txt'));
+    });
+
+    it('should reject unknown modes', () => {
+      const manifest = { mode: 'one-output', inscriptions: [{ file: 'a.txt' }] } as unknown as BatchManifest;
+      const errors = validateBatchManifest(manifest, tmpDir);
+
+      assert.strictEqual(errors.length, 1);
+      assert.ok(errors[0].includes('Unknown mode'));
+    });
+
+    it('should reject dust postage', () => {
+      const manifest: BatchManifest = { postage: 100, inscriptions: [{ file: 'a.txt' }] };
+
+      assert.strictEqual(validateBatchManifest(manifest, tmpDir).length, 1);
+    });
+
+    it('should reject an invalid parent ID', () => {
+      const manifest: BatchManifest = { parent: 'not-an-id', inscriptions: [{ file: 'a.txt' }] };
+      const valid: BatchManifest = { parent: 'a'.repeat(64) + 'i0', inscriptions: [{ file: 'a.txt' }] };
+
+      assert.strictEqual(validateBatchManifest(manifest, tmpDir).length, 1);
+      assert.deepStrictEqual(validateBatchManifest(valid, tmpDir), []);
+    });
+
+    it('should reject an empty manifest', () => {
+      const errors = validateBatchManifest({ inscriptions: [] }, tmpDir);
+
+      assert.deepStrictEqual(errors, ['Manifest does not contain any inscriptions']);
+    });
+
+    it('should report entries without a file', () => {
+      const manifest = { inscriptions: [{ metadata: {} }] } as unknown as BatchManifest;
+
+      assert.deepStrictEqual(validateBatchManifest(manifest, tmpDir), ['Inscription #1 is missing "file"']);
+    });
+  });
+});
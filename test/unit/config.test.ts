@@ -44,6 +44,30 @@ function getDefaultRpcPort(network: Network): number {
   }
 }
 
+interface IndexSettings {
+  indexSats: boolean;
+  indexRunes: boolean;
+  indexAddresses: boolean;
+  indexTransactions: boolean;
+}
+
+function getOrdIndexFlags(config: IndexSettings): string[] {
+  const flags: string[] = [];
+  if (config.indexSats) {
+    flags.push('--index-sats');
+  }
+  if (config.indexRunes) {
+    flags.push('--index-runes');
+  }
+  if (config.indexAddresses) {
+    flags.push('--index-addresses');
+  }
+  if (config.indexTransactions) {
+    flags.push('--index-transactions');
+  }
+  return flags;
+}
+
 describe('Config Utilities', () => {
   describe('getNetworkFlag()', () => {
     it('should return empty string for mainnet', () => {
@@ -99,6 +123,28 @@ describe('Config Utilities', () => {
     });
   });
 
+  describe('getOrdIndexFlags()', () => {
+    const none: IndexSettings = { indexSats: false, indexRunes: false, indexAddresses: false, indexTransactions: false };
+
+    it('should return no flags by default', () => {
+      assert.deepStrictEqual(getOrdIndexFlags(none), []);
+    });
+
+    it('should map each setting to its ord flag', () => {
+      assert.deepStrictEqual(getOrdIndexFlags({ ...none, indexSats: true }), ['--index-sats']);
+      assert.deepStrictEqual(getOrdIndexFlags({ ...none, indexRunes: true }), ['--index-runes']);
+      assert.deepStrictEqual(getOrdIndexFlags({ ...none, indexAddresses: true }), ['--index-addresses']);
+      assert.deepStrictEqual(getOrdIndexFlags({ ...none, indexTransactions: true }), ['--index-transactions']);
+    });
+
+    it('should combine flags in a stable order', () => {
+      assert.deepStrictEqual(getOrdIndexFlags({ ...none, indexTransactions: true, indexSats: true }), [
+        '--index-sats',
+        '--index-transactions',
+      ]);
+    });
+  });
+
   describe('Network type', () => {
     it('should accept valid network values', () => {
       const networks: Network[] = ['regtest', 'testnet', 'signet', 'mainnet'];
@@ -0,0 +1,78 @@
+import * as assert from 'assert';
+
+// Test the fee rate utility logic without importing the actual module
+// (since vscode is not available in pure unit tests)
+
+const MIN_FEE_RATE = 1;
+const COMMIT_TX_VSIZE = 154;
+const REVEAL_TX_BASE_VSIZE = 120;
+const ENVELOPE_OVERHEAD_BYTES = 80;
+
+function btcPerKvbToSatPerVb(feerate: number): number {
+  const satPerVb = (feerate * 100000000) / 1000;
+  return Math.max(MIN_FEE_RATE, Math.ceil(satPerVb * 10) / 10);
+}
+
+function estimateInscriptionVsize(contentBytes: number): number {
+  const revealVsize = REVEAL_TX_BASE_VSIZE + Math.ceil((contentBytes + ENVELOPE_OVERHEAD_BYTES) / 4);
+  return COMMIT_TX_VSIZE + revealVsize;
+}
+
+function estimateInscriptionFee(contentBytes: number, feeRate: number): number {
+  return Math.ceil(estimateInscriptionVsize(contentBytes) * feeRate);
+}
+
+describe('Fee Rate', () => {
+  describe('estimatesmartfee Conversion', () => {
+    it('should convert BTC/kvB to sat/vB', () => {
+      // 0.0001 BTC/kvB = 10000 sat/kvB = 10 sat/vB
+      assert.strictEqual(btcPerKvbToSatPerVb(0.0001), 10);
+    });
+
+    it('should round up to 0.1 sat/vB', () => {
+      // 0.00001234 BTC/kvB = 1.234 sat/vB
+      assert.strictEqual(btcPerKvbToSatPerVb(0.00001234), 1.3);
+    });
+
+    it('should never go below the minimum relay fee rate', () => {
+      assert.strictEqual(btcPerKvbToSatPerVb(0.000001), MIN_FEE_RATE);
+      assert.strictEqual(btcPerKvbToSatPerVb(0), MIN_FEE_RATE);
+    });
+  });
+
+  describe('Inscription Fee Estimate', () => {
+    it('should discount witness content by 4x', () => {
+      const small = estimateInscriptionVsize(0);
+      const large = estimateInscriptionVsize(4000);
+
+      assert.strictEqual(large - small, 1000);
+    });
+
+    it('should include commit and reveal overhead for empty content', () => {
+      assert.strictEqual(estimateInscriptionVsize(0), COMMIT_TX_VSIZE + REVEAL_TX_BASE_VSIZE + 20);
+    });
+
+    it('should scale the total fee with the fee rate', () => {
+      const at1 = estimateInscriptionFee(1000, 1);
+      const at10 = estimateInscriptionFee(1000, 10);
+
+      assert.strictEqual(at10, at1 * 10);
+    });
+
+    it('should round fractional fees up to whole sats', () => {
+      const fee = estimateInscriptionFee(0, 1.5);
+
+      assert.ok(Number.isInteger(fee));
+      assert.ok(fee >= estimateInscriptionVsize(0) * 1.5);
+    });
+  });
+
+  describe('Remembered Fee Rate Keys', () => {
+    it('should store fee rates per network', () => {
+      const key = (network: string) => `ord.feeRate.${network}`;
+
+      assert.notStrictEqual(key('regtest'), key('mainnet'));
+      assert.strictEqual(key('signet'), 'ord.feeRate.signet');
+    });
+  });
+});
@@ -153,6 +153,146 @@ describe('Inscribe Workflow', () => {
   });
 });
 
+describe('Inscription Metadata', () => {
+  const SIDECAR_SUFFIXES = ['.meta.json', '.meta.cbor'];
+
+  function findMetadataSidecar(filePath: string): string | undefined {
+    for (const suffix of SIDECAR_SUFFIXES) {
+      const candidate = filePath + suffix;
+      if (fs.existsSync(candidate)) {
+        return candidate;
+      }
+    }
+    return undefined;
+  }
+
+  function isCborMetadata(metadataPath: string): boolean {
+    return path.extname(metadataPath).toLowerCase() === '.cbor';
+  }
+
+  interface InscribeOptions {
+    parent?: string;
+    metadataPath?: string;
+    metaprotocol?: string;
+    sat?: number;
+    satpoint?: string;
+  }
+
+  function buildInscribeArgs(filePath: string, feeRate: number, options: InscribeOptions): string[] {
+    const args = ['inscribe', '--fee-rate', feeRate.toString(), '--file', filePath];
+
+    if (options.parent) {
+      args.push('--parent', options.parent);
+    }
+
+    if (options.metadataPath) {
+      args.push(isCborMetadata(options.metadataPath) ? '--cbor-metadata' : '--json-metadata', options.metadataPath);
+    }
+
+    if (options.metaprotocol) {
+      args.push('--metaprotocol', options.metaprotocol);
+    }
+
+    if (options.sat !== undefined) {
+      args.push('--sat', options.sat.toString());
+    } else if (options.satpoint) {
+      args.push('--satpoint', options.satpoint);
+    }
+
+    return args;
+  }
+
+  function readJsonMetadata(metadataPath: string): unknown {
+    const text = fs.readFileSync(metadataPath, 'utf-8');
+    try {
+      return JSON.parse(text);
+    } catch (e) {
+      const msg = e instanceof Error ? e.message : String(e);
+      throw new Error(`Invalid JSON metadata in ${path.basename(metadataPath)}: ${msg}`);
+    }
+  }
+
+  let tmpDir: string;
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'ord-metadata-test-'));
+    fs.writeFileSync(path.join(tmpDir, 'foo.png'), 'png');
+  });
+
+  afterEach(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  describe('Sidecar Detection', () => {
+    it('should return undefined when there is no sidecar', () => {
+      assert.strictEqual(findMetadataSidecar(path.join(tmpDir, 'foo.png')), undefined);
+    });
+
+    it('should find a JSON sidecar next to the file', () => {
+      const sidecar = path.join(tmpDir, 'foo.png.meta.json');
+      fs.writeFileSync(sidecar, '{}');
+
+      assert.strictEqual(findMetadataSidecar(path.join(tmpDir, 'foo.png')), sidecar);
+    });
+
+    it('should prefer JSON over CBOR when both exist', () => {
+      fs.writeFileSync(path.join(tmpDir, 'foo.png.meta.cbor'), Buffer.from([0xa0]));
+      fs.writeFileSync(path.join(tmpDir, 'foo.png.meta.json'), '{}');
+
+      assert.ok(findMetadataSidecar(path.join(tmpDir, 'foo.png'))!.endsWith('.meta.json'));
+    });
+
+    it('should detect CBOR metadata by extension', () => {
+      assert.ok(isCborMetadata('foo.png.meta.cbor'));
+      assert.ok(isCborMetadata('FOO.CBOR'));
+      assert.ok(!isCborMetadata('foo.png.meta.json'));
+    });
+  });
+
+  describe('JSON Validation', () => {
+    it('should parse valid JSON metadata', () => {
+      const metadataPath = path.join(tmpDir, 'foo.png.meta.json');
+      fs.writeFileSync(metadataPath, JSON.stringify({ name: 'Foo', traits: ['a', 'b'] }));
+
+      assert.deepStrictEqual(readJsonMetadata(metadataPath), { name: 'Foo', traits: ['a', 'b'] });
+    });
+
+    it('should reject invalid JSON with the file name in the error', () => {
+      const metadataPath = path.join(tmpDir, 'foo.png.meta.json');
+      fs.writeFileSync(metadataPath, '{ name: Foo }');
+
+      assert.throws(() => readJsonMetadata(metadataPath), /Invalid JSON metadata in foo\.png\.meta\.json/);
+    });
+  });
+
+  describe('Inscribe Args', () => {
+    it('should pass JSON metadata with --json-metadata', () => {
+      assert.deepStrictEqual(
+        buildInscribeArgs('foo.png', 5, { metadataPath: 'foo.png.meta.json' }),
+        ['inscribe', '--fee-rate', '5', '--file', 'foo.png', '--json-metadata', 'foo.png.meta.json']
+      );
+    });
+
+    it('should pass CBOR metadata with --cbor-metadata', () => {
+      assert.deepStrictEqual(
+        buildInscribeArgs('foo.png', 5, { metadataPath: 'foo.png.meta.cbor' }),
+        ['inscribe', '--fee-rate', '5', '--file', 'foo.png', '--cbor-metadata', 'foo.png.meta.cbor']
+      );
+    });
+
+    it('should pass the metaprotocol after the metadata', () => {
+      assert.deepStrictEqual(
+        buildInscribeArgs('foo.png', 2, { metadataPath: 'foo.png.meta.json', metaprotocol: 'brc-20' }),
+        ['inscribe', '--fee-rate', '2', '--file', 'foo.png', '--json-metadata', 'foo.png.meta.json', '--metaprotocol', 'brc-20']
+      );
+    });
+
+    it('should leave out flags for options that are not set', () => {
+      assert.deepStrictEqual(buildInscribeArgs('foo.png', 1, {}), ['inscribe', '--fee-rate', '1', '--file', 'foo.png']);
+    });
+  });
+});
+
 describe('Recursive Inscriptions', () => {
   describe('Content Path Resolution', () => {
     it('should resolve /content/ paths', () => {
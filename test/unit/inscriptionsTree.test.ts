@@ -0,0 +1,135 @@
+import * as assert from 'assert';
+
+// Test the inscriptions tree filtering and pagination logic without importing the actual modules
+// (since vscode is not available in pure unit tests)
+
+interface ContentTypeFilter {
+  label: string;
+  prefixes: string[];
+}
+
+const CONTENT_TYPE_FILTERS: ContentTypeFilter[] = [
+  { label: 'Images', prefixes: ['image/'] },
+  { label: 'HTML', prefixes: ['text/html'] },
+  { label: 'Text', prefixes: ['text/plain', 'text/markdown'] },
+  { label: 'JSON', prefixes: ['application/json'] },
+  { label: 'JavaScript & CSS', prefixes: ['text/javascript', 'application/javascript', 'text/css'] },
+  { label: 'Audio', prefixes: ['audio/'] },
+  { label: 'Video', prefixes: ['video/'] },
+  { label: '3D Models', prefixes: ['model/'] },
+];
+
+const INSCRIPTIONS_PAGE_SIZE = 25;
+
+function matchesContentTypeFilter(contentType: string | null, filter: ContentTypeFilter): boolean {
+  const type = (contentType || '').split(';')[0].trim().toLowerCase();
+  return filter.prefixes.some((prefix) => type.startsWith(prefix));
+}
+
+function getFilter(label: string): ContentTypeFilter {
+  const filter = CONTENT_TYPE_FILTERS.find((f) => f.label === label);
+  assert.ok(filter, `missing filter ${label}`);
+  return filter;
+}
+
+function paginate<T>(items: T[], pageCount: number): { page: T[]; remaining: number } {
+  const page = items.slice(0, pageCount * INSCRIPTIONS_PAGE_SIZE);
+  return { page, remaining: items.length - page.length };
+}
+
+interface InscriptionInfo {
+  height: number;
+  number: number;
+}
+
+function compareNewestFirst(a: InscriptionInfo | undefined, b: InscriptionInfo | undefined): number {
+  if (!a || !b) {
+    return Number(!a) - Number(!b);
+  }
+  return b.height - a.height || b.number - a.number;
+}
+
+function orderWallets(currentWallet: string, wallets: string[]): string[] {
+  return [currentWallet, ...wallets.filter((name) => name !== currentWallet)];
+}
+
+describe('Inscriptions Tree', () => {
+  describe('Content Type Filter', () => {
+    it('should match content types with parameters', () => {
+      assert.ok(matchesContentTypeFilter('text/html;charset=utf-8', getFilter('HTML')));
+      assert.ok(matchesContentTypeFilter('text/plain;charset=utf-8', getFilter('Text')));
+    });
+
+    it('should not treat HTML or JavaScript as plain text', () => {
+      assert.ok(!matchesContentTypeFilter('text/html;charset=utf-8', getFilter('Text')));
+      assert.ok(!matchesContentTypeFilter('text/javascript', getFilter('Text')));
+    });
+
+    it('should match every image type including SVG', () => {
+      const images = getFilter('Images');
+      assert.ok(matchesContentTypeFilter('image/png', images));
+      assert.ok(matchesContentTypeFilter('image/svg+xml', images));
+      assert.ok(!matchesContentTypeFilter('video/mp4', images));
+    });
+
+    it('should be case insensitive', () => {
+      assert.ok(matchesContentTypeFilter('IMAGE/PNG', getFilter('Images')));
+    });
+
+    it('should never match inscriptions without a content type', () => {
+      for (const filter of CONTENT_TYPE_FILTERS) {
+        assert.ok(!matchesContentTypeFilter(null, filter), filter.label);
+      }
+    });
+  });
+
+  describe('Pagination', () => {
+    const ids = Array.from({ length: 60 }, (_, i) => `inscription-${i}`);
+
+    it('should show one page at first', () => {
+      const { page, remaining } = paginate(ids, 1);
+      assert.strictEqual(page.length, INSCRIPTIONS_PAGE_SIZE);
+      assert.strictEqual(remaining, 35);
+    });
+
+    it('should grow by one page per load more', () => {
+      const { page, remaining } = paginate(ids, 2);
+      assert.strictEqual(page.length, 50);
+      assert.strictEqual(remaining, 10);
+    });
+
+    it('should have nothing remaining once everything is shown', () => {
+      const { page, remaining } = paginate(ids, 3);
+      assert.strictEqual(page.length, 60);
+      assert.strictEqual(remaining, 0);
+    });
+  });
+
+  describe('Wallet Groups', () => {
+    it('should list the current wallet first', () => {
+      assert.deepStrictEqual(orderWallets('test', ['alice', 'ord', 'test']), ['test', 'alice', 'ord']);
+    });
+
+    it('should include the current wallet even before it exists on disk', () => {
+      assert.deepStrictEqual(orderWallets('ord', []), ['ord']);
+    });
+  });
+
+  describe('Wallet Order', () => {
+    it('should put the latest block first regardless of satpoint order', () => {
+      const infos = [{ height: 5, number: 2 }, { height: 9, number: 4 }, { height: 7, number: 3 }];
+      assert.deepStrictEqual(infos.sort(compareNewestFirst).map((info) => info.height), [9, 7, 5]);
+    });
+
+    it('should order inscriptions in the same block by number', () => {
+      const infos = [{ height: 3, number: 10 }, { height: 3, number: 12 }, { height: 3, number: 11 }];
+      assert.deepStrictEqual(infos.sort(compareNewestFirst).map((info) => info.number), [12, 11, 10]);
+    });
+
+    it('should put inscriptions without details last', () => {
+      const infos = new Map([['b', { height: 1, number: 0 }], ['d', { height: 2, number: 1 }]]);
+      const ordered = ['a', 'b', 'c', 'd'].sort((a, b) => compareNewestFirst(infos.get(a), infos.get(b)));
+      assert.deepStrictEqual(ordered, ['d', 'b', 'a', 'c']);
+    });
+  });
+});
@@ -0,0 +1,111 @@
+import * as assert from 'assert';
+
+// Test the message signing helpers without importing the actual modules
+// (since vscode is not available in pure unit tests)
+
+type SignerKind = 'inscription' | 'output' | 'address';
+
+function getSignerKind(value: string): SignerKind {
+  const trimmed = value.trim();
+  if (/^[0-9a-f]{64}i\d+$/i.test(trimmed)) {
+    return 'inscription';
+  }
+  if (/^[0-9a-f]{64}:\d+$/i.test(trimmed)) {
+    return 'output';
+  }
+  return 'address';
+}
+
+function isBase64Signature(value: string): boolean {
+  const trimmed = value.trim();
+  return trimmed.length > 0 && trimmed.length % 4 === 0 && /^[A-Za-z0-9+/]+={0,2}$/.test(trimmed);
+}
+
+function isVerificationFailure(error: string): boolean {
+  if (/usage:|unexpected argument|unrecognized|ENOENT|EACCES|spawn|command not found/i.test(error)) {
+    return false;
+  }
+  return /invalid|verif|signature|witness|decode|bip322/i.test(error);
+}
+
+const TXID = 'a'.repeat(64);
+
+// Mirrors the arguments ordWalletSign() and ordVerify() in src/services/ord.ts pass to ord
+function buildSignArgs(signer: string, message: string): string[] {
+  return ['sign', `--signer=${signer}`, `--text=${message}`];
+}
+
+function buildVerifyArgs(address: string, message: string, witness: string): string[] {
+  return ['verify', `--address=${address}`, `--text=${message}`, `--witness=${witness}`];
+}
+
+function getFlag(args: string[], value: string): string | undefined {
+  return args.find((arg) => arg.endsWith(`=${value}`))?.split('=')[0];
+}
+
+describe('Message Signing', () => {
+  describe('getSignerKind', () => {
+    it('should recognize inscription IDs', () => {
+      assert.strictEqual(getSignerKind(`${TXID}i0`), 'inscription');
+      assert.strictEqual(getSignerKind(`${TXID}i12`), 'inscription');
+    });
+
+    it('should recognize outputs', () => {
+      assert.strictEqual(getSignerKind(`${TXID}:1`), 'output');
+      assert.strictEqual(getSignerKind(` ${TXID}:0 `), 'output');
+    });
+
+    it('should treat anything else as an address', () => {
+      assert.strictEqual(getSignerKind('bcrt1qw508d6qejxtdg4y5r3zarvary0c5xw7kygt080'), 'address');
+      assert.strictEqual(getSignerKind(`${TXID}:1:0`), 'address');
+    });
+  });
+
+  describe('isBase64Signature', () => {
+    it('should accept base64 witnesses', () => {
+      assert.ok(isBase64Signature('AkcwRAIgZRfIY3p7/DoVTty6YZbWS71bc5Vct9p9Fia83eRmw2QCICK/ENGfwLtptFluMGs2KsqoNSk89pO7F29zJLUx9a/sASECx/EgAxlkQpQ9hYjgGu6EBCPMVPwVIVJqO4XCsMvViHI='));
+      assert.ok(isBase64Signature('AAAA'));
+    });
+
+    it('should reject empty or malformed signatures', () => {
+      assert.ok(!isBase64Signature(''));
+      assert.ok(!isBase64Signature('   '));
+      assert.ok(!isBase64Signature('abc'));
+      assert.ok(!isBase64Signature('not base64!'));
+      assert.ok(!isBase64Signature('AA=A'));
+    });
+  });
+
+  describe('sign arguments', () => {
+    it('should keep messages starting with a dash as values', () => {
+      const args = buildSignArgs(`${TXID}i0`, '--help');
+      assert.deepStrictEqual(args, ['sign', `--signer=${TXID}i0`, '--text=--help']);
+    });
+
+    it('should pass multi-line messages as a single argument', () => {
+      const args = buildSignArgs('bcrt1qexample', 'line one\nline two');
+      assert.strictEqual(args.length, 3);
+      assert.strictEqual(args[2], '--text=line one\nline two');
+    });
+
+    it('should pass the message with the same flag to sign and verify', () => {
+      const message = 'hello';
+      assert.strictEqual(getFlag(buildSignArgs('bcrt1qexample', message), message), '--text');
+      assert.strictEqual(getFlag(buildVerifyArgs('bcrt1qexample', message, 'AAAA'), message), '--text');
+    });
+  });
+
+  describe('isVerificationFailure', () => {
+    it('should treat rejected signatures as verification failures', () => {
+      assert.ok(isVerificationFailure('error: Invalid signature'));
+      assert.ok(isVerificationFailure('error: failed to decode witness'));
+      assert.ok(isVerificationFailure('error: bip322 verification failed'));
+    });
+
+    it('should not treat ord failing to run as a verdict', () => {
+      assert.ok(!isVerificationFailure('spawn /usr/bin/ord ENOENT'));
+      assert.ok(!isVerificationFailure("error: unexpected argument '--text' found\n\nUsage: ord verify --address <ADDRESS> --witness <WITNESS>"));
+      assert.ok(!isVerificationFailure('connection refused'));
+    });
+  });
+});
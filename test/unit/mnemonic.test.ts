@@ -0,0 +1,57 @@
+import * as assert from 'assert';
+
+// Test the mnemonic helpers without importing the actual module
+// (since vscode is not available in pure unit tests)
+
+const MNEMONIC_WORD_COUNTS = [12, 15, 18, 21, 24];
+
+function normalizeMnemonic(input: string): string {
+  return input.trim().toLowerCase().split(/\s+/).join(' ');
+}
+
+function validateMnemonic(input: string): string | null {
+  const words = normalizeMnemonic(input).split(' ').filter(Boolean);
+
+  if (!words.every((word) => /^[a-z]+$/.test(word))) {
+    return 'Mnemonic words contain only letters';
+  }
+  if (!MNEMONIC_WORD_COUNTS.includes(words.length)) {
+    return `Mnemonics have 12, 15, 18, 21 or 24 words (got ${words.length})`;
+  }
+  return null;
+}
+
+describe('Mnemonic', () => {
+  const twelve = 'abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon about';
+
+  describe('normalizeMnemonic()', () => {
+    it('should collapse whitespace and line breaks', () => {
+      assert.strictEqual(normalizeMnemonic('  abandon\n abandon\tabout  '), 'abandon abandon about');
+    });
+
+    it('should lowercase words', () => {
+      assert.strictEqual(normalizeMnemonic('Abandon ABOUT'), 'abandon about');
+    });
+  });
+
+  describe('validateMnemonic()', () => {
+    it('should accept 12 and 24 word mnemonics', () => {
+      assert.strictEqual(validateMnemonic(twelve), null);
+      assert.strictEqual(validateMnemonic(`${twelve} ${twelve}`), null);
+    });
+
+    it('should accept pasted mnemonics with extra whitespace', () => {
+      assert.strictEqual(validateMnemonic(`\n${twelve.split(' ').join('\n')}\n`), null);
+    });
+
+    it('should reject other word counts', () => {
+      assert.ok(validateMnemonic('abandon about')?.includes('got 2'));
+      assert.ok(validateMnemonic('')?.includes('got 0'));
+    });
+
+    it('should reject digits and punctuation', () => {
+      assert.ok(validateMnemonic(twelve.replace('about', 'ab0ut')));
+      assert.ok(validateMnemonic(twelve.replace('about', 'about,')));
+    });
+  });
+});
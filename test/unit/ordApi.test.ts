@@ -0,0 +1,175 @@
+import * as assert from 'assert';
+import * as http from 'http';
+import { AddressInfo } from 'net';
+
+// Test the ord API client and inscription panel logic without importing the actual modules
+// (since vscode is not available in pure unit tests)
+
+const INSCRIPTION_ID = 'ab'.repeat(32) + 'i0';
+
+async function ordApiGet<T>(port: number, apiPath: string): Promise<T> {
+  return new Promise((resolve, reject) => {
+    const req = http.request(
+      {
+        hostname: '127.0.0.1',
+        port,
+        path: apiPath,
+        method: 'GET',
+        headers: { Accept: 'application/json' },
+        timeout: 10000,
+      },
+      (res) => {
+        let data = '';
+        res.on('data', (chunk) => (data += chunk));
+        res.on('end', () => {
+          if (res.statusCode === 200) {
+            resolve(JSON.parse(data) as T);
+          } else {
+            reject(new Error(`ord server returned HTTP ${res.statusCode} for ${apiPath}: ${data.trim()}`));
+          }
+        });
+      }
+    );
+    req.on('error', reject);
+    req.end();
+  });
+}
+
+type PreviewKind = 'image' | 'html' | 'text' | 'audio' | 'video' | 'other';
+
+function getPreviewKind(contentType: string | null): PreviewKind {
+  const type = (contentType || '').split(';')[0].trim().toLowerCase();
+
+  if (type.startsWith('image/')) {
+    return 'image';
+  }
+  if (type === 'text/html') {
+    return 'html';
+  }
+  if (type.startsWith('audio/')) {
+    return 'audio';
+  }
+  if (type.startsWith('video/')) {
+    return 'video';
+  }
+  if (type.startsWith('text/') || type === 'application/json' || type === 'application/javascript') {
+    return 'text';
+  }
+  return 'other';
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+describe('Ord API Client', () => {
+  let server: http.Server;
+  let serverPort: number;
+
+  before((done) => {
+    // Mock ord server that only answers JSON requests, like ord's JSON API
+    server = http.createServer((req, res) => {
+      if (req.headers.accept !== 'application/json') {
+        res.setHeader('Content-Type', 'text/html');
+        res.end('<html></html>');
+        return;
+      }
+
+      if (req.url === `/inscription/${INSCRIPTION_ID}`) {
+        res.setHeader('Content-Type', 'application/json');
+        res.end(JSON.stringify({
+          id: INSCRIPTION_ID,
+          number: 0,
+          address: 'bcrt1qtest',
+          content_type: 'image/png',
+          content_length: 1234,
+          fee: 322,
+          height: 110,
+          sat: null,
+          satpoint: `${'cd'.repeat(32)}:0:0`,
+          timestamp: 1700000000,
+          value: 10000,
+        }));
+        return;
+      }
+
+      res.statusCode = 404;
+      res.end('inscription not found');
+    });
+
+    server.listen(0, '127.0.0.1', () => {
+      serverPort = (server.address() as AddressInfo).port;
+      done();
+    });
+  });
+
+  after((done) => {
+    server.close(done);
+  });
+
+  it('should request JSON and parse inscription details', async () => {
+    const info = await ordApiGet<{ id: string; content_type: string; fee: number; height: number }>(
+      serverPort,
+      `/inscription/${INSCRIPTION_ID}`
+    );
+
+    assert.strictEqual(info.id, INSCRIPTION_ID);
+    assert.strictEqual(info.content_type, 'image/png');
+    assert.strictEqual(info.fee, 322);
+    assert.strictEqual(info.height, 110);
+  });
+
+  it('should reject with the status and body for unknown inscriptions', async () => {
+    await assert.rejects(
+      ordApiGet(serverPort, `/inscription/${'ef'.repeat(32)}i0`),
+      /HTTP 404 .*inscription not found/
+    );
+  });
+});
+
+describe('Inscription Panel', () => {
+  describe('Preview Kind', () => {
+    it('should render images, including SVG, as images', () => {
+      assert.strictEqual(getPreviewKind('image/png'), 'image');
+      assert.strictEqual(getPreviewKind('image/svg+xml'), 'image');
+    });
+
+    it('should sandbox HTML regardless of charset', () => {
+      assert.strictEqual(getPreviewKind('text/html;charset=utf-8'), 'html');
+      assert.strictEqual(getPreviewKind('TEXT/HTML'), 'html');
+    });
+
+    it('should show text and JSON inline', () => {
+      assert.strictEqual(getPreviewKind('text/plain;charset=utf-8'), 'text');
+      assert.strictEqual(getPreviewKind('application/json'), 'text');
+    });
+
+    it('should use media players for audio and video', () => {
+      assert.strictEqual(getPreviewKind('audio/mpeg'), 'audio');
+      assert.strictEqual(getPreviewKind('video/mp4'), 'video');
+    });
+
+    it('should fall back for unknown or missing content types', () => {
+      assert.strictEqual(getPreviewKind('model/gltf-binary'), 'other');
+      assert.strictEqual(getPreviewKind(null), 'other');
+    });
+  });
+
+  describe('HTML Escaping', () => {
+    it('should escape markup in inline text content', () => {
+      assert.strictEqual(
+        escapeHtml('<script>alert("x")</script>'),
+        '&lt;script&gt;alert(&quot;x&quot;)&lt;/script&gt;'
+      );
+    });
+
+    it('should escape ampersands first', () => {
+      assert.strictEqual(escapeHtml('&lt;'), '&amp;lt;');
+    });
+  });
+});
@@ -0,0 +1,138 @@
+import * as assert from 'assert';
+
+// Test the wallet output helpers without importing the actual modules
+// (since vscode is not available in pure unit tests)
+
+interface OutputEntry {
+  outpoint: string;
+  txid: string;
+  vout: number;
+  sats: number;
+  confirmations?: number;
+  frozen: boolean;
+  inscriptions: string[];
+  runes: Record<string, string>;
+}
+
+interface OrdOutput {
+  output: string;
+  amount: number;
+  inscriptions: string[];
+  runes: Record<string, string>;
+}
+
+interface OutputReference {
+  txid: string;
+  vout: number;
+}
+
+function splitOutpoint(outpoint: string): OutputReference {
+  const separator = outpoint.lastIndexOf(':');
+  return { txid: outpoint.substring(0, separator), vout: Number(outpoint.substring(separator + 1)) };
+}
+
+function mergeWalletOutputs(
+  outputs: OrdOutput[],
+  unspent: (OutputReference & { confirmations: number })[],
+  locked: OutputReference[]
+): OutputEntry[] {
+  const confirmations = new Map(unspent.map((utxo) => [`${utxo.txid}:${utxo.vout}`, utxo.confirmations]));
+  const frozen = new Set(locked.map((utxo) => `${utxo.txid}:${utxo.vout}`));
+
+  return outputs
+    .map((output) => ({
+      outpoint: output.output,
+      ...splitOutpoint(output.output),
+      sats: output.amount,
+      confirmations: confirmations.get(output.output),
+      frozen: frozen.has(output.output),
+      inscriptions: output.inscriptions,
+      runes: output.runes,
+    }))
+    .sort(compareConfirmations);
+}
+
+function compareConfirmations(a: OutputEntry, b: OutputEntry): number {
+  if (a.confirmations === undefined || b.confirmations === undefined) {
+    return Number(a.confirmations === undefined) - Number(b.confirmations === undefined);
+  }
+  return a.confirmations - b.confirmations;
+}
+
+function shortenOutpoint(outpoint: string): string {
+  const { txid, vout } = splitOutpoint(outpoint);
+  return `${txid.substring(0, 8)}…${txid.substring(txid.length - 4)}:${vout}`;
+}
+
+describe('Wallet Outputs', () => {
+  const txidA = 'a'.repeat(60) + '1234';
+  const txidB = 'b'.repeat(64);
+  const output = (outpoint: string, amount: number): OrdOutput => ({ output: outpoint, amount, inscriptions: [], runes: {} });
+
+  describe('splitOutpoint()', () => {
+    it('should split txid and vout', () => {
+      assert.deepStrictEqual(splitOutpoint(`${txidA}:3`), { txid: txidA, vout: 3 });
+    });
+  });
+
+  describe('shortenOutpoint()', () => {
+    it('should keep the start and end of the txid and the vout', () => {
+      assert.strictEqual(shortenOutpoint(`${txidA}:12`), 'aaaaaaaa…1234:12');
+    });
+  });
+
+  describe('mergeWalletOutputs()', () => {
+    it('should attach confirmations and frozen state', () => {
+      const [entry] = mergeWalletOutputs(
+        [output(`${txidA}:0`, 10000)],
+        [{ txid: txidA, vout: 0, confirmations: 3 }],
+        [{ txid: txidA, vout: 0 }]
+      );
+      assert.strictEqual(entry.confirmations, 3);
+      assert.strictEqual(entry.frozen, true);
+      assert.strictEqual(entry.sats, 10000);
+      assert.strictEqual(entry.vout, 0);
+    });
+
+    it('should match outputs by txid and vout', () => {
+      const entries = mergeWalletOutputs(
+        [output(`${txidA}:0`, 1), output(`${txidA}:1`, 2)],
+        [{ txid: txidA, vout: 1, confirmations: 5 }],
+        [{ txid: txidA, vout: 0 }]
+      );
+      const byVout = new Map(entries.map((entry) => [entry.vout, entry]));
+      assert.strictEqual(byVout.get(1)?.confirmations, 5);
+      assert.strictEqual(byVout.get(1)?.frozen, false);
+      assert.strictEqual(byVout.get(0)?.confirmations, undefined);
+      assert.strictEqual(byVout.get(0)?.frozen, true);
+    });
+
+    it('should list unconfirmed and newest outputs first, unknown last', () => {
+      const entries = mergeWalletOutputs(
+        [output(`${txidA}:0`, 1), output(`${txidB}:0`, 2), output(`${txidB}:1`, 3)],
+        [
+          { txid: txidA, vout: 0, confirmations: 100 },
+          { txid: txidB, vout: 0, confirmations: 0 },
+        ],
+        []
+      );
+      assert.deepStrictEqual(
+        entries.map((entry) => entry.outpoint),
+        [`${txidB}:0`, `${txidA}:0`, `${txidB}:1`]
+      );
+    });
+
+    it('should compare consistently when several outputs are unknown', () => {
+      const entries = mergeWalletOutputs(
+        [output(`${txidA}:1`, 1), output(`${txidA}:0`, 2), output(`${txidB}:1`, 3), output(`${txidB}:0`, 4)],
+        [{ txid: txidA, vout: 0, confirmations: 5 }, { txid: txidB, vout: 0, confirmations: 1 }],
+        []
+      );
+      assert.deepStrictEqual(
+        entries.map((entry) => entry.outpoint),
+        [`${txidB}:0`, `${txidA}:0`, `${txidA}:1`, `${txidB}:1`]
+      );
+      assert.ok(!Number.isNaN(compareConfirmations(entries[2], entries[3])));
+    });
+  });
+});
@@ -0,0 +1,63 @@
+import * as assert from 'assert';
+
+// Test the parent selection helpers without importing the actual module
+// (since vscode is not available in pure unit tests)
+
+interface ParentCandidate {
+  inscriptionId: string;
+  fileName?: string;
+  held: boolean;
+}
+
+function listParentCandidates(heldIds: string[], history: { id: string; fileName: string }[]): ParentCandidate[] {
+  const fileNames = new Map(history.map((record) => [record.id, record.fileName]));
+  const held = new Set(heldIds);
+
+  return [
+    ...heldIds.map((id) => ({ inscriptionId: id, fileName: fileNames.get(id), held: true })),
+    ...history
+      .filter((record) => !held.has(record.id))
+      .map((record) => ({ inscriptionId: record.id, fileName: record.fileName, held: false })),
+  ];
+}
+
+describe('Parent Inscriptions', () => {
+  const idA = 'a'.repeat(64) + 'i0';
+  const idB = 'b'.repeat(64) + 'i0';
+  const idC = 'c'.repeat(64) + 'i0';
+
+  describe('listParentCandidates', () => {
+    it('should list held inscriptions first, named from the history', () => {
+      const candidates = listParentCandidates([idA, idB], [{ id: idB, fileName: 'collection.html' }]);
+
+      assert.deepStrictEqual(candidates, [
+        { inscriptionId: idA, fileName: undefined, held: true },
+        { inscriptionId: idB, fileName: 'collection.html', held: true },
+      ]);
+    });
+
+    it('should add history entries the wallet no longer holds as not held', () => {
+      const candidates = listParentCandidates([idA], [{ id: idC, fileName: 'sent.png' }]);
+
+      assert.deepStrictEqual(candidates[1], { inscriptionId: idC, fileName: 'sent.png', held: false });
+    });
+
+    it('should not list an inscription twice when it is held and in the history', () => {
+      const candidates = listParentCandidates([idA], [{ id: idA, fileName: 'parent.svg' }]);
+
+      assert.strictEqual(candidates.length, 1);
+      assert.strictEqual(candidates[0].held, true);
+    });
+
+    it('should return nothing for an empty wallet and history', () => {
+      assert.deepStrictEqual(listParentCandidates([], []), []);
+    });
+
+    it('should only allow held candidates as parents', () => {
+      const candidates = listParentCandidates([idA], [{ id: idC, fileName: 'sent.png' }]);
+      const usable = candidates.filter((candidate) => candidate.held).map((candidate) => candidate.inscriptionId);
+
+      assert.deepStrictEqual(usable, [idA]);
+    });
+  });
+});
@@ -0,0 +1,206 @@
+import * as assert from 'assert';
+import * as path from 'path';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as http from 'http';
+
+// Test the preview server routing logic without importing the actual module
+// (since vscode is not available in pure unit tests)
+
+type PreviewRoute =
+  | { kind: 'active' }
+  | { kind: 'content'; id: string }
+  | { kind: 'inscriptionJson'; id: string }
+  | { kind: 'proxy' };
+
+const INSCRIPTION_ID = '([a-f0-9]{64}i\\d+)';
+
+function resolvePreviewRoute(urlPath: string): PreviewRoute {
+  if (urlPath === '/' || urlPath === '/preview') {
+    return { kind: 'active' };
+  }
+
+  const content = urlPath.match(new RegExp(`^/(?:content|preview|r/undelegated-content)/${INSCRIPTION_ID}$`));
+  if (content) {
+    return { kind: 'content', id: content[1] };
+  }
+
+  const inscription = urlPath.match(new RegExp(`^/r/inscription/${INSCRIPTION_ID}$`));
+  if (inscription) {
+    return { kind: 'inscriptionJson', id: inscription[1] };
+  }
+
+  return { kind: 'proxy' };
+}
+
+function readPreviewMapping(mappingPath: string): Map<string, string> {
+  const mapping = new Map<string, string>();
+  if (!fs.existsSync(mappingPath)) {
+    return mapping;
+  }
+
+  try {
+    const entries = JSON.parse(fs.readFileSync(mappingPath, 'utf-8')) as Record<string, unknown>;
+    for (const [id, localPath] of Object.entries(entries)) {
+      if (typeof localPath !== 'string') {
+        continue;
+      }
+      mapping.set(id, path.resolve(path.dirname(mappingPath), localPath));
+    }
+  } catch {
+    // Invalid mapping files are ignored
+  }
+
+  return mapping;
+}
+
+function isFile(filePath: string): boolean {
+  try {
+    return fs.statSync(filePath).isFile();
+  } catch {
+    return false;
+  }
+}
+
+function sendFile(res: http.ServerResponse, filePath: string): void {
+  if (!isFile(filePath)) {
+    res.writeHead(404, { 'Content-Type': 'text/plain' });
+    res.end(`Mapped file not found: ${filePath}`);
+    return;
+  }
+
+  const stream = fs.createReadStream(filePath);
+  stream.on('open', () => {
+    res.writeHead(200, { 'Content-Type': 'text/plain', 'Cache-Control': 'no-store' });
+    stream.pipe(res);
+  });
+  stream.on('error', () => {
+    if (res.headersSent) {
+      res.destroy();
+      return;
+    }
+    res.writeHead(500, { 'Content-Type': 'text/plain' });
+    res.end(`Could not read mapped file: ${filePath}`);
+  });
+}
+
+// Serves one file through sendFile and resolves with the response status and body
+async function fetchMappedFile(filePath: string): Promise<{ status: number; body: string }> {
+  const server = http.createServer((_req, res) => sendFile(res, filePath));
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as { port: number };
+
+  try {
+    return await new Promise((resolve, reject) => {
+      http
+        .get({ hostname: '127.0.0.1', port, path: '/' }, (res) => {
+          const chunks: Buffer[] = [];
+          res.on('data', (chunk: Buffer) => chunks.push(chunk));
+          res.on('end', () => resolve({ status: res.statusCode ?? 0, body: Buffer.concat(chunks).toString('utf8') }));
+        })
+        .on('error', reject);
+    });
+  } finally {
+    server.close();
+  }
+}
+
+describe('Preview Server', () => {
+  const id = 'ab'.repeat(32) + 'i0';
+
+  describe('Route Resolution', () => {
+    it('should serve the active file at / and /preview', () => {
+      assert.deepStrictEqual(resolvePreviewRoute('/'), { kind: 'active' });
+      assert.deepStrictEqual(resolvePreviewRoute('/preview'), { kind: 'active' });
+    });
+
+    it('should resolve content endpoints', () => {
+      assert.deepStrictEqual(resolvePreviewRoute(`/content/${id}`), { kind: 'content', id });
+      assert.deepStrictEqual(resolvePreviewRoute(`/preview/${id}`), { kind: 'content', id });
+      assert.deepStrictEqual(resolvePreviewRoute(`/r/undelegated-content/${id}`), { kind: 'content', id });
+    });
+
+    it('should resolve the recursive inscription endpoint', () => {
+      assert.deepStrictEqual(resolvePreviewRoute(`/r/inscription/${id}`), { kind: 'inscriptionJson', id });
+    });
+
+    it('should proxy other recursion endpoints to ord', () => {
+      const proxied = ['/r/blockheight', '/r/blockhash', `/r/metadata/${id}`, `/r/children/${id}`, '/r/sat/1'];
+      for (const urlPath of proxied) {
+        assert.deepStrictEqual(resolvePreviewRoute(urlPath), { kind: 'proxy' }, urlPath);
+      }
+    });
+
+    it('should proxy malformed inscription IDs', () => {
+      assert.deepStrictEqual(resolvePreviewRoute('/content/notanid'), { kind: 'proxy' });
+      assert.deepStrictEqual(resolvePreviewRoute(`/content/${id}/extra`), { kind: 'proxy' });
+    });
+  });
+
+  describe('Mapping File', () => {
+    let tmpDir: string;
+
+    beforeEach(() => {
+      tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'ord-preview-test-'));
+    });
+
+    afterEach(() => {
+      fs.rmSync(tmpDir, { recursive: true, force: true });
+    });
+
+    it('should return an empty mapping when the file does not exist', () => {
+      const mapping = readPreviewMapping(path.join(tmpDir, 'ord-preview.json'));
+      assert.strictEqual(mapping.size, 0);
+    });
+
+    it('should resolve paths relative to the mapping file', () => {
+      const mappingDir = path.join(tmpDir, 'config');
+      fs.mkdirSync(mappingDir);
+      const mappingPath = path.join(mappingDir, 'ord-preview.json');
+      fs.writeFileSync(mappingPath, JSON.stringify({ [id]: '../lib/p5.min.js' }));
+
+      const mapping = readPreviewMapping(mappingPath);
+      assert.strictEqual(mapping.get(id), path.join(tmpDir, 'lib', 'p5.min.js'));
+    });
+
+    it('should skip entries whose path is not a string', () => {
+      const mappingPath = path.join(tmpDir, 'ord-preview.json');
+      fs.writeFileSync(mappingPath, JSON.stringify({ [id]: 42, other: 'lib.js' }));
+
+      const mapping = readPreviewMapping(mappingPath);
+      assert.strictEqual(mapping.has(id), false);
+      assert.strictEqual(mapping.get('other'), path.join(tmpDir, 'lib.js'));
+    });
+
+    it('should ignore an invalid mapping file', () => {
+      const mappingPath = path.join(tmpDir, 'ord-preview.json');
+      fs.writeFileSync(mappingPath, '{ not json');
+
+      assert.strictEqual(readPreviewMapping(mappingPath).size, 0);
+    });
+  });
+
+  describe('Mapped Files', () => {
+    let tmpDir: string;
+
+    beforeEach(() => {
+      tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'ord-preview-test-'));
+    });
+
+    afterEach(() => {
+      fs.rmSync(tmpDir, { recursive: true, force: true });
+    });
+
+    it('should serve a mapped file', async () => {
+      const filePath = path.join(tmpDir, 'sketch.js');
+      fs.writeFileSync(filePath, 'draw();');
+
+      assert.deepStrictEqual(await fetchMappedFile(filePath), { status: 200, body: 'draw();' });
+    });
+
+    it('should answer 404 for a missing file or a directory', async () => {
+      assert.strictEqual((await fetchMappedFile(path.join(tmpDir, 'deleted.js'))).status, 404);
+      assert.strictEqual((await fetchMappedFile(tmpDir)).status, 404);
+    });
+  });
+});
@@ -0,0 +1,200 @@
+import * as assert from 'assert';
+
+// Test the PSBT helpers without importing the actual modules
+// (since vscode is not available in pure unit tests)
+
+const PSBT_BASE64_PREFIX = 'cHNidP8';
+
+interface PsbtInscription {
+  id: string;
+  offset: number;
+}
+
+interface PsbtInput {
+  outpoint: string;
+  address?: string;
+  sats?: number;
+  signed: boolean;
+  inscriptions: PsbtInscription[];
+}
+
+interface PsbtOutput {
+  index: number;
+  address?: string;
+  sats: number;
+  inscriptions: string[];
+}
+
+function looksLikePsbt(value: string): boolean {
+  return value.trim().startsWith(PSBT_BASE64_PREFIX);
+}
+
+function isInputSigned(input: {
+  partial_signatures?: Record<string, string>;
+  taproot_key_path_sig?: string;
+  final_scriptwitness?: string[];
+  final_scriptSig?: { hex: string };
+}): boolean {
+  return Boolean(
+    input.final_scriptwitness?.length ||
+      input.final_scriptSig ||
+      input.taproot_key_path_sig ||
+      Object.keys(input.partial_signatures ?? {}).length
+  );
+}
+
+function traceInscriptions(inputs: PsbtInput[], outputs: PsbtOutput[]): { toFee: string[]; untraced: string[] } {
+  const toFee: string[] = [];
+  const untraced: string[] = [];
+  let inputStart = 0;
+  let known = true;
+
+  for (const input of inputs) {
+    if (!known || input.sats === undefined) {
+      known = false;
+      untraced.push(...input.inscriptions.map((inscription) => inscription.id));
+      continue;
+    }
+
+    for (const inscription of input.inscriptions) {
+      const position = inputStart + inscription.offset;
+      let outputStart = 0;
+      const output = outputs.find((candidate) => {
+        const contains = position >= outputStart && position < outputStart + candidate.sats;
+        outputStart += candidate.sats;
+        return contains;
+      });
+
+      if (output) {
+        output.inscriptions.push(inscription.id);
+      } else {
+        toFee.push(inscription.id);
+      }
+    }
+    inputStart += input.sats;
+  }
+
+  return { toFee, untraced };
+}
+
+function splitSatpoint(satpoint: string): { outpoint: string; offset: number } {
+  const separator = satpoint.lastIndexOf(':');
+  return { outpoint: satpoint.substring(0, separator), offset: Number(satpoint.substring(separator + 1)) };
+}
+
+function input(sats: number | undefined, inscriptions: PsbtInscription[] = []): PsbtInput {
+  return { outpoint: `${'a'.repeat(64)}:0`, sats, signed: false, inscriptions };
+}
+
+function output(index: number, sats: number): PsbtOutput {
+  return { index, sats, inscriptions: [] };
+}
+
+function getInscriptionPostage(locations: string[], outputs: { n: number; sats: number }[]): number {
+  const vouts = new Set(locations.map((location) => Number(splitSatpoint(location).outpoint.split(':')[1])));
+  return outputs.filter((output) => vouts.has(output.n)).reduce((sum, output) => sum + output.sats, 0);
+}
+
+describe('PSBT Helpers', () => {
+  describe('looksLikePsbt', () => {
+    it('should accept base64 PSBTs', () => {
+      assert.ok(looksLikePsbt('cHNidP8BAHECAAAAAQ=='));
+      assert.ok(looksLikePsbt('  cHNidP8BAH\n'));
+    });
+
+    it('should reject other input', () => {
+      assert.ok(!looksLikePsbt(''));
+      assert.ok(!looksLikePsbt('70736274ff01'));
+      assert.ok(!looksLikePsbt('AkcwRAIgZRfIY3p7'));
+    });
+  });
+
+  describe('isInputSigned', () => {
+    it('should treat inputs without signatures as unsigned', () => {
+      assert.strictEqual(isInputSigned({}), false);
+      assert.strictEqual(isInputSigned({ partial_signatures: {} }), false);
+      assert.strictEqual(isInputSigned({ final_scriptwitness: [] }), false);
+    });
+
+    it('should detect partial, taproot and final signatures', () => {
+      assert.strictEqual(isInputSigned({ partial_signatures: { '02ab': '3044' } }), true);
+      assert.strictEqual(isInputSigned({ taproot_key_path_sig: 'abcd' }), true);
+      assert.strictEqual(isInputSigned({ final_scriptwitness: ['abcd'] }), true);
+      assert.strictEqual(isInputSigned({ final_scriptSig: { hex: '00' } }), true);
+    });
+  });
+
+  describe('traceInscriptions', () => {
+    it('should move an inscription to the output covering its sat', () => {
+      const outputs = [output(0, 10000), output(1, 50000)];
+      const result = traceInscriptions([input(10000, [{ id: 'insc0', offset: 0 }]), input(60000)], outputs);
+
+      assert.deepStrictEqual(outputs[0].inscriptions, ['insc0']);
+      assert.deepStrictEqual(outputs[1].inscriptions, []);
+      assert.deepStrictEqual(result, { toFee: [], untraced: [] });
+    });
+
+    it('should account for the value of earlier inputs', () => {
+      // An offer: the buyer's padding input comes first, then the seller's inscription
+      const outputs = [output(0, 600), output(1, 10000), output(2, 100000)];
+      traceInscriptions([input(600), input(10000, [{ id: 'bought', offset: 0 }]), input(200000)], outputs);
+
+      assert.deepStrictEqual(outputs[1].inscriptions, ['bought']);
+    });
+
+    it('should use the offset inside the input', () => {
+      const outputs = [output(0, 5000), output(1, 5000)];
+      traceInscriptions([input(10000, [{ id: 'late', offset: 7000 }])], outputs);
+
+      assert.deepStrictEqual(outputs[0].inscriptions, []);
+      assert.deepStrictEqual(outputs[1].inscriptions, ['late']);
+    });
+
+    it('should report inscriptions that fall into the fee', () => {
+      const outputs = [output(0, 9000)];
+      const result = traceInscriptions([input(10000, [{ id: 'lost', offset: 9500 }])], outputs);
+
+      assert.deepStrictEqual(result.toFee, ['lost']);
+    });
+
+    it('should not trace past an input with an unknown value', () => {
+      const outputs = [output(0, 10000), output(1, 10000)];
+      const result = traceInscriptions(
+        [input(undefined, [{ id: 'first', offset: 0 }]), input(10000, [{ id: 'second', offset: 0 }])],
+        outputs
+      );
+
+      assert.deepStrictEqual(result.untraced, ['first', 'second']);
+      assert.deepStrictEqual(outputs[0].inscriptions, []);
+    });
+  });
+
+  describe('splitSatpoint', () => {
+    it('should split the output and offset', () => {
+      const txid = 'b'.repeat(64);
+      assert.deepStrictEqual(splitSatpoint(`${txid}:1:330`), { outpoint: `${txid}:1`, offset: 330 });
+    });
+  });
+
+  describe('getInscriptionPostage', () => {
+    const reveal = 'c'.repeat(64);
+    const outputs = [
+      { n: 0, sats: 546 },
+      { n: 1, sats: 330 },
+      { n: 2, sats: 50000 },
+    ];
+
+    it('should sum the outputs the inscriptions land in', () => {
+      assert.strictEqual(getInscriptionPostage([`${reveal}:0:0`, `${reveal}:1:0`], outputs), 876);
+    });
+
+    it('should count an output shared by several inscriptions once', () => {
+      assert.strictEqual(getInscriptionPostage([`${reveal}:0:0`, `${reveal}:0:1`], outputs), 546);
+    });
+
+    it('should leave out change and parent outputs', () => {
+      assert.strictEqual(getInscriptionPostage([`${reveal}:1:0`], outputs), 330);
+      assert.strictEqual(getInscriptionPostage([], outputs), 0);
+    });
+  });
+});
@@ -0,0 +1,129 @@
+import * as assert from 'assert';
+
+describe('Reorg Simulation', () => {
+  interface InscriptionState {
+    height: number;
+    satpoint: string;
+    address: string | null;
+  }
+
+  type InscriptionChange = 'unconfirmed' | 'ownerChanged' | 'moved' | 'reconfirmed' | 'unchanged';
+
+  interface InscriptionDiff {
+    id: string;
+    change: InscriptionChange;
+    before: InscriptionState;
+    after?: InscriptionState;
+  }
+
+  // Mirrors getReorgRange() in src/utils/reorg.ts
+  function getReorgRange(tipHeight: number, depth: number): { first: number; last: number } | undefined {
+    if (!Number.isInteger(depth) || depth < 1 || depth > tipHeight) {
+      return undefined;
+    }
+    return { first: tipHeight - depth + 1, last: tipHeight };
+  }
+
+  // Mirrors diffInscriptions() in src/utils/reorg.ts
+  function diffInscriptions(
+    before: Map<string, InscriptionState>,
+    after: Map<string, InscriptionState | undefined>
+  ): InscriptionDiff[] {
+    const diffs: InscriptionDiff[] = [];
+
+    for (const [id, previous] of before) {
+      const current = after.get(id);
+      let change: InscriptionChange;
+      if (!current) {
+        change = 'unconfirmed';
+      } else if (current.address !== previous.address) {
+        change = 'ownerChanged';
+      } else if (current.satpoint !== previous.satpoint) {
+        change = 'moved';
+      } else if (current.height !== previous.height) {
+        change = 'reconfirmed';
+      } else {
+        change = 'unchanged';
+      }
+      diffs.push({ id, change, before: previous, after: current });
+    }
+
+    return [...diffs.filter((diff) => diff.change !== 'unchanged'), ...diffs.filter((diff) => diff.change === 'unchanged')];
+  }
+
+  const TXID_A = 'a'.repeat(64);
+  const TXID_B = 'b'.repeat(64);
+
+  function state(height: number, address: string | null, satpoint: string): InscriptionState {
+    return { height, address, satpoint };
+  }
+
+  describe('getReorgRange', () => {
+    it('should cover the last N blocks up to the tip', () => {
+      assert.deepStrictEqual(getReorgRange(150, 1), { first: 150, last: 150 });
+      assert.deepStrictEqual(getReorgRange(150, 3), { first: 148, last: 150 });
+    });
+
+    it('should allow disconnecting every block but genesis', () => {
+      assert.deepStrictEqual(getReorgRange(10, 10), { first: 1, last: 10 });
+      assert.strictEqual(getReorgRange(10, 11), undefined);
+    });
+
+    it('should reject depths below one or fractional depths', () => {
+      assert.strictEqual(getReorgRange(10, 0), undefined);
+      assert.strictEqual(getReorgRange(10, -1), undefined);
+      assert.strictEqual(getReorgRange(10, 1.5), undefined);
+    });
+  });
+
+  describe('diffInscriptions', () => {
+    it('should report inscriptions ord no longer indexes as unconfirmed', () => {
+      const before = new Map([['i1', state(150, 'bcrt1qa', `${TXID_A}:0:0`)]]);
+      const diffs = diffInscriptions(before, new Map([['i1', undefined]]));
+
+      assert.strictEqual(diffs[0].change, 'unconfirmed');
+      assert.strictEqual(diffs[0].after, undefined);
+    });
+
+    it('should report a new address as an owner change', () => {
+      const before = new Map([['i1', state(150, 'bcrt1qa', `${TXID_A}:0:0`)]]);
+      const after = new Map([['i1', state(150, 'bcrt1qb', `${TXID_B}:0:0`)]]);
+
+      assert.strictEqual(diffInscriptions(before, after)[0].change, 'ownerChanged');
+    });
+
+    it('should report a new output of the same address as moved', () => {
+      const before = new Map([['i1', state(150, 'bcrt1qa', `${TXID_A}:0:0`)]]);
+      const after = new Map([['i1', state(150, 'bcrt1qa', `${TXID_B}:1:0`)]]);
+
+      assert.strictEqual(diffInscriptions(before, after)[0].change, 'moved');
+    });
+
+    it('should report a reveal mined at another height as re-confirmed', () => {
+      const before = new Map([['i1', state(150, 'bcrt1qa', `${TXID_A}:0:0`)]]);
+      const after = new Map([['i1', state(152, 'bcrt1qa', `${TXID_A}:0:0`)]]);
+
+      assert.strictEqual(diffInscriptions(before, after)[0].change, 'reconfirmed');
+    });
+
+    it('should list changes before unchanged inscriptions', () => {
+      const same = state(100, 'bcrt1qa', `${TXID_A}:0:0`);
+      const before = new Map([
+        ['kept', same],
+        ['lost', state(150, 'bcrt1qa', `${TXID_B}:0:0`)],
+      ]);
+      const after = new Map<string, InscriptionState | undefined>([
+        ['kept', same],
+        ['lost', undefined],
+      ]);
+
+      assert.deepStrictEqual(
+        diffInscriptions(before, after).map((diff) => [diff.id, diff.change]),
+        [
+          ['lost', 'unconfirmed'],
+          ['kept', 'unchanged'],
+        ]
+      );
+    });
+  });
+});
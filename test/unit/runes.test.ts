@@ -0,0 +1,293 @@
+import * as assert from 'assert';
+
+// Test the rune etching logic without importing the actual modules
+// (since vscode is not available in pure unit tests)
+
+type Network = 'mainnet' | 'testnet' | 'signet' | 'regtest';
+
+const MAX_RUNE_LENGTH = 28;
+const SUBSIDY_HALVING_INTERVAL = 210000;
+const UNLOCK_INTERVAL = SUBSIDY_HALVING_INTERVAL / 12;
+
+const FIRST_RUNE_HEIGHT: Record<Network, number> = {
+  mainnet: SUBSIDY_HALVING_INTERVAL * 4,
+  testnet: SUBSIDY_HALVING_INTERVAL * 12,
+  signet: 0,
+  regtest: 0,
+};
+
+interface RuneTerms {
+  amount: string;
+  cap: string;
+}
+
+function normalizeRuneName(input: string): string {
+  return input.trim().toUpperCase().replace(/[\s.]+/g, '•');
+}
+
+function countRuneLetters(name: string): number {
+  return name.replace(/•/g, '').length;
+}
+
+function getMinimumRuneLength(network: Network, height: number): number {
+  const start = FIRST_RUNE_HEIGHT[network];
+  const offset = height + 1;
+
+  if (offset < start) {
+    return 13;
+  }
+
+  return Math.max(1, 13 - Math.floor((offset - start) / UNLOCK_INTERVAL));
+}
+
+function validateRuneName(name: string): string | null {
+  if (!/^[A-Z](?:•?[A-Z])*$/.test(name)) {
+    return 'Rune names use letters A-Z, with single spacers (• or space) only between letters';
+  }
+
+  if (countRuneLetters(name) > MAX_RUNE_LENGTH) {
+    return `Rune names can have at most ${MAX_RUNE_LENGTH} letters`;
+  }
+
+  return null;
+}
+
+function parseRuneAmount(value: string, divisibility: number): bigint | undefined {
+  const match = value.trim().replace(/_/g, '').match(/^(\d+)(?:\.(\d*))?$/);
+  if (!match) {
+    return undefined;
+  }
+
+  const [, whole, fraction = ''] = match;
+  if (fraction.length > divisibility) {
+    return undefined;
+  }
+
+  return BigInt(whole) * 10n ** BigInt(divisibility) + BigInt(fraction.padEnd(divisibility, '0') || '0');
+}
+
+function formatRuneAmount(units: bigint, divisibility: number): string {
+  if (divisibility === 0) {
+    return units.toString();
+  }
+
+  const digits = units.toString().padStart(divisibility + 1, '0');
+  return `${digits.slice(0, -divisibility)}.${digits.slice(-divisibility)}`;
+}
+
+function readMintedAmount(stdout: string): bigint | undefined {
+  const match = stdout.match(/"pile"\s*:\s*\{[^}]*?"amount"\s*:\s*(\d+)/);
+  return match ? BigInt(match[1]) : undefined;
+}
+
+function computeRuneSupply(premine: string, divisibility: number, terms?: RuneTerms): string | undefined {
+  const premineUnits = parseRuneAmount(premine, divisibility);
+  if (premineUnits === undefined) {
+    return undefined;
+  }
+
+  let supply = premineUnits;
+  if (terms) {
+    const amount = parseRuneAmount(terms.amount, divisibility);
+    const cap = parseRuneAmount(terms.cap, 0);
+    if (amount === undefined || cap === undefined) {
+      return undefined;
+    }
+    supply += amount * cap;
+  }
+
+  return formatRuneAmount(supply, divisibility);
+}
+
+interface RuneMintState {
+  block: number;
+  mints: number;
+  terms: {
+    cap: number | null;
+    height: [number | null, number | null];
+    offset: [number | null, number | null];
+  } | null;
+}
+
+function describeMintBlocker(entry: RuneMintState, height: number): string | null {
+  const { terms } = entry;
+  if (!terms) {
+    return 'It has no mint terms, the whole supply was premined';
+  }
+
+  if (terms.cap !== null && entry.mints >= terms.cap) {
+    return `All ${terms.cap} mints have been made`;
+  }
+
+  const next = height + 1;
+  const [heightStart, heightEnd] = terms.height;
+  const [offsetStart, offsetEnd] = terms.offset;
+  const starts = [heightStart, offsetStart !== null ? entry.block + offsetStart : null].filter(
+    (value): value is number => value !== null
+  );
+  const ends = [heightEnd, offsetEnd !== null ? entry.block + offsetEnd : null].filter(
+    (value): value is number => value !== null
+  );
+
+  const start = starts.length > 0 ? Math.max(...starts) : undefined;
+  if (start !== undefined && next < start) {
+    return `Minting opens at block ${start}, the next block is ${next}`;
+  }
+
+  const end = ends.length > 0 ? Math.min(...ends) : undefined;
+  if (end !== undefined && next >= end) {
+    return `Minting closed at block ${end}`;
+  }
+
+  return null;
+}
+
+describe('Runes', () => {
+  describe('Rune Names', () => {
+    it('should uppercase names and turn spaces and dots into spacers', () => {
+      assert.strictEqual(normalizeRuneName(' uncommon goods '), 'UNCOMMON•GOODS');
+      assert.strictEqual(normalizeRuneName('z.z.z'), 'Z•Z•Z');
+    });
+
+    it('should accept letters with single spacers between them', () => {
+      assert.strictEqual(validateRuneName('UNCOMMON•GOODS'), null);
+      assert.strictEqual(validateRuneName('A'), null);
+    });
+
+    it('should reject leading, trailing and doubled spacers', () => {
+      assert.ok(validateRuneName('•ABC'));
+      assert.ok(validateRuneName('ABC•'));
+      assert.ok(validateRuneName('A••B'));
+    });
+
+    it('should reject digits and other characters', () => {
+      assert.ok(validateRuneName('RUNE1'));
+      assert.ok(validateRuneName('RUNE-COIN'));
+      assert.ok(validateRuneName(''));
+    });
+
+    it('should not count spacers towards the length limit', () => {
+      const longest = 'BCGDENLQRQWDSLRUGSNLBTMFIJAV';
+      assert.strictEqual(validateRuneName(longest), null);
+      assert.strictEqual(validateRuneName(longest.split('').join('•')), null);
+      assert.ok(validateRuneName(longest + 'A'));
+    });
+  });
+
+  describe('Minimum Name Length', () => {
+    it('should require 13 letters right after activation', () => {
+      assert.strictEqual(getMinimumRuneLength('regtest', 110), 13);
+      assert.strictEqual(getMinimumRuneLength('mainnet', 840000), 13);
+    });
+
+    it('should require 13 letters before activation', () => {
+      assert.strictEqual(getMinimumRuneLength('mainnet', 800000), 13);
+    });
+
+    it('should unlock one letter per interval', () => {
+      assert.strictEqual(getMinimumRuneLength('regtest', UNLOCK_INTERVAL - 1), 12);
+      assert.strictEqual(getMinimumRuneLength('mainnet', 840000 + 2 * UNLOCK_INTERVAL), 11);
+    });
+
+    it('should bottom out at one letter', () => {
+      assert.strictEqual(getMinimumRuneLength('regtest', 1000000), 1);
+    });
+  });
+
+  describe('Amounts', () => {
+    it('should scale decimal amounts by divisibility', () => {
+      assert.strictEqual(parseRuneAmount('1000.5', 2), 100050n);
+      assert.strictEqual(parseRuneAmount('1000', 2), 100000n);
+      assert.strictEqual(parseRuneAmount('7', 0), 7n);
+    });
+
+    it('should reject more decimals than the divisibility allows', () => {
+      assert.strictEqual(parseRuneAmount('1.5', 0), undefined);
+      assert.strictEqual(parseRuneAmount('1.234', 2), undefined);
+    });
+
+    it('should allow underscores as digit separators', () => {
+      assert.strictEqual(parseRuneAmount('21_000_000', 0), 21000000n);
+    });
+
+    it('should reject negative and malformed amounts', () => {
+      assert.strictEqual(parseRuneAmount('-1', 0), undefined);
+      assert.strictEqual(parseRuneAmount('abc', 0), undefined);
+      assert.strictEqual(parseRuneAmount('', 0), undefined);
+    });
+
+    it('should keep precision beyond JavaScript numbers', () => {
+      const big = '340282366920938463463374607431768211455';
+      assert.strictEqual(parseRuneAmount(big, 0)?.toString(), big);
+    });
+
+    it('should read minted amounts beyond JavaScript numbers from raw ord output', () => {
+      const big = '340282366920938463463374607431768211455';
+      const stdout = `{\n  "mint": "${'a'.repeat(64)}",\n  "pile": {\n    "amount": ${big},\n    "divisibility": 2,\n    "symbol": "¤"\n  },\n  "rune": "UNCOMMON•GOODS"\n}`;
+
+      assert.strictEqual(readMintedAmount(stdout)?.toString(), big);
+      assert.notStrictEqual(BigInt(JSON.parse(stdout).pile.amount).toString(), big);
+    });
+
+    it('should not read an amount outside the pile', () => {
+      assert.strictEqual(readMintedAmount('{"amount": 5, "rune": "X"}'), undefined);
+    });
+
+    it('should format amounts with exactly divisibility decimals', () => {
+      assert.strictEqual(formatRuneAmount(100050n, 2), '1000.50');
+      assert.strictEqual(formatRuneAmount(5n, 3), '0.005');
+      assert.strictEqual(formatRuneAmount(42n, 0), '42');
+    });
+  });
+
+  describe('Supply', () => {
+    it('should equal the premine without mint terms', () => {
+      assert.strictEqual(computeRuneSupply('1000', 2), '1000.00');
+    });
+
+    it('should add amount times cap for open mints', () => {
+      assert.strictEqual(computeRuneSupply('1000', 2, { amount: '100', cap: '90' }), '10000.00');
+      assert.strictEqual(computeRuneSupply('0', 0, { amount: '21', cap: '1000000' }), '21000000');
+    });
+
+    it('should return undefined for invalid inputs', () => {
+      assert.strictEqual(computeRuneSupply('1.5', 0), undefined);
+      assert.strictEqual(computeRuneSupply('0', 0, { amount: '1', cap: '2.5' }), undefined);
+    });
+  });
+
+  describe('Mint Window', () => {
+    const open = (terms: Partial<NonNullable<RuneMintState['terms']>> = {}, mints = 0): RuneMintState => ({
+      block: 100,
+      mints,
+      terms: { cap: 10, height: [null, null], offset: [null, null], ...terms },
+    });
+
+    it('should allow minting open runes', () => {
+      assert.strictEqual(describeMintBlocker(open(), 150), null);
+    });
+
+    it('should explain premine-only runes', () => {
+      assert.ok(describeMintBlocker({ block: 100, mints: 0, terms: null }, 150)?.includes('no mint terms'));
+    });
+
+    it('should explain a reached cap', () => {
+      assert.ok(describeMintBlocker(open({}, 10), 150)?.includes('All 10 mints'));
+    });
+
+    it('should check the next block against the height window', () => {
+      assert.ok(describeMintBlocker(open({ height: [200, null] }), 150)?.includes('opens at block 200'));
+      assert.strictEqual(describeMintBlocker(open({ height: [200, null] }), 199), null);
+      assert.ok(describeMintBlocker(open({ height: [null, 151] }), 150)?.includes('closed at block 151'));
+    });
+
+    it('should measure the offset window from the etching block', () => {
+      assert.ok(describeMintBlocker(open({ offset: [10, null] }), 105)?.includes('opens at block 110'));
+      assert.ok(describeMintBlocker(open({ offset: [null, 20] }), 125)?.includes('closed at block 120'));
+    });
+
+    it('should use the later start when both windows are set', () => {
+      assert.ok(describeMintBlocker(open({ height: [105, null], offset: [20, null] }), 110)?.includes('opens at block 120'));
+    });
+  });
+});
@@ -0,0 +1,161 @@
+import * as assert from 'assert';
+
+// Test the sat helpers without importing the actual modules
+// (since vscode is not available in pure unit tests)
+
+const COIN_VALUE = 100000000;
+const SUBSIDY_HALVING_INTERVAL = 210000;
+const DIFFCHANGE_INTERVAL = 2016;
+const LAST_EPOCH = 33;
+
+type Rarity = 'common' | 'uncommon' | 'rare' | 'epic' | 'legendary' | 'mythic';
+
+interface SatRange {
+  start: number;
+  end: number;
+}
+
+function subsidy(epoch: number): number {
+  return epoch > LAST_EPOCH ? 0 : Math.floor((50 * COIN_VALUE) / 2 ** epoch);
+}
+
+function getSatRarity(sat: number): Rarity {
+  if (sat === 0) {
+    return 'mythic';
+  }
+
+  let epoch = 0;
+  let epochStart = 0;
+  while (epoch <= LAST_EPOCH && sat >= epochStart + SUBSIDY_HALVING_INTERVAL * subsidy(epoch)) {
+    epochStart += SUBSIDY_HALVING_INTERVAL * subsidy(epoch);
+    epoch++;
+  }
+
+  const blockSubsidy = subsidy(epoch);
+  if (blockSubsidy === 0 || (sat - epochStart) % blockSubsidy !== 0) {
+    return 'common';
+  }
+
+  const height = epoch * SUBSIDY_HALVING_INTERVAL + (sat - epochStart) / blockSubsidy;
+  const firstOfEpoch = height % SUBSIDY_HALVING_INTERVAL === 0;
+  const firstOfPeriod = height % DIFFCHANGE_INTERVAL === 0;
+
+  if (firstOfEpoch && firstOfPeriod) {
+    return 'legendary';
+  }
+  if (firstOfEpoch) {
+    return 'epic';
+  }
+  if (firstOfPeriod) {
+    return 'rare';
+  }
+  return 'uncommon';
+}
+
+function parseSatRange(value: string): SatRange | undefined {
+  const match = value.trim().match(/^(\d+)-(\d+)$/);
+  if (!match) {
+    return undefined;
+  }
+
+  const start = Number(match[1]);
+  const end = Number(match[2]);
+  return end > start ? { start, end } : undefined;
+}
+
+function isValidSatpoint(value: string): boolean {
+  return /^[0-9a-f]{64}:\d+:\d+$/i.test(value.trim());
+}
+
+function getSatpointForSat(output: string, ranges: SatRange[], sat: number): string | undefined {
+  let offset = 0;
+  for (const range of ranges) {
+    if (sat >= range.start && sat < range.end) {
+      return `${output}:${offset + sat - range.start}`;
+    }
+    offset += range.end - range.start;
+  }
+  return undefined;
+}
+
+// Sat numbers of the first sat in a block, per ord's numbering
+function firstSatOfHeight(height: number): number {
+  let sat = 0;
+  for (let epoch = 0; epoch < Math.floor(height / SUBSIDY_HALVING_INTERVAL); epoch++) {
+    sat += SUBSIDY_HALVING_INTERVAL * subsidy(epoch);
+  }
+  const epoch = Math.floor(height / SUBSIDY_HALVING_INTERVAL);
+  return sat + (height % SUBSIDY_HALVING_INTERVAL) * subsidy(epoch);
+}
+
+describe('Sats', () => {
+  describe('Rarity', () => {
+    it('should make sat 0 mythic', () => {
+      assert.strictEqual(getSatRarity(0), 'mythic');
+    });
+
+    it('should make the first sat of a block uncommon', () => {
+      assert.strictEqual(getSatRarity(50 * COIN_VALUE), 'uncommon');
+      assert.strictEqual(getSatRarity(firstSatOfHeight(100)), 'uncommon');
+    });
+
+    it('should make other sats common', () => {
+      assert.strictEqual(getSatRarity(1), 'common');
+      assert.strictEqual(getSatRarity(50 * COIN_VALUE + 1), 'common');
+      assert.strictEqual(getSatRarity(50 * COIN_VALUE - 1), 'common');
+    });
+
+    it('should make the first sat of a difficulty period rare', () => {
+      assert.strictEqual(getSatRarity(firstSatOfHeight(DIFFCHANGE_INTERVAL)), 'rare');
+    });
+
+    it('should make the first sat of a halving epoch epic', () => {
+      assert.strictEqual(getSatRarity(firstSatOfHeight(SUBSIDY_HALVING_INTERVAL)), 'epic');
+      assert.strictEqual(getSatRarity(1050000000000000), 'epic');
+    });
+
+    it('should make the first sat of a cycle legendary', () => {
+      assert.strictEqual(getSatRarity(firstSatOfHeight(6 * SUBSIDY_HALVING_INTERVAL)), 'legendary');
+    });
+
+    it('should treat sats after the last epoch as common', () => {
+      assert.strictEqual(getSatRarity(2099999997690000), 'common');
+    });
+  });
+
+  describe('Ranges', () => {
+    it('should parse ord ranges with an exclusive end', () => {
+      assert.deepStrictEqual(parseSatRange('5000000000-5000001000'), { start: 5000000000, end: 5000001000 });
+    });
+
+    it('should reject empty and malformed ranges', () => {
+      assert.strictEqual(parseSatRange('10-10'), undefined);
+      assert.strictEqual(parseSatRange('10'), undefined);
+      assert.strictEqual(parseSatRange('a-b'), undefined);
+    });
+  });
+
+  describe('Satpoints', () => {
+    const txid = 'a'.repeat(64);
+
+    it('should validate txid:vout:offset', () => {
+      assert.ok(isValidSatpoint(`${txid}:0:0`));
+      assert.ok(!isValidSatpoint(`${txid}:0`));
+      assert.ok(!isValidSatpoint('abc:0:0'));
+    });
+
+    it('should offset sats by the ranges before them in the output', () => {
+      const ranges = [
+        { start: 100, end: 110 },
+        { start: 500, end: 520 },
+      ];
+      assert.strictEqual(getSatpointForSat(`${txid}:1`, ranges, 100), `${txid}:1:0`);
+      assert.strictEqual(getSatpointForSat(`${txid}:1`, ranges, 109), `${txid}:1:9`);
+      assert.strictEqual(getSatpointForSat(`${txid}:1`, ranges, 505), `${txid}:1:15`);
+    });
+
+    it('should return undefined for sats outside the output', () => {
+      assert.strictEqual(getSatpointForSat(`${txid}:1`, [{ start: 100, end: 110 }], 110), undefined);
+    });
+  });
+});
@@ -0,0 +1,135 @@
+import * as assert from 'assert';
+
+// Test the send command helpers without importing the actual modules
+// (since vscode is not available in pure unit tests)
+
+type Network = 'mainnet' | 'testnet' | 'signet' | 'regtest';
+
+const ADDRESS_PATTERNS: Record<Network, RegExp> = {
+  mainnet: /^(bc1[ac-hj-np-z02-9]{11,87}|[13][a-km-zA-HJ-NP-Z1-9]{25,34})$/i,
+  testnet: /^(tb1[ac-hj-np-z02-9]{11,87}|[mn2][a-km-zA-HJ-NP-Z1-9]{25,34})$/i,
+  signet: /^(tb1[ac-hj-np-z02-9]{11,87}|[mn2][a-km-zA-HJ-NP-Z1-9]{25,34})$/i,
+  regtest: /^(bcrt1[ac-hj-np-z02-9]{11,87}|[mn2][a-km-zA-HJ-NP-Z1-9]{25,34})$/i,
+};
+
+function isValidAddress(address: string, network: Network): boolean {
+  return ADDRESS_PATTERNS[network].test(address.trim());
+}
+
+const SATS_PER_BTC = 100000000;
+
+function parseAmount(input: string): number | undefined {
+  const match = input.trim().toLowerCase().match(/^(\d+(?:\.\d+)?|\.\d+)\s*(btc|sats?|satoshis?)?$/);
+  if (!match) {
+    return undefined;
+  }
+
+  const [, value, unit] = match;
+  if (unit && unit.startsWith('sat')) {
+    if (value.includes('.')) {
+      return undefined;
+    }
+    const sats = parseInt(value, 10);
+    return sats > 0 ? sats : undefined;
+  }
+
+  const [whole, fraction = ''] = value.split('.');
+  if (fraction.length > 8) {
+    return undefined;
+  }
+  const sats = parseInt(whole || '0', 10) * SATS_PER_BTC + parseInt(fraction.padEnd(8, '0'), 10);
+  return sats > 0 ? sats : undefined;
+}
+
+function formatBtc(sats: number): string {
+  return `${(sats / SATS_PER_BTC).toFixed(8)} BTC`;
+}
+
+describe('Send', () => {
+  describe('Amount Parsing', () => {
+    it('should treat plain numbers as BTC', () => {
+      assert.strictEqual(parseAmount('1'), SATS_PER_BTC);
+      assert.strictEqual(parseAmount('0.5'), 50000000);
+    });
+
+    it('should accept a BTC unit in any case', () => {
+      assert.strictEqual(parseAmount('0.5 btc'), 50000000);
+      assert.strictEqual(parseAmount('0.5BTC'), 50000000);
+    });
+
+    it('should accept sats with or without a space', () => {
+      assert.strictEqual(parseAmount('10000 sats'), 10000);
+      assert.strictEqual(parseAmount('10000sat'), 10000);
+      assert.strictEqual(parseAmount('546 satoshis'), 546);
+    });
+
+    it('should convert decimal BTC amounts exactly', () => {
+      // 0.1 + 0.2 style float errors must not leak into sat amounts
+      assert.strictEqual(parseAmount('0.1'), 10000000);
+      assert.strictEqual(parseAmount('0.29'), 29000000);
+      assert.strictEqual(parseAmount('.00000001'), 1);
+    });
+
+    it('should reject more than 8 decimal places', () => {
+      assert.strictEqual(parseAmount('0.000000001'), undefined);
+    });
+
+    it('should reject fractional sats', () => {
+      assert.strictEqual(parseAmount('1.5 sats'), undefined);
+    });
+
+    it('should reject zero, negative and malformed amounts', () => {
+      assert.strictEqual(parseAmount('0'), undefined);
+      assert.strictEqual(parseAmount('-1'), undefined);
+      assert.strictEqual(parseAmount('abc'), undefined);
+      assert.strictEqual(parseAmount('1 eth'), undefined);
+      assert.strictEqual(parseAmount(''), undefined);
+    });
+
+    it('should format sats as BTC with 8 decimals', () => {
+      assert.strictEqual(formatBtc(50000000), '0.50000000 BTC');
+      assert.strictEqual(formatBtc(1), '0.00000001 BTC');
+    });
+  });
+
+  describe('Address Validation', () => {
+    const segwit = {
+      mainnet: 'bc1qar0srrr7xfkvy5l643lydnw9re59gtzzwf5mdq',
+      testnet: 'tb1qw508d6qejxtdg4y5r3zarvary0c5xw7kxpjzsx',
+      regtest: 'bcrt1qs758ursh4q9z627kt3pp5yysm78ddny6txaqgw',
+    };
+
+    it('should accept addresses for the matching network', () => {
+      assert.ok(isValidAddress(segwit.mainnet, 'mainnet'));
+      assert.ok(isValidAddress(segwit.testnet, 'testnet'));
+      assert.ok(isValidAddress(segwit.testnet, 'signet'));
+      assert.ok(isValidAddress(segwit.regtest, 'regtest'));
+    });
+
+    it('should accept legacy and P2SH addresses', () => {
+      assert.ok(isValidAddress('1BvBMSEYstWetqTFn5Au4m4GFg7xJaNVN2', 'mainnet'));
+      assert.ok(isValidAddress('3J98t1WpEZ73CNmQviecrnyiWrnqRhWNLy', 'mainnet'));
+      assert.ok(isValidAddress('mipcBbFg9gMiCh81Kj8tqqdgoZub1ZJRfn', 'regtest'));
+    });
+
+    it('should reject addresses from another network', () => {
+      assert.ok(!isValidAddress(segwit.mainnet, 'regtest'));
+      assert.ok(!isValidAddress(segwit.regtest, 'mainnet'));
+      assert.ok(!isValidAddress(segwit.testnet, 'mainnet'));
+    });
+
+    it('should ignore surrounding whitespace', () => {
+      assert.ok(isValidAddress(`  ${segwit.regtest}\n`, 'regtest'));
+    });
+
+    it('should reject characters outside the bech32 alphabet', () => {
+      // "b", "i", "o" and "1" are not valid after the separator
+      assert.ok(!isValidAddress('bcrt1qbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbb', 'regtest'));
+    });
+
+    it('should reject empty and truncated input', () => {
+      assert.ok(!isValidAddress('', 'regtest'));
+      assert.ok(!isValidAddress('bcrt1q', 'regtest'));
+    });
+  });
+});
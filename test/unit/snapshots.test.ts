@@ -0,0 +1,192 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+// Test the snapshot file operations without importing the actual modules
+// (since vscode is not available in pure unit tests)
+
+const METADATA_FILE = 'snapshot.json';
+const SKIPPED_FILES = ['.lock', '.cookie', 'debug.log'];
+
+interface SnapshotMetadata {
+  name: string;
+  created: string;
+  blockHeight?: number;
+  currentWallet: string;
+  wallets: string[];
+}
+
+interface SnapshotDirectories {
+  bitcoin: string;
+  ord: string;
+}
+
+function copyDirectory(source: string, target: string): void {
+  fs.cpSync(source, target, {
+    recursive: true,
+    filter: (file) => !SKIPPED_FILES.includes(path.basename(file)),
+  });
+}
+
+function isValidSnapshotName(name: string): boolean {
+  return /^[a-zA-Z0-9_-]+$/.test(name);
+}
+
+function listSnapshots(snapshotsDir: string): SnapshotMetadata[] {
+  if (!fs.existsSync(snapshotsDir)) {
+    return [];
+  }
+
+  const snapshots: SnapshotMetadata[] = [];
+  for (const entry of fs.readdirSync(snapshotsDir, { withFileTypes: true })) {
+    const metadataPath = path.join(snapshotsDir, entry.name, METADATA_FILE);
+    if (!entry.isDirectory() || !fs.existsSync(metadataPath)) {
+      continue;
+    }
+    try {
+      snapshots.push(JSON.parse(fs.readFileSync(metadataPath, 'utf-8')) as SnapshotMetadata);
+    } catch {
+      // A half-written snapshot has no usable metadata
+    }
+  }
+
+  return snapshots.sort((a, b) => b.created.localeCompare(a.created));
+}
+
+function saveSnapshotFiles(snapshotsDir: string, dirs: SnapshotDirectories, metadata: SnapshotMetadata): void {
+  const snapshotDir = path.join(snapshotsDir, metadata.name);
+  fs.rmSync(snapshotDir, { recursive: true, force: true });
+  fs.mkdirSync(snapshotDir, { recursive: true });
+
+  try {
+    if (fs.existsSync(dirs.bitcoin)) {
+      copyDirectory(dirs.bitcoin, path.join(snapshotDir, 'bitcoin'));
+    }
+    if (fs.existsSync(dirs.ord)) {
+      copyDirectory(dirs.ord, path.join(snapshotDir, 'ord'));
+    }
+    fs.writeFileSync(path.join(snapshotDir, METADATA_FILE), JSON.stringify(metadata, null, 2));
+  } catch (error) {
+    fs.rmSync(snapshotDir, { recursive: true, force: true });
+    throw error;
+  }
+}
+
+function restoreSnapshotFiles(snapshotsDir: string, name: string, dirs: SnapshotDirectories): SnapshotMetadata {
+  const snapshotDir = path.join(snapshotsDir, name);
+  const metadataPath = path.join(snapshotDir, METADATA_FILE);
+  if (!fs.existsSync(metadataPath)) {
+    throw new Error(`Snapshot "${name}" does not exist`);
+  }
+  const metadata = JSON.parse(fs.readFileSync(metadataPath, 'utf-8')) as SnapshotMetadata;
+
+  for (const [kind, target] of Object.entries(dirs) as [keyof SnapshotDirectories, string][]) {
+    fs.rmSync(target, { recursive: true, force: true });
+    const source = path.join(snapshotDir, kind);
+    if (fs.existsSync(source)) {
+      copyDirectory(source, target);
+    }
+  }
+
+  return metadata;
+}
+
+function metadata(name: string, created: string): SnapshotMetadata {
+  return { name, created, blockHeight: 101, currentWallet: 'ord', wallets: ['ord'] };
+}
+
+describe('Chain Snapshots', () => {
+  let tmpDir: string;
+  let dirs: SnapshotDirectories;
+  let snapshotsDir: string;
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'ord-snapshot-test-'));
+    dirs = { bitcoin: path.join(tmpDir, 'bitcoin', 'regtest'), ord: path.join(tmpDir, 'ord', 'regtest') };
+    snapshotsDir = path.join(tmpDir, 'globalStorage', 'snapshots');
+
+    fs.mkdirSync(path.join(dirs.bitcoin, 'blocks'), { recursive: true });
+    fs.mkdirSync(path.join(dirs.bitcoin, 'wallets', 'ord'), { recursive: true });
+    fs.writeFileSync(path.join(dirs.bitcoin, 'blocks', 'blk00000.dat'), 'blocks v1');
+    fs.writeFileSync(path.join(dirs.bitcoin, 'wallets', 'ord', 'wallet.dat'), 'wallet v1');
+    fs.writeFileSync(path.join(dirs.bitcoin, '.cookie'), '__cookie__:secret');
+    fs.writeFileSync(path.join(dirs.bitcoin, 'debug.log'), 'log');
+
+    fs.mkdirSync(path.join(dirs.ord, 'wallets'), { recursive: true });
+    fs.writeFileSync(path.join(dirs.ord, 'index.redb'), 'index v1');
+    fs.writeFileSync(path.join(dirs.ord, 'wallets', 'ord.redb'), 'ord wallet v1');
+  });
+
+  afterEach(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  it('should validate snapshot names', () => {
+    assert.ok(isValidSnapshotName('funded-wallets_2'));
+    assert.ok(!isValidSnapshotName(''));
+    assert.ok(!isValidSnapshotName('../escape'));
+    assert.ok(!isValidSnapshotName('with space'));
+  });
+
+  it('should copy the chain, index and wallets but not runtime files', () => {
+    saveSnapshotFiles(snapshotsDir, dirs, metadata('base', '2024-01-01T00:00:00.000Z'));
+
+    const snapshotDir = path.join(snapshotsDir, 'base');
+    assert.strictEqual(fs.readFileSync(path.join(snapshotDir, 'bitcoin', 'blocks', 'blk00000.dat'), 'utf-8'), 'blocks v1');
+    assert.strictEqual(fs.readFileSync(path.join(snapshotDir, 'ord', 'index.redb'), 'utf-8'), 'index v1');
+    assert.ok(fs.existsSync(path.join(snapshotDir, 'ord', 'wallets', 'ord.redb')));
+    assert.ok(!fs.existsSync(path.join(snapshotDir, 'bitcoin', '.cookie')));
+    assert.ok(!fs.existsSync(path.join(snapshotDir, 'bitcoin', 'debug.log')));
+  });
+
+  it('should list snapshots newest first and skip incomplete ones', () => {
+    saveSnapshotFiles(snapshotsDir, dirs, metadata('older', '2024-01-01T00:00:00.000Z'));
+    saveSnapshotFiles(snapshotsDir, dirs, metadata('newer', '2024-02-01T00:00:00.000Z'));
+    fs.mkdirSync(path.join(snapshotsDir, 'half-written'));
+
+    assert.deepStrictEqual(listSnapshots(snapshotsDir).map((snapshot) => snapshot.name), ['newer', 'older']);
+  });
+
+  it('should return no snapshots before any are saved', () => {
+    assert.deepStrictEqual(listSnapshots(snapshotsDir), []);
+  });
+
+  it('should restore the saved state and drop later changes', () => {
+    saveSnapshotFiles(snapshotsDir, dirs, metadata('base', '2024-01-01T00:00:00.000Z'));
+
+    fs.writeFileSync(path.join(dirs.bitcoin, 'blocks', 'blk00000.dat'), 'blocks v2');
+    fs.writeFileSync(path.join(dirs.ord, 'index.redb'), 'index v2');
+    fs.writeFileSync(path.join(dirs.ord, 'wallets', 'throwaway.redb'), 'new wallet');
+
+    const restored = restoreSnapshotFiles(snapshotsDir, 'base', dirs);
+
+    assert.strictEqual(restored.name, 'base');
+    assert.strictEqual(fs.readFileSync(path.join(dirs.bitcoin, 'blocks', 'blk00000.dat'), 'utf-8'), 'blocks v1');
+    assert.strictEqual(fs.readFileSync(path.join(dirs.ord, 'index.redb'), 'utf-8'), 'index v1');
+    assert.ok(!fs.existsSync(path.join(dirs.ord, 'wallets', 'throwaway.redb')));
+  });
+
+  it('should keep a snapshot unchanged when restoring it', () => {
+    saveSnapshotFiles(snapshotsDir, dirs, metadata('base', '2024-01-01T00:00:00.000Z'));
+    restoreSnapshotFiles(snapshotsDir, 'base', dirs);
+    fs.writeFileSync(path.join(dirs.ord, 'index.redb'), 'index v2');
+
+    restoreSnapshotFiles(snapshotsDir, 'base', dirs);
+    assert.strictEqual(fs.readFileSync(path.join(dirs.ord, 'index.redb'), 'utf-8'), 'index v1');
+  });
+
+  it('should replace a snapshot saved under the same name', () => {
+    saveSnapshotFiles(snapshotsDir, dirs, metadata('base', '2024-01-01T00:00:00.000Z'));
+    fs.writeFileSync(path.join(dirs.ord, 'index.redb'), 'index v2');
+    saveSnapshotFiles(snapshotsDir, dirs, metadata('base', '2024-02-01T00:00:00.000Z'));
+
+    assert.strictEqual(fs.readFileSync(path.join(snapshotsDir, 'base', 'ord', 'index.redb'), 'utf-8'), 'index v2');
+    assert.strictEqual(listSnapshots(snapshotsDir).length, 1);
+  });
+
+  it('should refuse to restore a missing snapshot', () => {
+    assert.throws(() => restoreSnapshotFiles(snapshotsDir, 'missing', dirs), /does not exist/);
+    assert.ok(fs.existsSync(path.join(dirs.ord, 'index.redb')));
+  });
+});
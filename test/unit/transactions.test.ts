@@ -0,0 +1,165 @@
+import * as assert from 'assert';
+
+// Test the wallet transaction helpers without importing the actual modules
+// (since vscode is not available in pure unit tests)
+
+const SATS_PER_BTC = 100000000;
+
+interface TransactionEntry {
+  txid: string;
+  confirmations: number;
+  deltaSats?: number;
+  time?: number;
+  mined: boolean;
+  inscriptions: string[];
+}
+
+interface OrdTransaction {
+  transaction: string;
+  confirmations: number;
+}
+
+interface BitcoindEntry {
+  txid: string;
+  category: string;
+  amount: number;
+  fee?: number;
+  confirmations: number;
+  time: number;
+}
+
+interface InscriptionLocation {
+  id: string;
+  location?: string;
+}
+
+function formatBtc(sats: number): string {
+  return `${(sats / SATS_PER_BTC).toFixed(8)} BTC`;
+}
+
+function mergeWalletTransactions(
+  ordTransactions: OrdTransaction[],
+  entries: BitcoindEntry[],
+  inscriptions: InscriptionLocation[]
+): TransactionEntry[] {
+  const rows = new Map<string, TransactionEntry>();
+  const feesCounted = new Set<string>();
+
+  const rowFor = (txid: string, confirmations: number): TransactionEntry => {
+    let row = rows.get(txid);
+    if (!row) {
+      row = { txid, confirmations, mined: false, inscriptions: [] };
+      rows.set(txid, row);
+    }
+    return row;
+  };
+
+  for (const tx of ordTransactions) {
+    rowFor(tx.transaction, tx.confirmations);
+  }
+
+  for (const entry of entries) {
+    const row = rowFor(entry.txid, entry.confirmations);
+    let delta = Math.round(entry.amount * SATS_PER_BTC);
+    if (entry.fee !== undefined && !feesCounted.has(entry.txid)) {
+      delta += Math.round(entry.fee * SATS_PER_BTC);
+      feesCounted.add(entry.txid);
+    }
+    row.deltaSats = (row.deltaSats ?? 0) + delta;
+    row.time = entry.time;
+    row.mined = row.mined || entry.category === 'generate' || entry.category === 'immature';
+  }
+
+  for (const inscription of inscriptions) {
+    const revealTxid = inscription.id.replace(/i\d+$/, '');
+    const locationTxid = inscription.location?.split(':')[0];
+    for (const txid of new Set([revealTxid, locationTxid])) {
+      const row = txid ? rows.get(txid) : undefined;
+      if (row && !row.inscriptions.includes(inscription.id)) {
+        row.inscriptions.push(inscription.id);
+      }
+    }
+  }
+
+  return [...rows.values()].sort((a, b) => a.confirmations - b.confirmations || (b.time ?? 0) - (a.time ?? 0));
+}
+
+function formatBtcDelta(sats: number): string {
+  const sign = sats > 0 ? '+' : sats < 0 ? '-' : '';
+  return `${sign}${formatBtc(Math.abs(sats))}`;
+}
+
+describe('Wallet Transactions', () => {
+  const txA = 'a'.repeat(64);
+  const txB = 'b'.repeat(64);
+  const txC = 'c'.repeat(64);
+
+  describe('mergeWalletTransactions()', () => {
+    it('should sum entries of a transaction and count the fee once', () => {
+      const [row] = mergeWalletTransactions(
+        [{ transaction: txA, confirmations: 1 }],
+        [
+          { txid: txA, category: 'send', amount: -0.001, fee: -0.00000200, confirmations: 1, time: 10 },
+          { txid: txA, category: 'send', amount: -0.0001, fee: -0.00000200, confirmations: 1, time: 10 },
+        ],
+        []
+      );
+      assert.strictEqual(row.deltaSats, -110200);
+    });
+
+    it('should keep ord transactions that bitcoind does not report', () => {
+      const rows = mergeWalletTransactions([{ transaction: txA, confirmations: 2 }], [], []);
+      assert.strictEqual(rows.length, 1);
+      assert.strictEqual(rows[0].deltaSats, undefined);
+    });
+
+    it('should mark coinbase rewards as mined', () => {
+      const [row] = mergeWalletTransactions(
+        [],
+        [{ txid: txA, category: 'immature', amount: 50, confirmations: 3, time: 10 }],
+        []
+      );
+      assert.strictEqual(row.mined, true);
+      assert.strictEqual(row.deltaSats, 50 * SATS_PER_BTC);
+    });
+
+    it('should link inscriptions by reveal and by current location', () => {
+      const rows = mergeWalletTransactions(
+        [
+          { transaction: txA, confirmations: 5 },
+          { transaction: txB, confirmations: 1 },
+        ],
+        [],
+        [
+          { id: `${txA}i0`, location: `${txB}:0:0` },
+          { id: `${txC}i0`, location: `${txB}:1:0` },
+          { id: `${txA}i1` },
+        ]
+      );
+      const byTxid = new Map(rows.map((row) => [row.txid, row]));
+      assert.deepStrictEqual(byTxid.get(txA)?.inscriptions, [`${txA}i0`, `${txA}i1`]);
+      assert.deepStrictEqual(byTxid.get(txB)?.inscriptions, [`${txA}i0`, `${txC}i0`]);
+    });
+
+    it('should list the newest transactions first', () => {
+      const rows = mergeWalletTransactions(
+        [
+          { transaction: txA, confirmations: 10 },
+          { transaction: txB, confirmations: 0 },
+          { transaction: txC, confirmations: 3 },
+        ],
+        [],
+        []
+      );
+      assert.deepStrictEqual(rows.map((row) => row.txid), [txB, txC, txA]);
+    });
+  });
+
+  describe('formatBtcDelta()', () => {
+    it('should sign received and sent amounts', () => {
+      assert.strictEqual(formatBtcDelta(10000), '+0.00010000 BTC');
+      assert.strictEqual(formatBtcDelta(-250000000), '-2.50000000 BTC');
+      assert.strictEqual(formatBtcDelta(0), '0.00000000 BTC');
+    });
+  });
+});
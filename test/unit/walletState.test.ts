@@ -175,6 +175,110 @@ describe('Wallet State', () => {
     });
   });
 
+  describe('Deleting and Renaming Wallet Files', () => {
+    let tmpDir: string;
+    let ordWalletsDir: string;
+    let bitcoinWalletsDir: string;
+
+    beforeEach(() => {
+      tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'ord-wallet-files-test-'));
+      ordWalletsDir = path.join(tmpDir, 'ord', 'regtest', 'wallets');
+      bitcoinWalletsDir = path.join(tmpDir, 'bitcoin', 'regtest', 'wallets');
+      fs.mkdirSync(ordWalletsDir, { recursive: true });
+      fs.mkdirSync(bitcoinWalletsDir, { recursive: true });
+    });
+
+    afterEach(() => {
+      fs.rmSync(tmpDir, { recursive: true, force: true });
+    });
+
+    function walletPaths(walletName: string): string[] {
+      return [
+        path.join(ordWalletsDir, `${walletName}.redb`),
+        path.join(ordWalletsDir, walletName),
+        path.join(bitcoinWalletsDir, walletName),
+      ];
+    }
+
+    function deleteWalletFiles(walletName: string): void {
+      for (const walletPath of walletPaths(walletName)) {
+        if (fs.existsSync(walletPath)) {
+          fs.rmSync(walletPath, { recursive: true, force: true });
+        }
+      }
+    }
+
+    function renameWalletFiles(from: string, to: string): void {
+      const sources = walletPaths(from);
+      const targets = walletPaths(to);
+
+      const taken = targets.find((target) => fs.existsSync(target));
+      if (taken) {
+        throw new Error(`Cannot rename wallet "${from}": ${taken} already exists`);
+      }
+
+      sources.forEach((source, i) => {
+        if (fs.existsSync(source)) {
+          fs.renameSync(source, targets[i]);
+        }
+      });
+    }
+
+    function createWallet(walletName: string): void {
+      fs.writeFileSync(path.join(ordWalletsDir, `${walletName}.redb`), 'fake data');
+      fs.mkdirSync(path.join(bitcoinWalletsDir, walletName));
+      fs.writeFileSync(path.join(bitcoinWalletsDir, walletName, 'wallet.dat'), 'fake data');
+    }
+
+    it('should delete the ord database and the bitcoind wallet', () => {
+      createWallet('throwaway');
+      createWallet('keep');
+
+      deleteWalletFiles('throwaway');
+
+      assert.ok(!fs.existsSync(path.join(ordWalletsDir, 'throwaway.redb')));
+      assert.ok(!fs.existsSync(path.join(bitcoinWalletsDir, 'throwaway')));
+      assert.ok(fs.existsSync(path.join(ordWalletsDir, 'keep.redb')));
+      assert.ok(fs.existsSync(path.join(bitcoinWalletsDir, 'keep', 'wallet.dat')));
+    });
+
+    it('should delete wallets stored as directories', () => {
+      fs.mkdirSync(path.join(ordWalletsDir, 'old-style'));
+      fs.writeFileSync(path.join(ordWalletsDir, 'old-style', 'wallet.redb'), 'fake data');
+
+      deleteWalletFiles('old-style');
+
+      assert.ok(!fs.existsSync(path.join(ordWalletsDir, 'old-style')));
+    });
+
+    it('should not fail when a wallet has no bitcoind files', () => {
+      fs.writeFileSync(path.join(ordWalletsDir, 'ord-only.redb'), 'fake data');
+
+      assert.doesNotThrow(() => deleteWalletFiles('ord-only'));
+      assert.ok(!fs.existsSync(path.join(ordWalletsDir, 'ord-only.redb')));
+    });
+
+    it('should rename the ord database and the bitcoind wallet together', () => {
+      createWallet('before');
+
+      renameWalletFiles('before', 'after');
+
+      assert.ok(!fs.existsSync(path.join(ordWalletsDir, 'before.redb')));
+      assert.ok(!fs.existsSync(path.join(bitcoinWalletsDir, 'before')));
+      assert.ok(fs.existsSync(path.join(ordWalletsDir, 'after.redb')));
+      assert.ok(fs.existsSync(path.join(bitcoinWalletsDir, 'after', 'wallet.dat')));
+    });
+
+    it('should refuse to rename onto an existing wallet', () => {
+      createWallet('a');
+      fs.mkdirSync(path.join(bitcoinWalletsDir, 'b'));
+
+      assert.throws(() => renameWalletFiles('a', 'b'), /already exists/);
+      assert.ok(fs.existsSync(path.join(ordWalletsDir, 'a.redb')));
+      assert.ok(fs.existsSync(path.join(bitcoinWalletsDir, 'a', 'wallet.dat')));
+    });
+  });
+
   describe('Default Wallet', () => {
     const DEFAULT_WALLET_NAME = 'ord';
 
@@ -409,6 +513,95 @@ describe('Wallet Switching', () => {
     });
   });
 
+  describe('Per-Network Current Wallet', () => {
+    const LEGACY_CURRENT_WALLET_KEY = 'ord.currentWallet';
+    const CURRENT_WALLET_KEY_PREFIX = 'ord.currentWallet.';
+    const DEFAULT_WALLET_NAME = 'ord';
+
+    // Mirrors walletState.ts with Maps standing in for globalState and workspaceState
+    class WalletState {
+      readonly global = new Map<string, string>();
+      readonly workspace = new Map<string, string>();
+
+      constructor(
+        public network: string,
+        public walletPerWorkspace = false
+      ) {}
+
+      migrate(): void {
+        const legacyWallet = this.global.get(LEGACY_CURRENT_WALLET_KEY);
+        if (legacyWallet !== undefined) {
+          const key = CURRENT_WALLET_KEY_PREFIX + this.network;
+          if (!this.global.has(key)) {
+            this.global.set(key, legacyWallet);
+          }
+          this.global.delete(LEGACY_CURRENT_WALLET_KEY);
+        }
+      }
+
+      getCurrentWallet(network = this.network): string {
+        const key = CURRENT_WALLET_KEY_PREFIX + network;
+        const workspaceWallet = this.walletPerWorkspace ? this.workspace.get(key) : undefined;
+        return workspaceWallet ?? this.global.get(key) ?? DEFAULT_WALLET_NAME;
+      }
+
+      setCurrentWallet(walletName: string): void {
+        const key = CURRENT_WALLET_KEY_PREFIX + this.network;
+        if (this.walletPerWorkspace) {
+          this.workspace.set(key, walletName);
+        }
+        this.global.set(key, walletName);
+      }
+    }
+
+    it('should remember the wallet of each network separately', () => {
+      const state = new WalletState('regtest');
+      state.setCurrentWallet('test-a');
+
+      state.network = 'signet';
+      assert.strictEqual(state.getCurrentWallet(), DEFAULT_WALLET_NAME);
+      state.setCurrentWallet('signet-main');
+
+      state.network = 'regtest';
+      assert.strictEqual(state.getCurrentWallet(), 'test-a');
+      assert.strictEqual(state.getCurrentWallet('signet'), 'signet-main');
+    });
+
+    it('should move the legacy wallet to the configured network', () => {
+      const state = new WalletState('testnet');
+      state.global.set(LEGACY_CURRENT_WALLET_KEY, 'old-choice');
+
+      state.migrate();
+
+      assert.strictEqual(state.getCurrentWallet(), 'old-choice');
+      assert.strictEqual(state.getCurrentWallet('regtest'), DEFAULT_WALLET_NAME);
+      assert.ok(!state.global.has(LEGACY_CURRENT_WALLET_KEY));
+    });
+
+    it('should not overwrite a per-network wallet when migrating', () => {
+      const state = new WalletState('regtest');
+      state.global.set(LEGACY_CURRENT_WALLET_KEY, 'old-choice');
+      state.global.set(CURRENT_WALLET_KEY_PREFIX + 'regtest', 'newer-choice');
+
+      state.migrate();
+
+      assert.strictEqual(state.getCurrentWallet(), 'newer-choice');
+    });
+
+    it('should prefer the workspace wallet when remembering per workspace', () => {
+      const state = new WalletState('regtest', true);
+      state.global.set(CURRENT_WALLET_KEY_PREFIX + 'regtest', 'other-project');
+      assert.strictEqual(state.getCurrentWallet(), 'other-project');
+
+      state.setCurrentWallet('this-project');
+      state.global.set(CURRENT_WALLET_KEY_PREFIX + 'regtest', 'other-project');
+      assert.strictEqual(state.getCurrentWallet(), 'this-project');
+
+      state.walletPerWorkspace = false;
+      assert.strictEqual(state.getCurrentWallet(), 'other-project');
+    });
+  });
+
   describe('Wallet Selection UI', () => {
     interface WalletQuickPickItem {
       label: string;